@@ -2,9 +2,13 @@
 pragma solidity ^0.8.24;
 
 import "@openzeppelin/contracts/token/ERC1155/ERC1155.sol";
-import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Burnable.sol";
+import "@openzeppelin/contracts/token/ERC1155/extensions/ERC1155Supply.sol";
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "./interfaces/IMetadataRenderer.sol";
+import "./interfaces/IRandomnessCoordinator.sol";
 
-contract DungeonToken is ERC1155, Ownable {
+contract DungeonToken is ERC1155Supply, ERC1155Burnable, AccessControl, IRandomnessConsumer {
     // Token IDs
     uint256 public constant ENERGY = 1;
     uint256 public constant GOLD = 2;
@@ -17,36 +21,446 @@ contract DungeonToken is ERC1155, Ownable {
     uint256 public constant LEGENDARY_SWORD_4 = 2004;
     uint256 public constant LEGENDARY_SWORD_5 = 2005;
     
+    // Roles. DEFAULT_ADMIN_ROLE grants and revokes them (grantRole / revokeRole).
+    bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");             // mint Energy and Gold
+    bytes32 public constant GAME_MASTER_ROLE = keccak256("GAME_MASTER_ROLE");   // reset players, start seasons
+    bytes32 public constant CONFIG_ADMIN_ROLE = keccak256("CONFIG_ADMIN_ROLE"); // items, recipes, dungeons, metadata, randomness
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");             // pause and unpause game actions
+    bytes32 public constant ESCROW_ROLE = keccak256("ESCROW_ROLE");             // trade escrow and marketplace contracts
+
     // Game constants
-    uint256 public constant DUNGEON_ENERGY_COST = 1;
     uint256 public constant STARTER_PACK_ENERGY = 10;
     uint256 public constant STARTER_PACK_GOLD = 100;
     
-    // Tracking who claimed starter pack
-    mapping(address => bool) public hasClaimedStarterPack;
+    // Item definitions (owner-managed registry of every token ID the game uses)
+    enum Rarity { Resource, Common, Rare, Epic, Legendary }
+
+    struct ItemDefinition {
+        string name;
+        Rarity rarity;
+        uint256 attackPower;
+        bool soulbound;    // can be minted and burned but not transferred
+        uint256 maxSupply; // 0 = uncapped
+    }
+
+    mapping(uint256 => ItemDefinition) private items;
+    mapping(uint256 => bool) private isItemDefined;
+    uint256[] private itemIds;
+    
+    // Season each player last claimed a starter pack in (one pack per season)
+    mapping(address => uint256) private starterPackSeason;
 
     // Player registry for admin resets (demo use only)
-    address[] public playerList;
+    address[] private playerList;
     mapping(address => bool) public isPlayer;
+
+    // Index in playerList the reset pass in progress continues from (0 when none is)
+    uint256 public resetCursor;
+
+    // Seasons (ids from 1). Starting a season soft-resets every player without
+    // touching them: balanceOf shows what they keep into the new season, and
+    // their old balances are settled the first time they play or trade in it.
+    // Starter packs, craft counts and stats are kept per season.
+    struct Season {
+        uint256 startedAt;
+        uint256 endsAt;  // planned end, 0 = open-ended
+        uint256 endedAt; // when the next season started, 0 while current
+    }
+
+    struct SeasonStats {
+        uint256 dungeonRuns;
+        uint256 goldEarned;
+        uint256 itemsCrafted;
+        uint256 legendariesCrafted;
+    }
+
+    uint256 public currentSeason;
+    mapping(uint256 => Season) private seasons;
+    mapping(uint256 => address[]) private seasonPlayers;
+    mapping(uint256 => mapping(address => SeasonStats)) private seasonStats;
+    mapping(address => uint256) public playerSeason; // season the player's balances are settled for
+
+    // What an item's balance becomes when a player is settled into a new season:
+    // the item itself to carry it over, a veteran item to convert it to, 0 to expire
+    mapping(uint256 => uint256) public veteranItemOf;
     
     // Tracking last time rewards claim per player
     mapping(address => uint256) public lastTimeRewardClaim;
     uint256 public constant TIME_REWARD_COOLDOWN = 5 minutes;
     
-    // Tracking legendary sword crafting (one per variant per player)
-    mapping(address => mapping(uint256 => bool)) public hasCraftedLegendary;
+    // Crafting recipes (owner-managed registry, ids are array indexes)
+    struct Recipe {
+        uint256[] inputIds;
+        uint256[] inputAmounts;
+        uint256 goldCost;
+        uint256 outputId;
+        uint256 outputAmount;
+        uint256 maxPerPlayer; // 0 = unlimited
+        bool enabled;
+    }
+
+    Recipe[] private recipes;
+    
+    // Times each player has crafted each recipe per season (for per-player caps)
+    mapping(uint256 => mapping(address => mapping(uint256 => uint256))) private seasonCraftCount;
+
+    // Commit-reveal randomness: loot is rolled from a player seed committed
+    // beforehand and the hash of a block mined after the commit
+    enum RunKind { Dungeon, TimeReward }
+
+    struct PendingRun {
+        bytes32 commitment; // keccak256(abi.encodePacked(player, seed))
+        uint256 commitBlock;
+        uint256 dungeonId;  // dungeon entered (dungeon runs only)
+    }
+
+    uint256 public constant REVEAL_DELAY = 2;    // blocks to wait after commit
+    uint256 public constant REVEAL_WINDOW = 250; // blocks a commitment stays revealable (blockhash limit is 256)
+    mapping(address => mapping(RunKind => PendingRun)) public pendingRuns;
+
+    // Optional VRF-style randomness provider for dungeon loot. While unset,
+    // dungeon runs use commit-reveal; once set, loot is requested from the
+    // coordinator and minted when it calls back.
+    IRandomnessCoordinator public randomnessCoordinator;
+
+    struct LootRequest {
+        address player;
+        uint256 dungeonId;
+        uint256 energyCost; // refunded if the request is cancelled
+        uint256 playerResets; // the player's reset count when requested; a later reset voids it
+    }
+
+    mapping(uint256 => LootRequest) public lootRequests;
+    mapping(address => uint256) public pendingLootRequests;
+    uint256 public openLootRequests; // every player's; the coordinator can only change at 0
+    mapping(address => uint256) private playerResets;
+
+    // Dungeon tiers (owner-managed, ids are array indexes). Each run costs
+    // energyCost, drops one item picked by weight and a gold reward in range.
+    struct DungeonTier {
+        string name;
+        uint256 energyCost;
+        uint256[] lootIds;
+        uint256[] lootWeights;
+        uint256 goldMin;
+        uint256 goldMax;
+        bool enabled;
+    }
+
+    DungeonTier[] private dungeons;
+
+    // Emergency pause, set per action so one broken feature can be switched
+    // off while the rest of the game keeps running
+    enum GameAction { DungeonRuns, Crafting, TimeRewards, Transfers }
+
+    mapping(GameAction => bool) public paused;
+
+    // Optional on-chain metadata. While unset, uri() returns the hosted
+    // base URI (clients substitute {id}); once set, the renderer builds it.
+    IMetadataRenderer public metadataRenderer;
     
     // Events
     event StarterPackClaimed(address indexed player);
-    event DungeonRun(address indexed player, uint256 lootId, uint256 amount);
+    event DungeonRun(address indexed player, uint256 indexed dungeonId, uint256 lootId, uint256 amount, uint256 gold);
+    event TimeRewardClaimed(address indexed player, uint256 energy, uint256 gold);
     event ItemCrafted(address indexed player, uint256 resultId, uint256 amount);
+    event ItemDefined(uint256 indexed itemId, string name, Rarity rarity);
+    event RecipeUpdated(uint256 indexed recipeId, uint256 outputId, bool enabled);
+    event DungeonUpdated(uint256 indexed dungeonId, string name, bool enabled);
     event PlayerReset(address indexed player);
+    event RunCommitted(address indexed player, RunKind kind, uint256 commitBlock);
+    event RunExpired(address indexed player, RunKind kind);
+    event RandomnessCoordinatorUpdated(address indexed coordinator);
+    event LootRequested(address indexed player, uint256 indexed requestId);
+    event LootRequestCancelled(address indexed player, uint256 indexed requestId);
+    event MetadataRendererUpdated(address indexed renderer);
+    event PlayersRangeReset(uint256 start, uint256 end, uint256 playerCount);
+    event SeasonStarted(uint256 indexed seasonId, uint256 startedAt, uint256 endsAt);
+    event VeteranItemUpdated(uint256 indexed itemId, uint256 veteranId);
+    event Paused(GameAction indexed action, address account);
+    event Unpaused(GameAction indexed action, address account);
+
+    // Errors
+    error UnknownItem(uint256 itemId);
+    error UnknownRecipe(uint256 recipeId);
+    error UnknownDungeon(uint256 dungeonId);
+    error UnknownLootRequest(uint256 requestId);
+    error ArrayLengthMismatch();
+    error EmptyLootTable();
+    error InvalidGoldRange(uint256 goldMin, uint256 goldMax);
+    error InvalidOutputAmount();
+    error MaxSupplyBelowCurrentSupply(uint256 itemId, uint256 maxSupply, uint256 currentSupply);
+    error MaxSupplyExceeded(uint256 itemId, uint256 maxSupply);
+    error ItemSoulbound(uint256 itemId);
+    error InsufficientBalance(uint256 tokenId, uint256 have, uint256 need);
+    error StarterPackAlreadyClaimed();
+    error DungeonDisabled(uint256 dungeonId);
+    error RecipeDisabled(uint256 recipeId);
+    error CraftLimitReached(uint256 recipeId, uint256 limit);
+    error CooldownActive(uint256 readyAt);
+    error RunAlreadyPending(RunKind kind);
+    error NoPendingRun(address player, RunKind kind);
+    error RevealTooEarly(uint256 revealBlock);        // first block the run can be revealed in
+    error RevealWindowClosed(uint256 lastRevealBlock);
+    error RunNotExpired(uint256 lastRevealBlock);
+    error InvalidSeed();
+    error RandomnessCoordinatorActive();              // dungeon runs go through requestDungeonRun
+    error NoRandomnessCoordinator();
+    error NotRandomnessCoordinator(address caller);
+    error LootRequestsOpen(uint256 count);
+    error UnknownSeason(uint256 seasonId);
+    error ActionPaused(GameAction action);
     
-    constructor() ERC1155("https://game.example/api/item/{id}.json") Ownable(msg.sender) {
+    constructor() ERC1155("") {
+        // The deployer starts with every role and hands them out from there
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(MINTER_ROLE, msg.sender);
+        _grantRole(GAME_MASTER_ROLE, msg.sender);
+        _grantRole(CONFIG_ADMIN_ROLE, msg.sender);
+        _grantRole(PAUSER_ROLE, msg.sender);
+        _startSeason(0);
+
+        // Default item definitions
+        _setItem(ENERGY, "Energy", Rarity.Resource, 0, false, 0);
+        _setItem(GOLD, "Gold", Rarity.Resource, 0, false, 0);
+        _setItem(COMMON_SWORD, "Common Sword", Rarity.Common, 10, false, 0);
+        _setItem(RARE_SWORD, "Rare Sword", Rarity.Rare, 25, false, 0);
+        _setItem(EPIC_SWORD, "Epic Sword", Rarity.Epic, 50, false, 0);
+        _setItem(LEGENDARY_SWORD_1, "Legendary Sword #1", Rarity.Legendary, 100, false, 0);
+        _setItem(LEGENDARY_SWORD_2, "Legendary Sword #2", Rarity.Legendary, 110, false, 0);
+        _setItem(LEGENDARY_SWORD_3, "Legendary Sword #3", Rarity.Legendary, 120, false, 0);
+        _setItem(LEGENDARY_SWORD_4, "Legendary Sword #4", Rarity.Legendary, 130, false, 0);
+        _setItem(LEGENDARY_SWORD_5, "Legendary Sword #5", Rarity.Legendary, 140, false, 0);
+
         // Owner gets initial supply for testing
         _mint(msg.sender, ENERGY, 1000, "");
         _mint(msg.sender, GOLD, 10000, "");
         _trackPlayer(msg.sender);
+
+        // Default recipes: 3 Common -> Rare, 2 Rare -> Epic,
+        // 5 Epic + 1000 Gold -> each Legendary variant (once per player)
+        _addRecipe(_single(COMMON_SWORD), _single(3), 0, RARE_SWORD, 1, 0);
+        _addRecipe(_single(RARE_SWORD), _single(2), 0, EPIC_SWORD, 1, 0);
+        for (uint256 legendaryId = LEGENDARY_SWORD_1; legendaryId <= LEGENDARY_SWORD_5; legendaryId++) {
+            _addRecipe(_single(EPIC_SWORD), _single(5), 1000, legendaryId, 1, 1);
+        }
+
+        // Default dungeons: Common / Rare / Epic sword weights per tier
+        uint256[] memory swords = new uint256[](3);
+        swords[0] = COMMON_SWORD;
+        swords[1] = RARE_SWORD;
+        swords[2] = EPIC_SWORD;
+        _addDungeon("Catacombs", 1, swords, _weights(70, 20, 10), 20, 50);
+        _addDungeon("Crypt", 2, swords, _weights(50, 35, 15), 40, 90);
+        _addDungeon("Dragon Lair", 3, swords, _weights(30, 45, 25), 80, 150);
+    }
+
+    // Internal: revert while an action is paused
+    function _requireNotPaused(GameAction action) internal view {
+        if (paused[action]) revert ActionPaused(action);
+    }
+
+    // Internal: three-element weight array helper for dungeon setup
+    function _weights(uint256 a, uint256 b, uint256 c) internal pure returns (uint256[] memory values) {
+        values = new uint256[](3);
+        values[0] = a;
+        values[1] = b;
+        values[2] = c;
+    }
+
+    // Internal: validate and store a dungeon's cost, loot table and gold range
+    function _writeDungeon(
+        DungeonTier storage dungeon,
+        string memory name,
+        uint256 energyCost,
+        uint256[] memory lootIds,
+        uint256[] memory lootWeights,
+        uint256 goldMin,
+        uint256 goldMax
+    ) internal {
+        if (lootIds.length != lootWeights.length) revert ArrayLengthMismatch();
+        if (lootIds.length == 0) revert EmptyLootTable();
+        if (goldMax < goldMin) revert InvalidGoldRange(goldMin, goldMax);
+        
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < lootWeights.length; i++) {
+            if (!isItemDefined[lootIds[i]]) revert UnknownItem(lootIds[i]);
+            totalWeight += lootWeights[i];
+        }
+        if (totalWeight == 0) revert EmptyLootTable();
+        
+        dungeon.name = name;
+        dungeon.energyCost = energyCost;
+        dungeon.lootIds = lootIds;
+        dungeon.lootWeights = lootWeights;
+        dungeon.goldMin = goldMin;
+        dungeon.goldMax = goldMax;
+    }
+
+    // Internal: append a new enabled dungeon
+    function _addDungeon(
+        string memory name,
+        uint256 energyCost,
+        uint256[] memory lootIds,
+        uint256[] memory lootWeights,
+        uint256 goldMin,
+        uint256 goldMax
+    ) internal returns (uint256 dungeonId) {
+        dungeonId = dungeons.length;
+        DungeonTier storage dungeon = dungeons.push();
+        _writeDungeon(dungeon, name, energyCost, lootIds, lootWeights, goldMin, goldMax);
+        dungeon.enabled = true;
+        
+        emit DungeonUpdated(dungeonId, name, true);
+    }
+
+    // Internal: create or replace an item definition
+    function _setItem(
+        uint256 itemId,
+        string memory name,
+        Rarity rarity,
+        uint256 attackPower,
+        bool soulbound,
+        uint256 maxSupply
+    ) internal {
+        if (maxSupply != 0 && maxSupply < totalSupply(itemId)) {
+            revert MaxSupplyBelowCurrentSupply(itemId, maxSupply, totalSupply(itemId));
+        }
+        
+        if (!isItemDefined[itemId]) {
+            isItemDefined[itemId] = true;
+            itemIds.push(itemId);
+        }
+        items[itemId] = ItemDefinition(name, rarity, attackPower, soulbound, maxSupply);
+        
+        emit ItemDefined(itemId, name, rarity);
+    }
+
+    // Internal: announce the current metadata URI of every registered item
+    function _emitItemURIs() internal {
+        for (uint256 i = 0; i < itemIds.length; i++) {
+            emit URI(uri(itemIds[i]), itemIds[i]);
+        }
+    }
+
+    // Enforce item rules on every mint, burn and transfer
+    function _update(
+        address from,
+        address to,
+        uint256[] memory ids,
+        uint256[] memory values
+    ) internal override(ERC1155, ERC1155Supply) {
+        // Soulbound items stay with the player they were minted to, and
+        // nothing moves between accounts while transfers are paused
+        if (from != address(0) && to != address(0)) {
+            _requireNotPaused(GameAction.Transfers);
+            for (uint256 i = 0; i < ids.length; i++) {
+                if (items[ids[i]].soulbound) revert ItemSoulbound(ids[i]);
+            }
+        }
+
+        // Settle both sides into the current season before their balances move
+        if (from != address(0)) _syncSeason(from);
+        if (to != address(0)) _syncSeason(to);
+        
+        super._update(from, to, ids, values);
+        
+        if (from == address(0)) {
+            for (uint256 i = 0; i < ids.length; i++) {
+                uint256 cap = items[ids[i]].maxSupply;
+                if (cap != 0 && totalSupply(ids[i]) > cap) revert MaxSupplyExceeded(ids[i], cap);
+            }
+        }
+    }
+
+    // Internal: end the current season (if any) and start the next
+    function _startSeason(uint256 duration) internal returns (uint256 seasonId) {
+        if (currentSeason != 0) {
+            seasons[currentSeason].endedAt = block.timestamp;
+        }
+        seasonId = ++currentSeason;
+        uint256 endsAt = duration == 0 ? 0 : block.timestamp + duration;
+        seasons[seasonId] = Season(block.timestamp, endsAt, 0);
+
+        emit SeasonStarted(seasonId, block.timestamp, endsAt);
+    }
+
+    // Internal: the first time an account is touched in a new season, apply the
+    // veteran rules to the balances it held before and enter it in its standings.
+    // Every holder is settled, registered player or not, so items parked in a fresh
+    // wallet don't sit out a season start. Escrow contracts are not: what they hold
+    // is settled for its owner when it is released.
+    // Goes straight to the parent _update, so item rules do not apply to settlement.
+    function _syncSeason(address player) internal {
+        uint256 lastSeason = playerSeason[player];
+        if (lastSeason == currentSeason || hasRole(ESCROW_ROLE, player)) return;
+
+        playerSeason[player] = currentSeason;
+        seasonPlayers[currentSeason].push(player);
+        if (lastSeason == 0) return;
+
+        for (uint256 i = 0; i < itemIds.length; i++) {
+            uint256 itemId = itemIds[i];
+            uint256 veteranId = veteranItemOf[itemId];
+            uint256 balance = super.balanceOf(player, itemId);
+            if (balance == 0 || veteranId == itemId) continue;
+
+            _settleItem(player, player, itemId, balance);
+        }
+    }
+
+    // Internal: burn `amount` of an item held by `holder` and mint its veteran item, if any, to `to`
+    function _settleItem(address holder, address to, uint256 itemId, uint256 amount) internal {
+        super._update(holder, address(0), _single(itemId), _single(amount));
+        uint256 veteranId = veteranItemOf[itemId];
+        if (veteranId != 0) {
+            super._update(address(0), to, _single(veteranId), _single(amount));
+        }
+    }
+
+    // Internal: one-element array helper for recipe setup
+    function _single(uint256 value) internal pure returns (uint256[] memory values) {
+        values = new uint256[](1);
+        values[0] = value;
+    }
+
+    // Internal: validate and store a recipe at the given slot
+    function _writeRecipe(
+        Recipe storage recipe,
+        uint256[] memory inputIds,
+        uint256[] memory inputAmounts,
+        uint256 goldCost,
+        uint256 outputId,
+        uint256 outputAmount,
+        uint256 maxPerPlayer
+    ) internal {
+        if (inputIds.length != inputAmounts.length) revert ArrayLengthMismatch();
+        if (!isItemDefined[outputId]) revert UnknownItem(outputId);
+        if (outputAmount == 0) revert InvalidOutputAmount();
+        
+        recipe.inputIds = inputIds;
+        recipe.inputAmounts = inputAmounts;
+        recipe.goldCost = goldCost;
+        recipe.outputId = outputId;
+        recipe.outputAmount = outputAmount;
+        recipe.maxPerPlayer = maxPerPlayer;
+    }
+
+    // Internal: append a new enabled recipe
+    function _addRecipe(
+        uint256[] memory inputIds,
+        uint256[] memory inputAmounts,
+        uint256 goldCost,
+        uint256 outputId,
+        uint256 outputAmount,
+        uint256 maxPerPlayer
+    ) internal returns (uint256 recipeId) {
+        recipeId = recipes.length;
+        Recipe storage recipe = recipes.push();
+        _writeRecipe(recipe, inputIds, inputAmounts, goldCost, outputId, outputAmount, maxPerPlayer);
+        recipe.enabled = true;
+        
+        emit RecipeUpdated(recipeId, outputId, true);
     }
 
     // Internal: track players who interact with the game
@@ -55,6 +469,100 @@ contract DungeonToken is ERC1155, Ownable {
             isPlayer[player] = true;
             playerList.push(player);
         }
+        _syncSeason(player);
+    }
+
+    // Internal: store a commitment for the caller
+    function _commitRun(RunKind kind, bytes32 commitment, uint256 dungeonId) internal {
+        PendingRun storage run = pendingRuns[msg.sender][kind];
+        if (run.commitBlock != 0) revert RunAlreadyPending(kind);
+        
+        run.commitment = commitment;
+        run.commitBlock = block.number;
+        run.dungeonId = dungeonId;
+        
+        emit RunCommitted(msg.sender, kind, block.number);
+    }
+
+    // Internal: check the caller's seed and derive the roll from it
+    function _revealRun(RunKind kind, bytes32 seed) internal returns (uint256 randomness, uint256 dungeonId) {
+        PendingRun memory run = pendingRuns[msg.sender][kind];
+        if (run.commitBlock == 0) revert NoPendingRun(msg.sender, kind);
+        
+        uint256 targetBlock = run.commitBlock + REVEAL_DELAY;
+        if (block.number <= targetBlock) revert RevealTooEarly(targetBlock + 1);
+        if (block.number > targetBlock + REVEAL_WINDOW) revert RevealWindowClosed(targetBlock + REVEAL_WINDOW);
+        if (keccak256(abi.encodePacked(msg.sender, seed)) != run.commitment) revert InvalidSeed();
+        
+        delete pendingRuns[msg.sender][kind];
+        
+        randomness = uint256(keccak256(abi.encodePacked(seed, blockhash(targetBlock))));
+        dungeonId = run.dungeonId;
+    }
+
+    // Internal: revert unless the caller holds at least `need` of a token
+    function _requireBalance(uint256 tokenId, uint256 need) internal view {
+        uint256 have = balanceOf(msg.sender, tokenId);
+        if (have < need) revert InsufficientBalance(tokenId, have, need);
+    }
+
+    // Internal: charge the energy cost of entering a dungeon
+    function _enterDungeon(uint256 dungeonId) internal returns (uint256 energyCost) {
+        if (dungeonId >= dungeons.length) revert UnknownDungeon(dungeonId);
+        DungeonTier storage dungeon = dungeons[dungeonId];
+        if (!dungeon.enabled) revert DungeonDisabled(dungeonId);
+        energyCost = dungeon.energyCost;
+        _requireBalance(ENERGY, energyCost);
+        
+        // Burn energy up front so an unfavourable roll can't be refunded
+        _burn(msg.sender, ENERGY, energyCost);
+    }
+
+    // Internal: remove an open loot request. `live` is false when its player
+    // has been reset since, in which case it no longer counts as theirs.
+    function _closeLootRequest(uint256 requestId) internal returns (LootRequest memory request, bool live) {
+        request = lootRequests[requestId];
+        if (request.player == address(0)) revert UnknownLootRequest(requestId);
+
+        delete lootRequests[requestId];
+        openLootRequests--;
+        live = request.playerResets == playerResets[request.player];
+        if (live) pendingLootRequests[request.player]--;
+    }
+
+    // Internal: turn a random value into dungeon loot for a player
+    function _rollDungeonLoot(address player, uint256 dungeonId, uint256 randomness) internal {
+        DungeonTier storage dungeon = dungeons[dungeonId];
+        
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < dungeon.lootWeights.length; i++) {
+            totalWeight += dungeon.lootWeights[i];
+        }
+        
+        // Pick one loot entry by weight
+        uint256 roll = randomness % totalWeight;
+        uint256 lootId = dungeon.lootIds[dungeon.lootIds.length - 1];
+        for (uint256 i = 0; i < dungeon.lootWeights.length; i++) {
+            if (roll < dungeon.lootWeights[i]) {
+                lootId = dungeon.lootIds[i];
+                break;
+            }
+            roll -= dungeon.lootWeights[i];
+        }
+        uint256 lootAmount = 1;
+        
+        // Mint loot
+        _mint(player, lootId, lootAmount, "");
+        
+        // Also mint some gold as base reward (uses the bits not consumed by the loot roll)
+        uint256 goldReward = dungeon.goldMin + (randomness / totalWeight) % (dungeon.goldMax - dungeon.goldMin + 1);
+        _mint(player, GOLD, goldReward, "");
+
+        SeasonStats storage stats = seasonStats[currentSeason][player];
+        stats.dungeonRuns++;
+        stats.goldEarned += goldReward;
+        
+        emit DungeonRun(player, dungeonId, lootId, lootAmount, goldReward);
     }
 
     // Internal: burn full balance of a token if present
@@ -67,34 +575,31 @@ contract DungeonToken is ERC1155, Ownable {
 
     // Internal: reset a single player (balances + flags)
     function _resetPlayer(address player) internal {
-        _burnIfBalance(player, ENERGY);
-        _burnIfBalance(player, GOLD);
-        _burnIfBalance(player, COMMON_SWORD);
-        _burnIfBalance(player, RARE_SWORD);
-        _burnIfBalance(player, EPIC_SWORD);
-        _burnIfBalance(player, LEGENDARY_SWORD_1);
-        _burnIfBalance(player, LEGENDARY_SWORD_2);
-        _burnIfBalance(player, LEGENDARY_SWORD_3);
-        _burnIfBalance(player, LEGENDARY_SWORD_4);
-        _burnIfBalance(player, LEGENDARY_SWORD_5);
-
-        hasClaimedStarterPack[player] = false;
+        for (uint256 i = 0; i < itemIds.length; i++) {
+            _burnIfBalance(player, itemIds[i]);
+        }
+
+        starterPackSeason[player] = 0;
         lastTimeRewardClaim[player] = 0;
-        hasCraftedLegendary[player][LEGENDARY_SWORD_1] = false;
-        hasCraftedLegendary[player][LEGENDARY_SWORD_2] = false;
-        hasCraftedLegendary[player][LEGENDARY_SWORD_3] = false;
-        hasCraftedLegendary[player][LEGENDARY_SWORD_4] = false;
-        hasCraftedLegendary[player][LEGENDARY_SWORD_5] = false;
+        for (uint256 recipeId = 0; recipeId < recipes.length; recipeId++) {
+            delete seasonCraftCount[currentSeason][player][recipeId];
+        }
+        delete seasonStats[currentSeason][player];
+        delete pendingRuns[player][RunKind.Dungeon];
+        delete pendingRuns[player][RunKind.TimeReward];
+        // Open loot requests are voided: they close without loot or refund
+        playerResets[player]++;
+        delete pendingLootRequests[player];
 
         emit PlayerReset(player);
     }
     
-    // Claim starter pack (once per address)
+    // Claim starter pack (once per address and season)
     function claimStarterPack() external {
         _trackPlayer(msg.sender);
-        require(!hasClaimedStarterPack[msg.sender], "Starter pack already claimed");
+        if (hasClaimedStarterPack(msg.sender)) revert StarterPackAlreadyClaimed();
         
-        hasClaimedStarterPack[msg.sender] = true;
+        starterPackSeason[msg.sender] = currentSeason;
         
         // Mint starter items
         _mint(msg.sender, ENERGY, STARTER_PACK_ENERGY, "");
@@ -104,147 +609,373 @@ contract DungeonToken is ERC1155, Ownable {
         emit StarterPackClaimed(msg.sender);
     }
     
-    // Run dungeon - spend energy to get random loot
-    function runDungeon() external {
+    // Commit phase of a dungeon run: burn energy now, roll loot on reveal
+    function commitDungeonRun(uint256 dungeonId, bytes32 commitment) external {
+        _requireNotPaused(GameAction.DungeonRuns);
         _trackPlayer(msg.sender);
-        require(balanceOf(msg.sender, ENERGY) >= DUNGEON_ENERGY_COST, "Insufficient energy");
+        if (address(randomnessCoordinator) != address(0)) revert RandomnessCoordinatorActive();
         
-        // Burn energy
-        _burn(msg.sender, ENERGY, DUNGEON_ENERGY_COST);
-        
-        // Generate pseudo-random loot
-        uint256 random = uint256(keccak256(abi.encodePacked(block.timestamp, msg.sender, block.prevrandao))) % 100;
-        
-        uint256 lootId;
-        uint256 lootAmount;
+        _enterDungeon(dungeonId);
+        _commitRun(RunKind.Dungeon, commitment, dungeonId);
+    }
+    
+    // Reveal phase of a dungeon run - mint loot from the committed seed.
+    // Left open while dungeon runs are paused: commits are not, so only runs
+    // committed before the pause can be revealed, and they would otherwise expire.
+    function revealDungeonRun(bytes32 seed) external {
+        (uint256 randomness, uint256 dungeonId) = _revealRun(RunKind.Dungeon, seed);
+        _rollDungeonLoot(msg.sender, dungeonId, randomness);
+    }
+
+    // Dungeon run through the randomness coordinator: burn energy now,
+    // loot is minted when the coordinator fulfils the request
+    function requestDungeonRun(uint256 dungeonId) external {
+        _requireNotPaused(GameAction.DungeonRuns);
+        _trackPlayer(msg.sender);
+        if (address(randomnessCoordinator) == address(0)) revert NoRandomnessCoordinator();
         
-        if (random < 70) {
-            // 70% - Common Sword
-            lootId = COMMON_SWORD;
-            lootAmount = 1;
-        } else if (random < 90) {
-            // 20% - Rare Sword
-            lootId = RARE_SWORD;
-            lootAmount = 1;
-        } else {
-            // 10% - Epic Sword
-            lootId = EPIC_SWORD;
-            lootAmount = 1;
-        }
+        uint256 energyCost = _enterDungeon(dungeonId);
         
-        // Mint loot
-        _mint(msg.sender, lootId, lootAmount, "");
+        uint256 requestId = randomnessCoordinator.requestRandomness();
+        lootRequests[requestId] = LootRequest(msg.sender, dungeonId, energyCost, playerResets[msg.sender]);
+        pendingLootRequests[msg.sender]++;
+        openLootRequests++;
         
-        // Also mint some gold as base reward
-        uint256 goldReward = 20 + (random % 31); // 20-50 gold
-        _mint(msg.sender, GOLD, goldReward, "");
+        emit LootRequested(msg.sender, requestId);
+    }
+
+    // Coordinator callback - requests may be fulfilled in any order. Reverts
+    // while dungeon runs are paused; the request stays open for a retry.
+    function fulfillRandomness(uint256 requestId, uint256 randomness) external {
+        _requireNotPaused(GameAction.DungeonRuns);
+        if (msg.sender != address(randomnessCoordinator)) revert NotRandomnessCoordinator(msg.sender);
+        (LootRequest memory request, bool live) = _closeLootRequest(requestId);
         
-        emit DungeonRun(msg.sender, lootId, lootAmount);
+        if (live) _rollDungeonLoot(request.player, request.dungeonId, randomness);
     }
     
-    // Claim time rewards (once per 24 hours)
-    function claimTimeRewards() external {
+    // Commit phase of time rewards (cooldown starts on commit)
+    function commitTimeRewards(bytes32 commitment) external {
+        _requireNotPaused(GameAction.TimeRewards);
         _trackPlayer(msg.sender);
-        require(
-            block.timestamp >= lastTimeRewardClaim[msg.sender] + TIME_REWARD_COOLDOWN,
-            "Time reward cooldown not met"
-        );
+        uint256 readyAt = lastTimeRewardClaim[msg.sender] + TIME_REWARD_COOLDOWN;
+        if (block.timestamp < readyAt) revert CooldownActive(readyAt);
         
         lastTimeRewardClaim[msg.sender] = block.timestamp;
-        
-        // Generate pseudo-random rewards: 5-10 Gold and 1-2 Energy
-        uint256 random = uint256(keccak256(abi.encodePacked(block.timestamp, msg.sender, block.prevrandao))) % 100;
+        _commitRun(RunKind.TimeReward, commitment, 0);
+    }
+    
+    // Reveal phase of time rewards: 5-10 Gold and 1-2 Energy (open during a pause, like dungeon reveals)
+    function revealTimeRewards(bytes32 seed) external {
+        (uint256 randomness, ) = _revealRun(RunKind.TimeReward, seed);
+        uint256 random = randomness % 100;
         uint256 goldReward = 5 + (random % 6);
         uint256 energyReward = 1 + (random % 2);
         
         _mint(msg.sender, ENERGY, energyReward, "");
         _mint(msg.sender, GOLD, goldReward, "");
+        seasonStats[currentSeason][msg.sender].goldEarned += goldReward;
         
-        emit DungeonRun(msg.sender, 0, 0); // Reusing DungeonRun event for time rewards
-    }
-    
-    // Craft items - burn lower tier items to create higher tier
-    function craftItem(uint256[] memory burnIds, uint256[] memory burnAmounts, uint256 resultId) external {
-        _trackPlayer(msg.sender);
-        require(burnIds.length == burnAmounts.length, "Array length mismatch");
-        
-        // Burn required items
-        for (uint256 i = 0; i < burnIds.length; i++) {
-            _burn(msg.sender, burnIds[i], burnAmounts[i]);
-        }
-        
-        // Mint result item
-        uint256 resultAmount = 1;
-        _mint(msg.sender, resultId, resultAmount, "");
-        
-        emit ItemCrafted(msg.sender, resultId, resultAmount);
+        emit TimeRewardClaimed(msg.sender, energyReward, goldReward);
     }
-    
-    // Craft Rare Sword: 3 Common Swords -> 1 Rare Sword
-    function craftRareSword() external {
-        _trackPlayer(msg.sender);
-        require(balanceOf(msg.sender, COMMON_SWORD) >= 3, "Insufficient Common Swords");
+
+    // Clear a commitment that was never revealed in time (anyone may call).
+    // Energy and cooldown spent on commit are forfeited, so letting a bad roll
+    // expire is never better than revealing it.
+    function expireRun(address player, RunKind kind) external {
+        PendingRun storage run = pendingRuns[player][kind];
+        if (run.commitBlock == 0) revert NoPendingRun(player, kind);
+        uint256 lastRevealBlock = run.commitBlock + REVEAL_DELAY + REVEAL_WINDOW;
+        if (block.number <= lastRevealBlock) revert RunNotExpired(lastRevealBlock);
         
-        _burn(msg.sender, COMMON_SWORD, 3);
-        _mint(msg.sender, RARE_SWORD, 1, "");
+        delete pendingRuns[player][kind];
         
-        emit ItemCrafted(msg.sender, RARE_SWORD, 1);
+        emit RunExpired(player, kind);
     }
     
-    // Craft Epic Sword: 2 Rare Swords -> 1 Epic Sword
-    function craftEpicSword() external {
+    // Craft an item from a registered recipe - burn its inputs and gold cost, mint its output
+    function craftItem(uint256 recipeId) external {
+        _requireNotPaused(GameAction.Crafting);
         _trackPlayer(msg.sender);
-        require(balanceOf(msg.sender, RARE_SWORD) >= 2, "Insufficient Rare Swords");
+        if (recipeId >= recipes.length) revert UnknownRecipe(recipeId);
+        Recipe storage recipe = recipes[recipeId];
+        if (!recipe.enabled) revert RecipeDisabled(recipeId);
+        mapping(uint256 => uint256) storage crafted = seasonCraftCount[currentSeason][msg.sender];
+        if (recipe.maxPerPlayer != 0 && crafted[recipeId] >= recipe.maxPerPlayer) {
+            revert CraftLimitReached(recipeId, recipe.maxPerPlayer);
+        }
         
-        _burn(msg.sender, RARE_SWORD, 2);
-        _mint(msg.sender, EPIC_SWORD, 1, "");
+        for (uint256 i = 0; i < recipe.inputIds.length; i++) {
+            _requireBalance(recipe.inputIds[i], recipe.inputAmounts[i]);
+        }
+        _requireBalance(GOLD, recipe.goldCost);
         
-        emit ItemCrafted(msg.sender, EPIC_SWORD, 1);
-    }
-    
-    // Craft Legendary Sword: 5 Epic Swords + 1000 Gold -> 1 Legendary Sword (limit 1 per variant per player)
-    function craftLegendarySword(uint256 legendaryId) external {
-        _trackPlayer(msg.sender);
-        require(legendaryId >= LEGENDARY_SWORD_1 && legendaryId <= LEGENDARY_SWORD_5, "Invalid legendary ID");
-        require(!hasCraftedLegendary[msg.sender][legendaryId], "Already crafted this legendary variant");
-        require(balanceOf(msg.sender, EPIC_SWORD) >= 5, "Insufficient Epic Swords");
-        require(balanceOf(msg.sender, GOLD) >= 1000, "Insufficient Gold");
+        crafted[recipeId]++;
         
-        hasCraftedLegendary[msg.sender][legendaryId] = true;
+        // Burn required items
+        for (uint256 i = 0; i < recipe.inputIds.length; i++) {
+            _burn(msg.sender, recipe.inputIds[i], recipe.inputAmounts[i]);
+        }
+        if (recipe.goldCost > 0) {
+            _burn(msg.sender, GOLD, recipe.goldCost);
+        }
         
-        _burn(msg.sender, EPIC_SWORD, 5);
-        _burn(msg.sender, GOLD, 1000);
-        _mint(msg.sender, legendaryId, 1, "");
+        // Mint result item
+        _mint(msg.sender, recipe.outputId, recipe.outputAmount, "");
+
+        SeasonStats storage stats = seasonStats[currentSeason][msg.sender];
+        stats.itemsCrafted++;
+        if (items[recipe.outputId].rarity == Rarity.Legendary) {
+            stats.legendariesCrafted++;
+        }
         
-        emit ItemCrafted(msg.sender, legendaryId, 1);
+        emit ItemCrafted(msg.sender, recipe.outputId, recipe.outputAmount);
     }
     
     // Admin functions
-    function mintEnergy(address to, uint256 amount) external onlyOwner {
+    // Switch dungeon loot to a randomness coordinator (address(0) restores commit-reveal).
+    // Only once every loot request is closed, so none is stranded on the previous one.
+    function setRandomnessCoordinator(address coordinator) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (openLootRequests != 0) revert LootRequestsOpen(openLootRequests);
+        randomnessCoordinator = IRandomnessCoordinator(coordinator);
+        emit RandomnessCoordinatorUpdated(coordinator);
+    }
+
+    // Admin: close a loot request the coordinator will not fulfil and refund its Energy
+    function cancelLootRequest(uint256 requestId) external onlyRole(CONFIG_ADMIN_ROLE) {
+        (LootRequest memory request, bool live) = _closeLootRequest(requestId);
+        if (live) _mint(request.player, ENERGY, request.energyCost, "");
+
+        emit LootRequestCancelled(request.player, requestId);
+    }
+
+    function mintEnergy(address to, uint256 amount) external onlyRole(MINTER_ROLE) {
         _trackPlayer(to);
         _mint(to, ENERGY, amount, "");
     }
     
-    function mintGold(address to, uint256 amount) external onlyOwner {
+    function mintGold(address to, uint256 amount) external onlyRole(MINTER_ROLE) {
         _trackPlayer(to);
         _mint(to, GOLD, amount, "");
     }
 
+    // Admin: item registry
+    function setItem(
+        uint256 itemId,
+        string calldata name,
+        Rarity rarity,
+        uint256 attackPower,
+        bool soulbound,
+        uint256 maxSupply
+    ) external onlyRole(CONFIG_ADMIN_ROLE) {
+        _setItem(itemId, name, rarity, attackPower, soulbound, maxSupply);
+        emit URI(uri(itemId), itemId);
+    }
+
+    // Admin: what an item becomes at the end of a season (see veteranItemOf).
+    // Veteran items themselves always carry over.
+    function setVeteranItem(uint256 itemId, uint256 veteranId) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (!isItemDefined[itemId]) revert UnknownItem(itemId);
+        if (veteranId != 0) {
+            if (!isItemDefined[veteranId]) revert UnknownItem(veteranId);
+            veteranItemOf[veteranId] = veteranId;
+        }
+        veteranItemOf[itemId] = veteranId;
+
+        emit VeteranItemUpdated(itemId, veteranId);
+    }
+
+    // Escrow: release items held since an earlier season to `to`, settled the way the
+    // season start settled their owner: each carries over, becomes its veteran item or expires
+    function settleEscrowed(address to, uint256[] calldata ids, uint256[] calldata amounts) external onlyRole(ESCROW_ROLE) {
+        for (uint256 i = 0; i < ids.length; i++) {
+            _settleItem(msg.sender, to, ids[i], amounts[i]);
+        }
+    }
+
+    // Admin: end the current season and start the next, `duration` seconds long
+    // (0 for open-ended). Every player starts the new season afresh.
+    function startSeason(uint256 duration) external onlyRole(GAME_MASTER_ROLE) returns (uint256) {
+        return _startSeason(duration);
+    }
+
+    // Admin: metadata location. The base URI should contain the {id}
+    // placeholder, e.g. "https://example.com/metadata/{id}.json".
+    function setBaseURI(string calldata newBaseURI) external onlyRole(CONFIG_ADMIN_ROLE) {
+        _setURI(newBaseURI);
+        _emitItemURIs();
+    }
+
+    // Serve metadata from an on-chain renderer (address(0) restores the base URI)
+    function setMetadataRenderer(address renderer) external onlyRole(CONFIG_ADMIN_ROLE) {
+        metadataRenderer = IMetadataRenderer(renderer);
+        emit MetadataRendererUpdated(renderer);
+        _emitItemURIs();
+    }
+
+    // Admin: recipe registry
+    function addRecipe(
+        uint256[] calldata inputIds,
+        uint256[] calldata inputAmounts,
+        uint256 goldCost,
+        uint256 outputId,
+        uint256 outputAmount,
+        uint256 maxPerPlayer
+    ) external onlyRole(CONFIG_ADMIN_ROLE) returns (uint256) {
+        return _addRecipe(inputIds, inputAmounts, goldCost, outputId, outputAmount, maxPerPlayer);
+    }
+
+    function updateRecipe(
+        uint256 recipeId,
+        uint256[] calldata inputIds,
+        uint256[] calldata inputAmounts,
+        uint256 goldCost,
+        uint256 outputId,
+        uint256 outputAmount,
+        uint256 maxPerPlayer
+    ) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (recipeId >= recipes.length) revert UnknownRecipe(recipeId);
+        Recipe storage recipe = recipes[recipeId];
+        _writeRecipe(recipe, inputIds, inputAmounts, goldCost, outputId, outputAmount, maxPerPlayer);
+        
+        emit RecipeUpdated(recipeId, outputId, recipe.enabled);
+    }
+
+    function setRecipeEnabled(uint256 recipeId, bool enabled) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (recipeId >= recipes.length) revert UnknownRecipe(recipeId);
+        recipes[recipeId].enabled = enabled;
+        
+        emit RecipeUpdated(recipeId, recipes[recipeId].outputId, enabled);
+    }
+
+    // Admin: dungeon tiers and loot tables
+    function addDungeon(
+        string calldata name,
+        uint256 energyCost,
+        uint256[] calldata lootIds,
+        uint256[] calldata lootWeights,
+        uint256 goldMin,
+        uint256 goldMax
+    ) external onlyRole(CONFIG_ADMIN_ROLE) returns (uint256) {
+        return _addDungeon(name, energyCost, lootIds, lootWeights, goldMin, goldMax);
+    }
+
+    function updateDungeon(
+        uint256 dungeonId,
+        string calldata name,
+        uint256 energyCost,
+        uint256[] calldata lootIds,
+        uint256[] calldata lootWeights,
+        uint256 goldMin,
+        uint256 goldMax
+    ) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (dungeonId >= dungeons.length) revert UnknownDungeon(dungeonId);
+        DungeonTier storage dungeon = dungeons[dungeonId];
+        _writeDungeon(dungeon, name, energyCost, lootIds, lootWeights, goldMin, goldMax);
+        
+        emit DungeonUpdated(dungeonId, name, dungeon.enabled);
+    }
+
+    function setDungeonEnabled(uint256 dungeonId, bool enabled) external onlyRole(CONFIG_ADMIN_ROLE) {
+        if (dungeonId >= dungeons.length) revert UnknownDungeon(dungeonId);
+        dungeons[dungeonId].enabled = enabled;
+        
+        emit DungeonUpdated(dungeonId, dungeons[dungeonId].name, enabled);
+    }
+
+    // Pauser: switch an action off or back on. New commits and coordinator
+    // loot wait for the resume; runs committed before the pause can still be revealed.
+    function setPaused(GameAction action, bool isPaused) external onlyRole(PAUSER_ROLE) {
+        paused[action] = isPaused;
+        if (isPaused) {
+            emit Paused(action, msg.sender);
+        } else {
+            emit Unpaused(action, msg.sender);
+        }
+    }
+
     // Admin: reset players (demo use only)
-    function resetPlayer(address player) external onlyOwner {
+    function resetPlayer(address player) external onlyRole(GAME_MASTER_ROLE) {
         _resetPlayer(player);
     }
 
-    function resetPlayers(address[] calldata players) external onlyOwner {
+    function resetPlayers(address[] calldata players) external onlyRole(GAME_MASTER_ROLE) {
         for (uint256 i = 0; i < players.length; i++) {
             _resetPlayer(players[i]);
         }
     }
 
-    function resetAllPlayers() external onlyOwner {
-        for (uint256 i = 0; i < playerList.length; i++) {
+    // Reset playerList[start, start + count), clamped to the list, so any number
+    // of players can be reset over several gas-bounded transactions. resetCursor
+    // records where the pass got to and goes back to 0 once it reaches the end.
+    // A range from 0 starts a new pass; other ranges off the cursor leave it alone.
+    function resetPlayersRange(uint256 start, uint256 count) external onlyRole(GAME_MASTER_ROLE) returns (uint256 next) {
+        uint256 playerCount = playerList.length;
+        uint256 end = start;
+        if (start < playerCount) {
+            end += count < playerCount - start ? count : playerCount - start;
+        }
+        for (uint256 i = start; i < end; i++) {
             _resetPlayer(playerList[i]);
         }
+
+        next = end < playerCount ? end : 0;
+        if (start == 0 || start == resetCursor) resetCursor = next;
+        emit PlayersRangeReset(start, end, playerCount);
+    }
+
+    // Season views: current and archived seasons, their players and stats
+    function getSeason(uint256 seasonId) public view returns (Season memory) {
+        if (seasonId == 0 || seasonId > currentSeason) revert UnknownSeason(seasonId);
+        return seasons[seasonId];
+    }
+
+    function getSeasonPlayerCount(uint256 seasonId) external view returns (uint256) {
+        getSeason(seasonId);
+        return seasonPlayers[seasonId].length;
+    }
+
+    // Players of a season from `start` (at most `count`) with their stats
+    function getSeasonStandings(uint256 seasonId, uint256 start, uint256 count) external view returns (
+        address[] memory players,
+        SeasonStats[] memory stats
+    ) {
+        getSeason(seasonId);
+        address[] storage all = seasonPlayers[seasonId];
+        uint256 end = start + count < all.length ? start + count : all.length;
+        uint256 length = start < end ? end - start : 0;
+
+        players = new address[](length);
+        stats = new SeasonStats[](length);
+        for (uint256 i = 0; i < length; i++) {
+            players[i] = all[start + i];
+            stats[i] = seasonStats[seasonId][players[i]];
+        }
+    }
+
+    // Whether the player has claimed this season's starter pack
+    function hasClaimedStarterPack(address player) public view returns (bool) {
+        return starterPackSeason[player] == currentSeason;
+    }
+
+    // Times the player has crafted a recipe this season
+    function craftCount(address player, uint256 recipeId) external view returns (uint256) {
+        return seasonCraftCount[currentSeason][player][recipeId];
+    }
+
+    // Balances as of the current season: a player not yet settled into it sees
+    // what settlement will leave them (expired items gone, veteran items added)
+    function balanceOf(address account, uint256 id) public view override returns (uint256 balance) {
+        balance = super.balanceOf(account, id);
+        uint256 lastSeason = playerSeason[account];
+        if (lastSeason == 0 || lastSeason == currentSeason) return balance;
+
+        if (veteranItemOf[id] != id) balance = 0;
+        for (uint256 i = 0; i < itemIds.length; i++) {
+            if (itemIds[i] != id && veteranItemOf[itemIds[i]] == id) {
+                balance += super.balanceOf(account, itemIds[i]);
+            }
+        }
     }
 
     // Player registry helpers
@@ -256,18 +987,69 @@ contract DungeonToken is ERC1155, Ownable {
         return playerList[index];
     }
     
-    // Get player's full inventory
+    // Item registry views
+    function getItemCount() external view returns (uint256) {
+        return itemIds.length;
+    }
+
+    function getItemIdAt(uint256 index) external view returns (uint256) {
+        return itemIds[index];
+    }
+
+    function getItem(uint256 itemId) external view returns (ItemDefinition memory) {
+        if (!isItemDefined[itemId]) revert UnknownItem(itemId);
+        return items[itemId];
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view override(ERC1155, AccessControl) returns (bool) {
+        return super.supportsInterface(interfaceId);
+    }
+
+    // ERC-1155 metadata URI: on-chain data URI when a renderer is set, otherwise the base URI
+    function uri(uint256 id) public view override returns (string memory) {
+        if (address(metadataRenderer) != address(0)) {
+            return metadataRenderer.uri(id);
+        }
+        return super.uri(id);
+    }
+
+    // Dungeon tier views
+    function getDungeonCount() external view returns (uint256) {
+        return dungeons.length;
+    }
+
+    function getDungeon(uint256 dungeonId) external view returns (DungeonTier memory) {
+        if (dungeonId >= dungeons.length) revert UnknownDungeon(dungeonId);
+        return dungeons[dungeonId];
+    }
+
+    // Recipe registry views
+    function getRecipeCount() external view returns (uint256) {
+        return recipes.length;
+    }
+
+    function getRecipe(uint256 recipeId) external view returns (Recipe memory) {
+        if (recipeId >= recipes.length) revert UnknownRecipe(recipeId);
+        return recipes[recipeId];
+    }
+    
+    // Get player's full inventory in one call: the balance of every registered
+    // item (ids in registry order) and how often each recipe was crafted, which
+    // tells the client which once-per-player legendaries are already taken
     function getInventory(address player) external view returns (
-        uint256 energy,
-        uint256 gold,
-        uint256 commonSword,
-        uint256 rareSword,
-        uint256 epicSword
+        uint256[] memory ids,
+        uint256[] memory balances,
+        uint256[] memory craftCounts
     ) {
-        energy = balanceOf(player, ENERGY);
-        gold = balanceOf(player, GOLD);
-        commonSword = balanceOf(player, COMMON_SWORD);
-        rareSword = balanceOf(player, RARE_SWORD);
-        epicSword = balanceOf(player, EPIC_SWORD);
+        ids = itemIds;
+        balances = new uint256[](ids.length);
+        for (uint256 i = 0; i < ids.length; i++) {
+            balances[i] = balanceOf(player, ids[i]);
+        }
+
+        craftCounts = new uint256[](recipes.length);
+        for (uint256 i = 0; i < recipes.length; i++) {
+            craftCounts[i] = seasonCraftCount[currentSeason][player][i];
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/utils/Base64.sol";
+import "@openzeppelin/contracts/utils/Strings.sol";
+import "./DungeonToken.sol";
+import "./interfaces/IMetadataRenderer.sol";
+
+// Fully on-chain ERC-1155 metadata for DungeonToken items. Reads the item
+// registry and returns a base64 JSON data URI with an embedded SVG image,
+// so items render in wallets without any hosting.
+contract ItemMetadataRenderer is IMetadataRenderer {
+    using Strings for uint256;
+
+    DungeonToken public immutable token;
+
+    constructor(DungeonToken token_) {
+        token = token_;
+    }
+
+    function uri(uint256 id) external view returns (string memory) {
+        DungeonToken.ItemDefinition memory item = token.getItem(id);
+        string memory name = _escape(item.name);
+        string memory rarity = _rarityName(item.rarity);
+
+        bytes memory json = abi.encodePacked(
+            '{"name":"', name,
+            '","description":"', rarity, ' item from Dungeon Game.',
+            '","image":"data:image/svg+xml;base64,', Base64.encode(_image(name, rarity, item)),
+            '","attributes":', _attributes(rarity, item),
+            "}"
+        );
+        return string(abi.encodePacked("data:application/json;base64,", Base64.encode(json)));
+    }
+
+    function _attributes(string memory rarity, DungeonToken.ItemDefinition memory item)
+        internal
+        pure
+        returns (bytes memory)
+    {
+        bytes memory attributes = abi.encodePacked(
+            '[{"trait_type":"Rarity","value":"', rarity,
+            '"},{"trait_type":"Attack Power","display_type":"number","value":', item.attackPower.toString(),
+            '},{"trait_type":"Soulbound","value":"', item.soulbound ? "Yes" : "No", '"}'
+        );
+        if (item.maxSupply > 0) {
+            attributes = abi.encodePacked(
+                attributes,
+                ',{"trait_type":"Max Supply","display_type":"number","value":', item.maxSupply.toString(), "}"
+            );
+        }
+        return abi.encodePacked(attributes, "]");
+    }
+
+    function _image(string memory name, string memory rarity, DungeonToken.ItemDefinition memory item)
+        internal
+        pure
+        returns (bytes memory)
+    {
+        string memory color = _rarityColor(item.rarity);
+        bytes memory svg = abi.encodePacked(
+            '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 350 350">',
+            '<rect width="350" height="350" rx="24" fill="#1a1a2e"/>',
+            '<rect x="12" y="12" width="326" height="326" rx="18" fill="none" stroke="', color, '" stroke-width="6"/>'
+        );
+        svg = abi.encodePacked(
+            svg,
+            '<text x="175" y="160" fill="#ffffff" font-family="sans-serif" font-size="24" text-anchor="middle">', name, "</text>",
+            '<text x="175" y="200" fill="', color, '" font-family="sans-serif" font-size="18" text-anchor="middle">', rarity, "</text>"
+        );
+        if (item.attackPower > 0) {
+            svg = abi.encodePacked(
+                svg,
+                '<text x="175" y="240" fill="#cccccc" font-family="sans-serif" font-size="16" text-anchor="middle">Attack ',
+                item.attackPower.toString(),
+                "</text>"
+            );
+        }
+        return abi.encodePacked(svg, "</svg>");
+    }
+
+    function _rarityName(DungeonToken.Rarity rarity) internal pure returns (string memory) {
+        if (rarity == DungeonToken.Rarity.Common) return "Common";
+        if (rarity == DungeonToken.Rarity.Rare) return "Rare";
+        if (rarity == DungeonToken.Rarity.Epic) return "Epic";
+        if (rarity == DungeonToken.Rarity.Legendary) return "Legendary";
+        return "Resource";
+    }
+
+    function _rarityColor(DungeonToken.Rarity rarity) internal pure returns (string memory) {
+        if (rarity == DungeonToken.Rarity.Common) return "#9e9e9e";
+        if (rarity == DungeonToken.Rarity.Rare) return "#5e81f4";
+        if (rarity == DungeonToken.Rarity.Epic) return "#a335ee";
+        if (rarity == DungeonToken.Rarity.Legendary) return "#ff8000";
+        return "#4caf50";
+    }
+
+    // Item names are owner-supplied; drop characters that would break the
+    // JSON string or the SVG markup they are embedded in
+    function _escape(string memory value) internal pure returns (string memory) {
+        bytes memory input = bytes(value);
+        bytes memory output = new bytes(input.length);
+        uint256 length = 0;
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (char != '"' && char != "\\" && char != "<" && char != ">" && char != "&" && uint8(char) >= 0x20) {
+                output[length++] = char;
+            }
+        }
+        assembly {
+            mstore(output, length)
+        }
+        return string(output);
+    }
+}
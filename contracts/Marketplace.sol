@@ -0,0 +1,146 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./DungeonToken.sol";
+
+// Fixed-price marketplace for DungeonToken items, priced in Gold. Listed
+// items are escrowed here; buyers may take any quantity up to what remains.
+// An optional owner-set fee is taken from the Gold paid and either sent to
+// the treasury or, when no treasury is set, burned. A listing made before the
+// current season started can't be bought from; cancelling it returns the items
+// as the season start settled the seller's own: carried over, converted to their
+// veteran item or burned.
+// Sellers and buyers must setApprovalForAll(this contract) on the token first.
+contract Marketplace is ERC1155Holder, ReentrancyGuard, Ownable {
+    uint256 public constant MAX_FEE_BPS = 1000; // 10%
+    uint256 private constant BPS_DENOMINATOR = 10000;
+
+    struct Listing {
+        address seller;
+        uint256 itemId;
+        uint256 remaining;    // quantity still for sale (escrowed)
+        uint256 pricePerUnit; // in Gold
+        bool active;
+        uint256 season;       // token season the items were escrowed in
+    }
+
+    DungeonToken public immutable token;
+    uint256 public immutable gold;
+
+    // Listings (ids are array indexes)
+    Listing[] private listings;
+
+    // Fee settings: feeBps of each sale, sent to treasury or burned if unset
+    uint256 public feeBps;
+    address public treasury;
+
+    // Events
+    event ItemListed(uint256 indexed listingId, address indexed seller, uint256 indexed itemId, uint256 amount, uint256 pricePerUnit);
+    event ItemSold(uint256 indexed listingId, address indexed buyer, uint256 amount, uint256 totalPrice, uint256 fee);
+    event ListingCancelled(uint256 indexed listingId);
+    event FeeUpdated(uint256 feeBps, address indexed treasury);
+
+    // Errors
+    error UnknownListing(uint256 listingId);
+    error ListingNotActive(uint256 listingId);
+    error NotListingSeller(uint256 listingId);
+    error CannotBuyOwnListing(uint256 listingId);
+    error CannotListGold();
+    error InvalidAmount(uint256 amount);
+    error InvalidPrice();
+    error FeeTooHigh(uint256 feeBps, uint256 maxFeeBps);
+    error ListingFromPastSeason(uint256 listingId, uint256 season);
+
+    constructor(DungeonToken token_) Ownable(msg.sender) {
+        token = token_;
+        gold = token_.GOLD();
+    }
+
+    function createListing(uint256 itemId, uint256 amount, uint256 pricePerUnit) external nonReentrant returns (uint256 listingId) {
+        if (itemId == gold) revert CannotListGold();
+        if (amount == 0) revert InvalidAmount(amount);
+        if (pricePerUnit == 0) revert InvalidPrice();
+
+        listingId = listings.length;
+        listings.push(Listing(msg.sender, itemId, amount, pricePerUnit, true, token.currentSeason()));
+        token.safeTransferFrom(msg.sender, address(this), itemId, amount, "");
+
+        emit ItemListed(listingId, msg.sender, itemId, amount, pricePerUnit);
+    }
+
+    // Buy part or all of a listing. The seller receives the price minus the fee.
+    function buy(uint256 listingId, uint256 amount) external nonReentrant {
+        if (listingId >= listings.length) revert UnknownListing(listingId);
+        Listing storage listing = listings[listingId];
+        if (!listing.active) revert ListingNotActive(listingId);
+        if (amount == 0 || amount > listing.remaining) revert InvalidAmount(amount);
+        if (msg.sender == listing.seller) revert CannotBuyOwnListing(listingId);
+        if (listing.season != token.currentSeason()) revert ListingFromPastSeason(listingId, listing.season);
+
+        listing.remaining -= amount;
+        if (listing.remaining == 0) {
+            listing.active = false;
+        }
+
+        uint256 totalPrice = amount * listing.pricePerUnit;
+        uint256 fee = (totalPrice * feeBps) / BPS_DENOMINATOR;
+
+        token.safeTransferFrom(msg.sender, listing.seller, gold, totalPrice - fee, "");
+        if (fee > 0) {
+            if (treasury != address(0)) {
+                token.safeTransferFrom(msg.sender, treasury, gold, fee, "");
+            } else {
+                token.safeTransferFrom(msg.sender, address(this), gold, fee, "");
+                token.burn(address(this), gold, fee);
+            }
+        }
+        token.safeTransferFrom(address(this), msg.sender, listing.itemId, amount, "");
+
+        emit ItemSold(listingId, msg.sender, amount, totalPrice, fee);
+    }
+
+    function cancelListing(uint256 listingId) external nonReentrant {
+        if (listingId >= listings.length) revert UnknownListing(listingId);
+        Listing storage listing = listings[listingId];
+        if (!listing.active) revert ListingNotActive(listingId);
+        if (msg.sender != listing.seller) revert NotListingSeller(listingId);
+
+        uint256 remaining = listing.remaining;
+        listing.remaining = 0;
+        listing.active = false;
+        // Held over from an earlier season, the token settles the items as it would have in the seller's hands
+        if (listing.season != token.currentSeason()) {
+            uint256[] memory ids = new uint256[](1);
+            uint256[] memory amounts = new uint256[](1);
+            ids[0] = listing.itemId;
+            amounts[0] = remaining;
+            token.settleEscrowed(listing.seller, ids, amounts);
+        } else {
+            token.safeTransferFrom(address(this), listing.seller, listing.itemId, remaining, "");
+        }
+
+        emit ListingCancelled(listingId);
+    }
+
+    // Admin: sale fee in basis points; address(0) treasury burns the fee
+    function setFee(uint256 newFeeBps, address newTreasury) external onlyOwner {
+        if (newFeeBps > MAX_FEE_BPS) revert FeeTooHigh(newFeeBps, MAX_FEE_BPS);
+        feeBps = newFeeBps;
+        treasury = newTreasury;
+
+        emit FeeUpdated(newFeeBps, newTreasury);
+    }
+
+    // Views
+    function getListingCount() external view returns (uint256) {
+        return listings.length;
+    }
+
+    function getListing(uint256 listingId) external view returns (Listing memory) {
+        if (listingId >= listings.length) revert UnknownListing(listingId);
+        return listings[listingId];
+    }
+}
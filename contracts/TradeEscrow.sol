@@ -0,0 +1,186 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/token/ERC1155/utils/ERC1155Holder.sol";
+import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "./DungeonToken.sol";
+
+// Peer-to-peer bundle-for-bundle trades of DungeonToken items (Gold included).
+// The maker's bundle is escrowed here when the offer is made; the named taker
+// can accept (both bundles swap atomically), decline or counter, and either
+// side can cancel. Unfilled offers always return the bundle to the maker.
+// An offer made before the current season started can't be accepted, and
+// closing it settles the bundle the way the season start settled its maker.
+// Both players must setApprovalForAll(this contract) on the token first.
+contract TradeEscrow is ERC1155Holder, ReentrancyGuard {
+    enum OfferStatus { Open, Accepted, Declined, Cancelled, Countered }
+
+    struct Bundle {
+        uint256[] ids;
+        uint256[] amounts;
+    }
+
+    struct Offer {
+        address maker;
+        address taker;
+        Bundle give;       // escrowed from the maker
+        Bundle want;       // paid by the taker on accept
+        OfferStatus status;
+        uint256 counterTo; // offer this one answers (0 = none)
+        uint256 season;    // token season the bundle was escrowed in
+    }
+
+    DungeonToken public immutable token;
+
+    // Offer ids start at 1 so 0 can mean "no offer"
+    uint256 public nextOfferId = 1;
+    mapping(uint256 => Offer) private offers;
+    mapping(address => uint256[]) private outgoingOffers;
+    mapping(address => uint256[]) private incomingOffers;
+
+    // Events
+    event OfferCreated(uint256 indexed offerId, address indexed maker, address indexed taker, uint256 counterTo);
+    event OfferAccepted(uint256 indexed offerId, address indexed taker);
+    event OfferDeclined(uint256 indexed offerId, address indexed taker);
+    event OfferCancelled(uint256 indexed offerId, address indexed by);
+    event OfferCountered(uint256 indexed offerId, uint256 indexed counterOfferId);
+
+    // Errors
+    error UnknownOffer(uint256 offerId);
+    error OfferNotOpen(uint256 offerId, OfferStatus status);
+    error NotOfferTaker(uint256 offerId);
+    error NotOfferParty(uint256 offerId);
+    error InvalidTaker(address taker);
+    error ArrayLengthMismatch();
+    error EmptyOffer();
+    error OfferFromPastSeason(uint256 offerId, uint256 season);
+
+    constructor(DungeonToken token_) {
+        token = token_;
+    }
+
+    // Propose giving one bundle in exchange for another
+    function createOffer(
+        address taker,
+        Bundle calldata give,
+        Bundle calldata want
+    ) external nonReentrant returns (uint256) {
+        return _createOffer(taker, give, want, 0);
+    }
+
+    // Taker: swap bundles. The taker's bundle goes straight to the maker,
+    // the escrowed bundle goes to the taker.
+    function acceptOffer(uint256 offerId) external nonReentrant {
+        Offer storage offer = _openOffer(offerId);
+        if (msg.sender != offer.taker) revert NotOfferTaker(offerId);
+        if (offer.season != token.currentSeason()) revert OfferFromPastSeason(offerId, offer.season);
+
+        offer.status = OfferStatus.Accepted;
+        if (offer.want.ids.length > 0) {
+            token.safeBatchTransferFrom(msg.sender, offer.maker, offer.want.ids, offer.want.amounts, "");
+        }
+        _release(offer, msg.sender);
+
+        emit OfferAccepted(offerId, msg.sender);
+    }
+
+    function declineOffer(uint256 offerId) external nonReentrant {
+        Offer storage offer = _openOffer(offerId);
+        if (msg.sender != offer.taker) revert NotOfferTaker(offerId);
+
+        offer.status = OfferStatus.Declined;
+        _release(offer, offer.maker);
+
+        emit OfferDeclined(offerId, msg.sender);
+    }
+
+    function cancelOffer(uint256 offerId) external nonReentrant {
+        Offer storage offer = _openOffer(offerId);
+        if (msg.sender != offer.maker && msg.sender != offer.taker) revert NotOfferParty(offerId);
+
+        offer.status = OfferStatus.Cancelled;
+        _release(offer, offer.maker);
+
+        emit OfferCancelled(offerId, msg.sender);
+    }
+
+    // Taker: close the offer (returning the maker's bundle) and propose
+    // different terms back to the maker in one step
+    function counterOffer(
+        uint256 offerId,
+        Bundle calldata give,
+        Bundle calldata want
+    ) external nonReentrant returns (uint256 counterOfferId) {
+        Offer storage offer = _openOffer(offerId);
+        if (msg.sender != offer.taker) revert NotOfferTaker(offerId);
+
+        offer.status = OfferStatus.Countered;
+        _release(offer, offer.maker);
+
+        counterOfferId = _createOffer(offer.maker, give, want, offerId);
+        emit OfferCountered(offerId, counterOfferId);
+    }
+
+    // Internal: escrow the caller's bundle and record the offer
+    function _createOffer(
+        address taker,
+        Bundle calldata give,
+        Bundle calldata want,
+        uint256 counterTo
+    ) internal returns (uint256 offerId) {
+        if (taker == address(0) || taker == msg.sender) revert InvalidTaker(taker);
+        if (give.ids.length != give.amounts.length || want.ids.length != want.amounts.length) revert ArrayLengthMismatch();
+        if (give.ids.length == 0 && want.ids.length == 0) revert EmptyOffer();
+
+        offerId = nextOfferId++;
+        Offer storage offer = offers[offerId];
+        offer.maker = msg.sender;
+        offer.taker = taker;
+        offer.give = give;
+        offer.want = want;
+        offer.counterTo = counterTo;
+        offer.season = token.currentSeason();
+
+        outgoingOffers[msg.sender].push(offerId);
+        incomingOffers[taker].push(offerId);
+
+        if (give.ids.length > 0) {
+            token.safeBatchTransferFrom(msg.sender, address(this), give.ids, give.amounts, "");
+        }
+
+        emit OfferCreated(offerId, msg.sender, taker, counterTo);
+    }
+
+    // Internal: load an offer that can still be acted on
+    function _openOffer(uint256 offerId) internal view returns (Offer storage offer) {
+        offer = offers[offerId];
+        if (offer.maker == address(0)) revert UnknownOffer(offerId);
+        if (offer.status != OfferStatus.Open) revert OfferNotOpen(offerId, offer.status);
+    }
+
+    // Internal: send the escrowed bundle out. Held over from an earlier season,
+    // the token settles it for `to` as it would have in the maker's hands
+    function _release(Offer storage offer, address to) internal {
+        if (offer.give.ids.length == 0) return;
+
+        if (offer.season != token.currentSeason()) {
+            token.settleEscrowed(to, offer.give.ids, offer.give.amounts);
+        } else {
+            token.safeBatchTransferFrom(address(this), to, offer.give.ids, offer.give.amounts, "");
+        }
+    }
+
+    // Views
+    function getOffer(uint256 offerId) external view returns (Offer memory) {
+        if (offers[offerId].maker == address(0)) revert UnknownOffer(offerId);
+        return offers[offerId];
+    }
+
+    function getOutgoingOffers(address player) external view returns (uint256[] memory) {
+        return outgoingOffers[player];
+    }
+
+    function getIncomingOffers(address player) external view returns (uint256[] memory) {
+        return incomingOffers[player];
+    }
+}
@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+// Builds the ERC-1155 metadata URI for a token ID, so metadata can be
+// generated on-chain instead of served from a hosted base URI
+interface IMetadataRenderer {
+    function uri(uint256 id) external view returns (string memory);
+}
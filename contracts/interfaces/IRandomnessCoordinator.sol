@@ -0,0 +1,12 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+// VRF-style randomness provider: consumers request a random word and receive it
+// later through IRandomnessConsumer.fulfillRandomness
+interface IRandomnessCoordinator {
+    function requestRandomness() external returns (uint256 requestId);
+}
+
+interface IRandomnessConsumer {
+    function fulfillRandomness(uint256 requestId, uint256 randomness) external;
+}
@@ -0,0 +1,53 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "../interfaces/IRandomnessCoordinator.sol";
+
+// Local stand-in for a VRF coordinator (Hardhat network only).
+// Requests stay open until someone fulfils them, in any order and with any
+// value, so tests can drive fulfilment, out-of-order and failed callbacks.
+contract MockVRFCoordinator is IRandomnessCoordinator {
+    uint256 public nextRequestId = 1;
+    
+    // Consumer waiting on each open request (cleared once fulfilled)
+    mapping(uint256 => address) public requestConsumer;
+    
+    // Events
+    event RandomnessRequested(uint256 indexed requestId, address indexed consumer);
+    event RandomnessFulfilled(uint256 indexed requestId, uint256 randomness, bool success);
+    
+    // Errors
+    error UnknownRequest(uint256 requestId);
+    
+    function requestRandomness() external returns (uint256 requestId) {
+        requestId = nextRequestId++;
+        requestConsumer[requestId] = msg.sender;
+        
+        emit RandomnessRequested(requestId, msg.sender);
+    }
+    
+    // Deliver a chosen value. A reverting callback is reported through the
+    // event and leaves the request open so it can be retried.
+    function fulfillRequest(uint256 requestId, uint256 randomness) public returns (bool success) {
+        address consumer = requestConsumer[requestId];
+        if (consumer == address(0)) revert UnknownRequest(requestId);
+        
+        (success, ) = consumer.call(
+            abi.encodeWithSelector(IRandomnessConsumer.fulfillRandomness.selector, requestId, randomness)
+        );
+        if (success) {
+            delete requestConsumer[requestId];
+        }
+        
+        emit RandomnessFulfilled(requestId, randomness, success);
+    }
+    
+    // Fulfil every open request with a pseudo-random value (local dev helper, unbounded loop)
+    function fulfillPendingRequests() external {
+        for (uint256 requestId = 1; requestId < nextRequestId; requestId++) {
+            if (requestConsumer[requestId] != address(0)) {
+                fulfillRequest(requestId, uint256(keccak256(abi.encodePacked(requestId, blockhash(block.number - 1)))));
+            }
+        }
+    }
+}
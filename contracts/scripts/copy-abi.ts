@@ -0,0 +1,25 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Contracts the frontend talks to; their artifacts are copied to frontend/src/abis
+export const FRONTEND_CONTRACTS = ["DungeonToken", "TradeEscrow", "Marketplace"];
+
+const ARTIFACTS_DIR = path.join(__dirname, "..", "..", "frontend", "src", "artifacts", "contracts");
+const ABIS_DIR = path.join(__dirname, "..", "..", "frontend", "src", "abis");
+
+export function copyAbis(): string[] {
+  return FRONTEND_CONTRACTS.map((name) => {
+    const artifact = path.join(ARTIFACTS_DIR, `${name}.sol`, `${name}.json`);
+    if (!fs.existsSync(artifact)) {
+      throw new Error(`Missing artifact for ${name}; run npx hardhat compile first`);
+    }
+    const target = path.join(ABIS_DIR, `${name}.json`);
+    fs.copyFileSync(artifact, target);
+    return target;
+  });
+}
+
+// `npm run copy-abi` (hardhat run compiles first)
+if (require.main === module) {
+  copyAbis().forEach((file) => console.log("Copied", file));
+}
@@ -1,29 +1,74 @@
-import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+import { ethers, ignition, network } from "hardhat";
+import DungeonGameModule, { loadDungeonGameConfig } from "../../ignition/modules/DungeonGame";
+import { copyAbis } from "./copy-abi";
+import { Deployment, writeDeployment } from "./deployments";
 
+// Deploys the game through the DungeonGame Ignition module (settings in
+// ignition/networks/<network>.json), then records the addresses in the
+// deployments registry and copies the ABIs for the frontend.
 async function main() {
-  console.log("Deploying DungeonToken (ERC-1155)...");
-  
-  const DungeonToken = await ethers.getContractFactory("DungeonToken");
-  const dungeonToken = await DungeonToken.deploy();
-  
-  await dungeonToken.waitForDeployment();
-  
-  const address = await dungeonToken.getAddress();
-  console.log("DungeonToken deployed to:", address);
-  console.log("\n🎮 Game Token IDs:");
-  console.log("  Energy:", await dungeonToken.ENERGY());
-  console.log("  Gold:", await dungeonToken.GOLD());
-  console.log("  Common Sword:", await dungeonToken.COMMON_SWORD());
-  console.log("  Rare Sword:", await dungeonToken.RARE_SWORD());
-  console.log("  Epic Sword:", await dungeonToken.EPIC_SWORD());
-  
-  console.log("\n📋 Copy this address to frontend/src/App.tsx:");
-  console.log(`  const [contractAddress] = useState<string>('${address}');`);
-  
-  return address;
+  const chainId = Number((await ethers.provider.getNetwork()).chainId);
+  const [deployer] = await ethers.getSigners();
+
+  // The module has the deployer renounce its roles after granting them to the owner
+  const { owner } = loadDungeonGameConfig(network.name);
+  if (owner && owner.toLowerCase() === deployer.address.toLowerCase()) {
+    throw new Error("The configured owner is the deployer; leave owner unset to keep the deployer's roles");
+  }
+
+  // A restarted local node starts from block 0, so the journal of the previous run no longer applies
+  if (network.name === "localhost") {
+    fs.rmSync(path.join(__dirname, "..", "..", "ignition", "deployments", `chain-${chainId}`), {
+      recursive: true,
+      force: true,
+    });
+  }
+
+  console.log(`Deploying the Dungeon game to ${network.name} (chain ${chainId})...`);
+  const contracts = await ignition.deploy(DungeonGameModule);
+
+  const dungeonToken = await contracts.dungeonToken.getAddress();
+  const deployment: Deployment = {
+    network: network.name,
+    chainId,
+    dungeonToken,
+    tradeEscrow: await contracts.tradeEscrow.getAddress(),
+    marketplace: await contracts.marketplace.getAddress(),
+    metadataRenderer: contracts.metadataRenderer ? await contracts.metadataRenderer.getAddress() : undefined,
+    randomnessCoordinator: contracts.randomnessCoordinator
+      ? await contracts.randomnessCoordinator.getAddress()
+      : undefined,
+    deployer: deployer.address,
+  };
+
+  console.log("\n🎮 DungeonToken:", deployment.dungeonToken);
+  console.log("🤝 TradeEscrow:", deployment.tradeEscrow);
+  console.log("🏪 Marketplace:", deployment.marketplace);
+  if (deployment.metadataRenderer) {
+    console.log("🖼️  ItemMetadataRenderer:", deployment.metadataRenderer);
+  }
+  if (deployment.randomnessCoordinator) {
+    console.log("🎲 MockVRFCoordinator:", deployment.randomnessCoordinator);
+    console.log("  Fulfil loot requests with: npm run vrf:local");
+  }
+
+  // The in-process network is gone once this script exits, so there is nothing to record
+  if (network.name !== "hardhat") {
+    deployment.deployedAt = new Date().toISOString();
+    const file = writeDeployment(deployment);
+    console.log("\n📋 Deployment recorded in", file);
+  }
+
+  copyAbis();
+  console.log("📦 ABIs copied to frontend/src/abis");
+  console.log("  Rebuild or restart the frontend to pick up the new addresses.");
+
+  return dungeonToken;
 }
 
 main().catch((error) => {
   console.error(error);
   process.exitCode = 1;
-});
\ No newline at end of file
+});
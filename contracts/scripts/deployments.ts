@@ -0,0 +1,35 @@
+import * as fs from "fs";
+import * as path from "path";
+
+// Deployments registry: one JSON file per network, written by deploy.ts and
+// bundled by the frontend to pick the contract addresses for the connected chain
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "frontend", "src", "deployments");
+
+export interface Deployment {
+  network: string;
+  chainId: number;
+  dungeonToken: string;
+  tradeEscrow: string;
+  marketplace: string;
+  metadataRenderer?: string;
+  randomnessCoordinator?: string;
+  deployer?: string;
+  deployedAt?: string;
+}
+
+export function deploymentPath(networkName: string): string {
+  return path.join(DEPLOYMENTS_DIR, `${networkName}.json`);
+}
+
+export function readDeployment(networkName: string): Deployment | null {
+  const file = deploymentPath(networkName);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf8")) as Deployment;
+}
+
+export function writeDeployment(deployment: Deployment): string {
+  const file = deploymentPath(deployment.network);
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(deployment, null, 2) + "\n");
+  return file;
+}
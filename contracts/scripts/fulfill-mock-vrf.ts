@@ -0,0 +1,38 @@
+import { ethers, network } from "hardhat";
+import { readDeployment } from "./deployments";
+
+// Stand-in for an off-chain VRF oracle on the local node: keeps fulfilling
+// open MockVRFCoordinator requests until stopped with Ctrl+C
+const POLL_INTERVAL_MS = 3000;
+
+async function main() {
+  const coordinatorAddress = process.env.MOCK_VRF_ADDRESS || readDeployment(network.name)?.randomnessCoordinator;
+  if (!coordinatorAddress) {
+    throw new Error("Deploy with USE_MOCK_VRF=true or set MOCK_VRF_ADDRESS to the MockVRFCoordinator address");
+  }
+
+  const coordinator = await ethers.getContractAt("MockVRFCoordinator", coordinatorAddress);
+  console.log("Fulfilling randomness requests on", coordinatorAddress);
+
+  while (true) {
+    const nextRequestId = await coordinator.nextRequestId();
+    const openRequests: bigint[] = [];
+    for (let requestId = 1n; requestId < nextRequestId; requestId++) {
+      if ((await coordinator.requestConsumer(requestId)) !== ethers.ZeroAddress) {
+        openRequests.push(requestId);
+      }
+    }
+
+    if (openRequests.length > 0) {
+      await (await coordinator.fulfillPendingRequests()).wait();
+      console.log(`  Processed request(s): ${openRequests.join(", ")}`);
+    }
+
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,111 @@
+import { ethers } from "hardhat";
+import * as fs from "fs";
+import * as path from "path";
+
+// Writes ERC-1155 metadata JSON (plus an SVG image) for every item in the
+// DungeonToken item registry, named the way clients expand the {id} placeholder:
+// 64 lowercase hex characters, zero-padded.
+//
+// DUNGEON_TOKEN_ADDRESS  read an existing deployment (default: deploy a fresh
+//                        token on the in-process network and use its defaults)
+// METADATA_BASE_URL      public URL the output directory is served from
+// METADATA_OUT_DIR       output directory (default: frontend/public/metadata)
+
+const RARITIES = ["Resource", "Common", "Rare", "Epic", "Legendary"];
+const RARITY_COLORS = ["#4caf50", "#9e9e9e", "#5e81f4", "#a335ee", "#ff8000"];
+
+const DEFAULT_BASE_URL = "http://localhost:3000/metadata/";
+const DEFAULT_OUT_DIR = path.join(__dirname, "..", "..", "frontend", "public", "metadata");
+
+interface Item {
+  id: bigint;
+  name: string;
+  rarity: number;
+  attackPower: bigint;
+  soulbound: boolean;
+  maxSupply: bigint;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function tokenFileName(id: bigint): string {
+  return id.toString(16).padStart(64, "0");
+}
+
+function renderImage(item: Item): string {
+  const rarity = RARITIES[item.rarity] ?? "Resource";
+  const color = RARITY_COLORS[item.rarity] ?? RARITY_COLORS[0];
+  const attack = item.attackPower > 0n
+    ? `<text x="175" y="240" fill="#cccccc" font-family="sans-serif" font-size="16" text-anchor="middle">Attack ${item.attackPower}</text>`
+    : "";
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 350 350">`,
+    `<rect width="350" height="350" rx="24" fill="#1a1a2e"/>`,
+    `<rect x="12" y="12" width="326" height="326" rx="18" fill="none" stroke="${color}" stroke-width="6"/>`,
+    `<text x="175" y="160" fill="#ffffff" font-family="sans-serif" font-size="24" text-anchor="middle">${escapeXml(item.name)}</text>`,
+    `<text x="175" y="200" fill="${color}" font-family="sans-serif" font-size="18" text-anchor="middle">${rarity}</text>`,
+    attack,
+    `</svg>`,
+  ].join("");
+}
+
+function renderMetadata(item: Item, baseUrl: string) {
+  const rarity = RARITIES[item.rarity] ?? "Resource";
+  const attributes: object[] = [
+    { trait_type: "Rarity", value: rarity },
+    { trait_type: "Attack Power", display_type: "number", value: Number(item.attackPower) },
+    { trait_type: "Soulbound", value: item.soulbound ? "Yes" : "No" },
+  ];
+  if (item.maxSupply > 0n) {
+    attributes.push({ trait_type: "Max Supply", display_type: "number", value: Number(item.maxSupply) });
+  }
+
+  return {
+    name: item.name,
+    description: `${rarity} item from Dungeon Game.`,
+    image: `${baseUrl}images/${tokenFileName(item.id)}.svg`,
+    attributes,
+  };
+}
+
+async function main() {
+  const baseUrl = (process.env.METADATA_BASE_URL || DEFAULT_BASE_URL).replace(/\/?$/, "/");
+  const outDir = process.env.METADATA_OUT_DIR || DEFAULT_OUT_DIR;
+
+  const dungeonToken = process.env.DUNGEON_TOKEN_ADDRESS
+    ? await ethers.getContractAt("DungeonToken", process.env.DUNGEON_TOKEN_ADDRESS)
+    : await (await ethers.getContractFactory("DungeonToken")).deploy();
+
+  const count = await dungeonToken.getItemCount();
+  fs.mkdirSync(path.join(outDir, "images"), { recursive: true });
+
+  for (let index = 0n; index < count; index++) {
+    const id = await dungeonToken.getItemIdAt(index);
+    const definition = await dungeonToken.getItem(id);
+    const item: Item = {
+      id,
+      name: definition.name,
+      rarity: Number(definition.rarity),
+      attackPower: definition.attackPower,
+      soulbound: definition.soulbound,
+      maxSupply: definition.maxSupply,
+    };
+
+    const fileName = tokenFileName(id);
+    fs.writeFileSync(path.join(outDir, `${fileName}.json`), JSON.stringify(renderMetadata(item, baseUrl), null, 2) + "\n");
+    fs.writeFileSync(path.join(outDir, "images", `${fileName}.svg`), renderImage(item) + "\n");
+    console.log(`  ${id}: ${item.name}`);
+  }
+
+  console.log(`\n📝 Wrote metadata for ${count} item(s) to ${outDir}`);
+  console.log("  Point the contract at it with:");
+  console.log(`  setBaseURI("${baseUrl}{id}.json")`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,20 @@
+// Writes src/deployments/localhost.json with zero addresses when no local
+// deployment has been recorded yet, so the app builds before `npm run deploy:local`.
+// deploy.ts overwrites it with the real addresses; the file is not committed.
+const fs = require('fs');
+const path = require('path');
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+const file = path.join(__dirname, '..', 'src', 'deployments', 'localhost.json');
+
+if (!fs.existsSync(file)) {
+  const deployment = {
+    network: 'localhost',
+    chainId: 31337,
+    dungeonToken: ZERO_ADDRESS,
+    tradeEscrow: ZERO_ADDRESS,
+    marketplace: ZERO_ADDRESS,
+  };
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(deployment, null, 2) + '\n');
+}
@@ -1,9 +1,61 @@
 import React from 'react';
-import { render, screen } from '@testing-library/react';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import App from './App';
+import { createFakeEthereum, installFakeEthereum } from './testUtils/fakeEthereum';
 
-test('renders learn react link', () => {
-  render(<App />);
-  const linkElement = screen.getByText(/learn react/i);
-  expect(linkElement).toBeInTheDocument();
+// A Sepolia deployment to switch to (the committed registry has none yet)
+jest.mock('./deployments/sepolia.json', () => ({
+  network: 'sepolia',
+  chainId: 11155111,
+  dungeonToken: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  tradeEscrow: '0x0000000000000000000000000000000000000000',
+  marketplace: '0x0000000000000000000000000000000000000000',
+}));
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+describe('App', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    // The dashboard mounts for a moment before the network check; its contract reads fail here
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    installFakeEthereum(undefined);
+    jest.restoreAllMocks();
+  });
+
+  it('shows the welcome screen until a wallet is connected', () => {
+    render(<App />);
+
+    expect(screen.getByText('Welcome to Dungeon Loot Game')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Connect Wallet' })).toBeInTheDocument();
+  });
+
+  it('asks to switch networks when connected to the wrong chain', async () => {
+    installFakeEthereum(createFakeEthereum({ accounts: [ACCOUNT], chainId: 1 }));
+
+    render(<App />);
+
+    expect(await screen.findByText('Wrong network')).toBeInTheDocument();
+    expect(await screen.findByText('Please switch to Sepolia Testnet')).toBeInTheDocument();
+    expect(screen.getByText('Ethereum Mainnet')).toBeInTheDocument();
+  });
+
+  it('asks the wallet to switch to a network the game is deployed on', async () => {
+    const switchChain = jest.fn(() => null);
+    const ethereum = createFakeEthereum({
+      accounts: [ACCOUNT],
+      chainId: 1,
+      handlers: { wallet_switchEthereumChain: switchChain },
+    });
+    installFakeEthereum(ethereum);
+
+    render(<App />);
+    userEvent.click(await screen.findByRole('button', { name: 'Switch to Sepolia Testnet' }));
+
+    await waitFor(() => expect(switchChain).toHaveBeenCalledWith([{ chainId: '0xaa36a7' }]));
+  });
 });
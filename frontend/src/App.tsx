@@ -1,4 +1,5 @@
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import { Eip1193Provider } from 'ethers';
 import { Web3 } from 'web3';
 import WalletConnect from './components/WalletConnect';
 import ErrorBox from './components/ErrorBox';
@@ -6,16 +7,31 @@ import Dungeon from './components/Dungeon';
 import Crafting from './components/Crafting';
 import Inventory from './components/Inventory';
 import Trade from './components/Trade';
+import Marketplace from './components/Marketplace';
+import History from './components/History';
+import Leaderboard from './components/Leaderboard';
+import Seasons from './components/Seasons';
 import AdminPanel from './components/AdminPanel';
+import TransactionDrawer from './components/TransactionDrawer';
 import Footer from './components/Footer';
 import { useNotification } from './components/NotificationManager';
-import DungeonTokenABI from './abis/DungeonToken.json';
+import { DungeonGameClient } from './game/dungeonGameClient';
+import { watchAccountEvents } from './game/accountEvents';
+import { GameClientProvider, isTokenDeployed } from './game/gameClientContext';
+import { ItemCatalogProvider } from './game/itemCatalog';
+import { describeMaintenance, loadPausedActions, NOTHING_PAUSED, PausedActions } from './game/pause';
+import { hasAnyRole, loadGameRoles } from './game/roles';
+import { getGameNetwork, isGameDeployed, SUPPORTED_NETWORKS, switchNetwork } from './game/networks';
+import { describeOutcome, TransactionTracker } from './game/transactionTracker';
 import './App.scss';
 
+// Networks with a recorded deployment, offered on the wrong-network screen
+const SWITCHABLE_NETWORKS = SUPPORTED_NETWORKS.filter(isGameDeployed);
+
 /**
  * Main App Component
  * Manages wallet connection, account state, and game data
- * Coordinates between all game components (Dungeon, Crafting, Inventory, Trade)
+ * Coordinates between all game components (Dungeon, Crafting, Inventory, Trade, Marketplace, History, Leaderboard, Seasons)
  */
 function App() {
   // Wallet and account state
@@ -33,10 +49,12 @@ function App() {
   const [gold, setGold] = useState<number>(0);
   const [inventoryRefreshKey, setInventoryRefreshKey] = useState<number>(0);
   const [showAdminPanel, setShowAdminPanel] = useState<boolean>(false);
-  const [isOwner, setIsOwner] = useState<boolean>(false);
+  const [isAdmin, setIsAdmin] = useState<boolean>(false);
+  const [pausedActions, setPausedActions] = useState<PausedActions>(NOTHING_PAUSED);
   
-  // Smart contract address on Sepolia testnet
-  const [contractAddress] = useState<string>('0xb117Cb59815184cFe27ff5c4C99a4e4D64797a2D');
+  // Contract addresses for the connected chain, from the deployments registry
+  const network = useMemo(() => getGameNetwork(chainId), [chainId]);
+  const addresses = network?.addresses ?? null;
   
   // Notification system
   const { addNotification, NotificationContainer } = useNotification();
@@ -54,45 +72,75 @@ function App() {
     }
   }, [account, web3, addNotification]);
 
-  // Monitor account/network and validate Sepolia connection
+  // Monitor account/network and check the game is deployed on the connected chain
   useEffect(() => {
     if (account && web3) {
       loadAccountBalance();
       
-      // Verify user is on Sepolia testnet (chainId 11155111)
-      const isSepolia = chainId === 11155111;
-      setIsWrongNetwork(!isSepolia);
+      const isSupported = network !== null && isGameDeployed(network);
+      setIsWrongNetwork(!isSupported);
       
-      if (!isSepolia && chainId !== 0) {
-        setErrorMessage('Please switch to Sepolia network for testing');
+      if (!isSupported && chainId !== 0) {
+        setErrorMessage(
+          network
+            ? `The game is not deployed on ${network.name} yet`
+            : `Please switch to ${SWITCHABLE_NETWORKS.map(supported => supported.name).join(' or ')}`
+        );
       } else {
         setErrorMessage('');
       }
     }
-  }, [account, web3, chainId, loadAccountBalance]);
+  }, [account, web3, chainId, network, loadAccountBalance]);
+
+  // The account's transactions for this game, kept across reloads
+  const transactionTracker = useMemo(
+    () =>
+      account && addresses
+        ? new TransactionTracker(`dungeon-txs:${addresses.dungeonToken.toLowerCase()}:${account.toLowerCase()}`)
+        : null,
+    [account, addresses]
+  );
+
+  // Typed contract client shared by the game components (null until connected to the right network)
+  const gameClient = useMemo(() => {
+    if (!web3 || !account || isWrongNetwork || !addresses) return null;
+
+    return DungeonGameClient.connect(
+      web3.provider as unknown as Eip1193Provider,
+      account,
+      addresses,
+      transactionTracker
+    );
+  }, [web3, account, isWrongNetwork, addresses, transactionTracker]);
+
+  // Report transactions that settle without a component waiting on them
+  // (recovered after a reload, sped up, cancelled or dropped)
+  useEffect(() => {
+    if (!transactionTracker) return;
+    return transactionTracker.subscribe((_, settled) => {
+      const outcome = settled && describeOutcome(settled);
+      if (outcome) addNotification(outcome.message, outcome.type);
+    });
+  }, [transactionTracker, addNotification]);
 
   useEffect(() => {
-    const checkOwner = async () => {
-      if (!web3 || !account || isWrongNetwork) {
-        setIsOwner(false);
+    // Any DungeonToken role unlocks the admin panel, which shows the sections it allows
+    const checkRoles = async () => {
+      if (!gameClient) {
+        setIsAdmin(false);
         return;
       }
 
       try {
-        const contract = new web3.eth.Contract(
-          DungeonTokenABI.abi as any,
-          contractAddress
-        ) as any;
-        const owner = await contract.methods.owner().call();
-        setIsOwner(owner?.toLowerCase() === account.toLowerCase());
+        setIsAdmin(hasAnyRole(await loadGameRoles(gameClient, gameClient.account)));
       } catch (error) {
-        console.error('Error checking owner:', error);
-        setIsOwner(false);
+        console.error('Error checking roles:', error);
+        setIsAdmin(false);
       }
     };
 
-    checkOwner();
-  }, [web3, account, contractAddress, isWrongNetwork]);
+    checkRoles();
+  }, [gameClient]);
 
   // Get human-readable network name from chainId
   const getNetworkName = useCallback((id: number): string => {
@@ -105,6 +153,18 @@ function App() {
     return networks[id] || `Network ${id}`;
   }, []);
 
+  // Ask the wallet to move to a network the game is deployed on
+  const handleSwitchNetwork = useCallback(async (chainIdNum: number) => {
+    const target = getGameNetwork(chainIdNum);
+    if (!web3 || !target) return;
+
+    try {
+      await switchNetwork(web3.provider as unknown as Eip1193Provider, target);
+    } catch (error: any) {
+      addNotification(error?.code === 4001 ? 'Network switch rejected' : `Could not switch to ${target.name}`, 'error');
+    }
+  }, [web3, addNotification]);
+
   // Handle wallet connection success
   const handleConnect = useCallback((accountAddress: string, web3Instance: Web3, chainIdNum: number) => {
     setAccount(accountAddress);
@@ -141,6 +201,25 @@ function App() {
     setInventoryRefreshKey(prev => prev + 1);
   }, []);
 
+  // Game actions a pauser has switched off, reloaded with everything else (pauses are account events too)
+  useEffect(() => {
+    if (!gameClient || !isTokenDeployed(gameClient)) {
+      setPausedActions(NOTHING_PAUSED);
+      return;
+    }
+    loadPausedActions(gameClient)
+      .then(setPausedActions)
+      .catch(error => console.error('Error loading paused actions:', error));
+  }, [gameClient, inventoryRefreshKey]);
+
+  const maintenanceMessage = describeMaintenance(pausedActions);
+
+  // Refresh as well when other players or the admin change this account's balances
+  useEffect(() => {
+    if (!gameClient || !isTokenDeployed(gameClient)) return;
+    return watchAccountEvents(gameClient, handleInventoryUpdate);
+  }, [gameClient, handleInventoryUpdate]);
+
   return (
     <div className="app">
       <header className="app-header">
@@ -165,7 +244,7 @@ function App() {
               </div>
             </div>
           )}
-          {account && !isWrongNetwork && isOwner && (
+          {account && !isWrongNetwork && isAdmin && (
             <label className="admin-toggle">
               <input
                 type="checkbox"
@@ -175,6 +254,13 @@ function App() {
               <span>Admin</span>
             </label>
           )}
+          {gameClient && transactionTracker && (
+            <TransactionDrawer
+              tracker={transactionTracker}
+              provider={gameClient.provider}
+              explorerUrl={network?.explorerUrl ?? null}
+            />
+          )}
           <WalletConnect 
             onConnect={handleConnect}
             onDisconnect={handleDisconnect}
@@ -199,94 +285,116 @@ function App() {
 
         {account ? (
           <div className="dashboard">
-            {isWrongNetwork ? (
+            {isWrongNetwork || !gameClient ? (
               <div className="content-section">
                 <h2>Wrong network</h2>
                 <p className="description">
                   Please switch to the correct network to load game data.
                 </p>
+                <div className="cta-buttons">
+                  {SWITCHABLE_NETWORKS.map(supported => (
+                    <button
+                      key={supported.chainId}
+                      className="cta-button primary"
+                      onClick={() => handleSwitchNetwork(supported.chainId)}
+                    >
+                      Switch to {supported.name}
+                    </button>
+                  ))}
+                </div>
               </div>
             ) : (
-              <>
-                {web3 && showAdminPanel && (
-                  <AdminPanel
-                    web3={web3}
-                    account={account}
-                    contractAddress={contractAddress}
-                    onNotification={handleNotification}
-                    onInventoryUpdate={handleInventoryUpdate}
-                  />
-                )}
-                {/* Stats Section */}
-                <div className="stats-section">
-                  <div className="stat-card">
-                    <div className="stat-icon">⚡</div>
-                    <div className="stat-content">
-                      <span className="stat-label">Energy:</span>
-                      <span className="stat-value">{energy}</span>
+              <GameClientProvider client={gameClient}>
+                <ItemCatalogProvider>
+                  {showAdminPanel && (
+                    <AdminPanel
+                      onNotification={handleNotification}
+                      onInventoryUpdate={handleInventoryUpdate}
+                    />
+                  )}
+                  {/* Maintenance banner while part of the game is paused */}
+                  {maintenanceMessage && (
+                    <ErrorBox key={maintenanceMessage} message={maintenanceMessage} type="warning" autoClose={false} />
+                  )}
+                  {/* Stats Section */}
+                  <div className="stats-section">
+                    <div className="stat-card">
+                      <div className="stat-icon">⚡</div>
+                      <div className="stat-content">
+                        <span className="stat-label">Energy:</span>
+                        <span className="stat-value">{energy}</span>
+                      </div>
                     </div>
-                  </div>
-                  <div className="stat-card">
-                    <div className="stat-icon">💰</div>
-                    <div className="stat-content">
-                      <span className="stat-label">Gold:</span>
-                      <span className="stat-value">{gold}</span>
+                    <div className="stat-card">
+                      <div className="stat-icon">💰</div>
+                      <div className="stat-content">
+                        <span className="stat-label">Gold:</span>
+                        <span className="stat-value">{gold}</span>
+                      </div>
                     </div>
                   </div>
-                </div>
 
-                {/* Three Column Layout */}
-                <div className="game-columns">
-                  {/* Column 1: Dungeon */}
-                  {web3 && (
+                  {/* Three Column Layout */}
+                  <div className="game-columns">
+                    {/* Column 1: Dungeon */}
                     <Dungeon 
-                      web3={web3}
-                      account={account}
-                      contractAddress={contractAddress}
                       onNotification={handleNotification}
                       onBalanceUpdate={handleBalanceUpdate}
                       onInventoryUpdate={handleInventoryUpdate}
                       onEthBalanceUpdate={loadAccountBalance}
+                      refreshKey={inventoryRefreshKey}
+                      paused={pausedActions}
                     />
-                  )}
 
-                  {/* Column 2: Crafting */}
-                  {web3 && (
+                    {/* Column 2: Crafting */}
                     <Crafting
-                      web3={web3}
-                      account={account}
-                      contractAddress={contractAddress}
                       onNotification={handleNotification}
                       onInventoryUpdate={handleInventoryUpdate}
                       refreshKey={inventoryRefreshKey}
                       onEthBalanceUpdate={loadAccountBalance}
+                      paused={pausedActions}
                     />
-                  )}
 
-                  {/* Column 3: Inventory */}
-                  {web3 && (
+                    {/* Column 3: Inventory */}
                     <Inventory 
-                      web3={web3}
-                      account={account}
-                      contractAddress={contractAddress}
                       refreshKey={inventoryRefreshKey}
                     />
-                  )}
 
-                  {/* Column 4: Trade */}
-                  {web3 && (
+                    {/* Column 4: Trade */}
                     <Trade
-                      web3={web3}
-                      account={account}
-                      contractAddress={contractAddress}
                       onNotification={handleNotification}
                       onEthBalanceUpdate={loadAccountBalance}
                       onInventoryUpdate={handleInventoryUpdate}
                       refreshKey={inventoryRefreshKey}
+                      paused={pausedActions}
                     />
-                  )}
-                </div>
-              </>
+
+                    {/* Column 5: Marketplace */}
+                    <Marketplace
+                      onNotification={handleNotification}
+                      onEthBalanceUpdate={loadAccountBalance}
+                      onInventoryUpdate={handleInventoryUpdate}
+                      refreshKey={inventoryRefreshKey}
+                      paused={pausedActions}
+                    />
+
+                    {/* Column 6: History */}
+                    <History
+                      refreshKey={inventoryRefreshKey}
+                    />
+
+                    {/* Column 7: Leaderboard */}
+                    <Leaderboard
+                      refreshKey={inventoryRefreshKey}
+                    />
+
+                    {/* Column 8: Seasons */}
+                    <Seasons
+                      refreshKey={inventoryRefreshKey}
+                    />
+                  </div>
+                </ItemCatalogProvider>
+              </GameClientProvider>
             )}
           </div>
         ) : (
@@ -328,7 +436,7 @@ function App() {
                 <h3>Getting Started</h3>
                 <ol>
                   <li>Connect your wallet using the button above</li>
-                  <li>Switch to Sepolia test network</li>
+                  <li>Switch to Sepolia test network (or a local Hardhat node)</li>
                   <li>Get test ETH from a Sepolia faucet</li>
                   <li>Start playing the dungeon game!</li>
                 </ol>
@@ -0,0 +1,229 @@
+import React from 'react';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import AdminPanel, { RESET_BATCH_SIZE } from './AdminPanel';
+import {
+  createFakeClient,
+  createFakeContract,
+  FakeContractHandlers,
+  renderWithClient,
+  revert,
+  revertWith,
+} from '../testUtils/fakeContract';
+import { GAME_ACTIONS } from '../game/pause';
+import { GAME_ROLES, GameRole, ROLE_KEYS } from '../game/roles';
+
+const OWNER = '0xf39Fd6e51aad88F6F4ce6aB8827279cffFb92266';
+const PLAYER = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER_PLAYER = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+// OWNER holds `roles` (every role by default); other accounts hold none
+const setup = (account: string, overrides: FakeContractHandlers = {}, roles: GameRole[] = ROLE_KEYS) => {
+  const hasRole = jest.fn(
+    (role: string, holder: string) =>
+      holder.toLowerCase() === OWNER.toLowerCase() && roles.some(held => GAME_ROLES[held] === role)
+  );
+  const contract = createFakeContract({
+    call: { hasRole, paused: () => false, resetCursor: () => BigInt(0), getPlayerCount: () => BigInt(3), ...overrides.call },
+    send: overrides.send,
+  });
+  const props = {
+    onNotification: jest.fn(),
+    onInventoryUpdate: jest.fn(),
+  };
+
+  const { container } = renderWithClient(<AdminPanel {...props} />, createFakeClient(contract, { account }));
+  return { contract, container, hasRole, ...props };
+};
+
+describe('AdminPanel', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    jest.spyOn(window, 'confirm').mockReturnValue(true);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('renders nothing for accounts without a role', async () => {
+    const { container, hasRole } = setup(PLAYER);
+
+    await waitFor(() => expect(hasRole).toHaveBeenCalledTimes(ROLE_KEYS.length));
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('renders every section for an account holding every role', async () => {
+    setup(OWNER.toLowerCase());
+
+    expect(await screen.findByText('Your roles: Admin, Minter, Game Master, Config Admin, Pauser')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Grant' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Mint Energy' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Set Veteran Item' })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Reset All Players' })).toBeInTheDocument();
+  });
+
+  it('shows only the sections of the roles the account holds', async () => {
+    setup(OWNER, {}, ['minter']);
+
+    expect(await screen.findByText('Your roles: Minter')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Mint Gold' })).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Grant' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Set Veteran Item' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Reset Selected Players' })).not.toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Start New Season' })).not.toBeInTheDocument();
+  });
+
+  it('pauses a game action after confirmation', async () => {
+    const { contract, onNotification, onInventoryUpdate } = setup(OWNER, { send: { setPaused: () => ({}) } }, ['pauser']);
+
+    userEvent.click(await screen.findByRole('button', { name: 'Pause Crafting' }));
+
+    await waitFor(() => expect(onNotification).toHaveBeenCalledWith('Crafting paused.', 'success'));
+    expect(contract.sent[0]).toEqual({ method: 'setPaused', args: [GAME_ACTIONS.crafting, true] });
+    expect(onInventoryUpdate).toHaveBeenCalled();
+  });
+
+  it('mints the entered amount to a player', async () => {
+    const { contract, onNotification } = setup(OWNER, { send: { mintGold: () => ({}) } }, ['minter']);
+
+    userEvent.type(await screen.findByLabelText('Mint to player:'), PLAYER);
+    userEvent.clear(screen.getByLabelText('Mint amount'));
+    userEvent.type(screen.getByLabelText('Mint amount'), '25');
+    userEvent.click(screen.getByRole('button', { name: 'Mint Gold' }));
+
+    await waitFor(() => expect(onNotification).toHaveBeenCalledWith('Minted 25 Gold.', 'success'));
+    expect(contract.sent[0]).toEqual({ method: 'mintGold', args: [PLAYER, 25] });
+  });
+
+  it('grants the selected role to an account', async () => {
+    const { contract, onNotification } = setup(OWNER, { send: { grantRole: () => ({}) } }, ['admin']);
+
+    userEvent.type(await screen.findByLabelText('Grant or revoke a role:'), PLAYER);
+    userEvent.selectOptions(screen.getByLabelText('Role'), 'gameMaster');
+    userEvent.click(screen.getByRole('button', { name: 'Grant' }));
+
+    await waitFor(() =>
+      expect(onNotification).toHaveBeenCalledWith(`Game Master role granted to ${PLAYER}.`, 'success')
+    );
+    expect(contract.sent[0]).toEqual({ method: 'grantRole', args: [GAME_ROLES.gameMaster, PLAYER] });
+  });
+
+  it('rejects invalid addresses before sending anything', async () => {
+    const { contract, onNotification } = setup(OWNER);
+
+    userEvent.type(await screen.findByLabelText(/Reset specific players/), 'not-an-address');
+    userEvent.click(screen.getByRole('button', { name: 'Reset Selected Players' }));
+
+    expect(onNotification).toHaveBeenCalledWith('Invalid address(es): not-an-address', 'warning');
+    expect(contract.sent).toHaveLength(0);
+  });
+
+  it('resets the listed players after confirmation', async () => {
+    const { contract, onNotification, onInventoryUpdate } = setup(OWNER, { send: { resetPlayers: () => ({}) } });
+
+    userEvent.type(await screen.findByLabelText(/Reset specific players/), `${PLAYER}, ${OTHER_PLAYER}`);
+    userEvent.click(screen.getByRole('button', { name: 'Reset Selected Players' }));
+
+    await waitFor(() => expect(onNotification).toHaveBeenCalledWith('Player balances reset successfully.', 'success'));
+    expect(contract.sent[0].args).toEqual([[PLAYER, OTHER_PLAYER]]);
+    expect(onInventoryUpdate).toHaveBeenCalled();
+  });
+
+  // Fake on-chain reset pass over `playerCount` players, advanced by resetPlayersRange
+  const resetPass = (playerCount: number, cursor = 0) => {
+    const state = { cursor };
+    return {
+      state,
+      call: { resetCursor: () => BigInt(state.cursor), getPlayerCount: () => BigInt(playerCount) },
+      send: {
+        resetPlayersRange: (start: bigint, count: bigint) => {
+          const end = Math.min(Number(start + count), playerCount);
+          if (Number(start) === 0 || Number(start) === state.cursor) state.cursor = end < playerCount ? end : 0;
+        },
+      },
+    };
+  };
+
+  it('resets every player in batches and reports completion', async () => {
+    const pass = resetPass(RESET_BATCH_SIZE * 2 + 5);
+    const { contract, onNotification, onInventoryUpdate } = setup(OWNER, pass);
+
+    userEvent.click(await screen.findByRole('button', { name: 'Reset All Players' }));
+
+    await waitFor(() => expect(onNotification).toHaveBeenCalledWith('All tracked players reset successfully.', 'success'));
+    expect(contract.sent.map(({ args }) => args.map(Number))).toEqual([
+      [0, RESET_BATCH_SIZE],
+      [RESET_BATCH_SIZE, RESET_BATCH_SIZE],
+      [RESET_BATCH_SIZE * 2, RESET_BATCH_SIZE],
+    ]);
+    expect(onInventoryUpdate).toHaveBeenCalledTimes(3);
+    expect(screen.queryByRole('progressbar')).not.toBeInTheDocument();
+  });
+
+  it('shows an unfinished pass and resumes it where it stopped', async () => {
+    const pass = resetPass(RESET_BATCH_SIZE + 10, 10);
+    const { contract, onNotification } = setup(OWNER, pass);
+
+    expect(await screen.findByText(`10 / ${RESET_BATCH_SIZE + 10} players reset (unfinished)`)).toBeInTheDocument();
+    expect(screen.getByRole('progressbar')).toHaveAttribute('aria-valuenow', '10');
+    userEvent.click(screen.getByRole('button', { name: 'Resume Reset' }));
+
+    await waitFor(() => expect(onNotification).toHaveBeenCalledWith('All tracked players reset successfully.', 'success'));
+    expect(contract.sent.map(({ args }) => args.map(Number))).toEqual([[10, RESET_BATCH_SIZE]]);
+  });
+
+  it('starts an unfinished pass over from the first player', async () => {
+    const pass = resetPass(5, 3);
+    const { contract } = setup(OWNER, pass);
+
+    userEvent.click(await screen.findByRole('button', { name: 'Start Over' }));
+
+    await waitFor(() => expect(contract.sent).toHaveLength(1));
+    expect(contract.sent[0].args.map(Number)).toEqual([0, RESET_BATCH_SIZE]);
+  });
+
+  it('starts a season of the entered length', async () => {
+    const { contract, onNotification } = setup(OWNER, { send: { startSeason: () => ({}) } });
+
+    const days = await screen.findByLabelText(/New season length/);
+    userEvent.clear(days);
+    userEvent.type(days, '14');
+    userEvent.click(screen.getByRole('button', { name: 'Start New Season' }));
+
+    await waitFor(() => expect(onNotification).toHaveBeenCalledWith('New season started.', 'success'));
+    expect(contract.sent[0]).toEqual({ method: 'startSeason', args: [14 * 24 * 60 * 60] });
+  });
+
+  it('does nothing when the confirmation is declined', async () => {
+    (window.confirm as jest.Mock).mockReturnValue(false);
+    const { contract } = setup(OWNER, { send: { resetPlayersRange: () => ({}) } });
+
+    userEvent.click(await screen.findByRole('button', { name: 'Reset All Players' }));
+
+    expect(contract.sent).toHaveLength(0);
+  });
+
+  it('reports a reverted reset as an error', async () => {
+    const { onNotification } = setup(OWNER, { send: { resetPlayersRange: () => revert('out of gas') } });
+
+    userEvent.click(await screen.findByRole('button', { name: 'Reset All Players' }));
+
+    await waitFor(() => expect(onNotification).toHaveBeenCalledWith('out of gas', 'error'));
+  });
+
+  it('explains a decoded custom error', async () => {
+    const { onNotification } = setup(
+      OWNER,
+      { send: { mintGold: () => revertWith('MaxSupplyExceeded', 2, 10000) } },
+      ['minter']
+    );
+
+    userEvent.type(await screen.findByLabelText('Mint to player:'), PLAYER);
+    userEvent.click(screen.getByRole('button', { name: 'Mint Gold' }));
+
+    await waitFor(() =>
+      expect(onNotification).toHaveBeenCalledWith('Gold has reached its maximum supply.', 'warning')
+    );
+  });
+});
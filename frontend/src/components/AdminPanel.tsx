@@ -1,60 +1,83 @@
-import React, { useEffect, useState } from 'react';
-import { Web3 } from 'web3';
-import DungeonTokenABI from '../abis/DungeonToken.json';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { isAddress } from 'ethers';
+import { isTokenDeployed, useGameClient } from '../game/gameClientContext';
+import { describeFailure } from '../game/gameErrors';
+import { useItemCatalog } from '../game/itemCatalog';
+import { ACTION_KEYS, ACTION_LABELS, GAME_ACTIONS, GameAction, loadPausedActions, NOTHING_PAUSED, PausedActions } from '../game/pause';
+import { GAME_ROLES, GameRole, GameRoles, hasAnyRole, loadGameRoles, NO_ROLES, ROLE_KEYS, ROLE_LABELS } from '../game/roles';
 import './AdminPanel.scss';
 
-interface AdminPanelProps {
-  web3: Web3;
-  account: string;
-  contractAddress: string;
-  onNotification: (message: string, type: 'success' | 'error' | 'warning' | 'info') => void;
-  onInventoryUpdate: () => void;
-}
+// Players reset per transaction; each reset burns every item the player holds
+export const RESET_BATCH_SIZE = 25;
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
 
-interface DungeonContractMethod {
-  call(): Promise<any>;
-  send(options: { from: string }): Promise<any>;
+// Where the on-chain reset pass stands: players [0, done) of total are reset
+interface ResetProgress {
+  done: number;
+  total: number;
 }
 
-interface DungeonContractInstance {
-  methods: {
-    owner(): DungeonContractMethod;
-    resetPlayer(address: string): DungeonContractMethod;
-    resetPlayers(addresses: string[]): DungeonContractMethod;
-    resetAllPlayers(): DungeonContractMethod;
-  };
+interface AdminPanelProps {
+  onNotification: (message: string, type: 'success' | 'error' | 'warning' | 'info') => void;
+  onInventoryUpdate: () => void;
 }
 
-const AdminPanel: React.FC<AdminPanelProps> = ({ web3, account, contractAddress, onNotification, onInventoryUpdate }) => {
-  const [contract, setContract] = useState<DungeonContractInstance | null>(null);
-  const [ownerAddress, setOwnerAddress] = useState<string>('');
-  const [isOwner, setIsOwner] = useState<boolean>(false);
+const AdminPanel: React.FC<AdminPanelProps> = ({ onNotification, onInventoryUpdate }) => {
+  const client = useGameClient();
+  const [roles, setRoles] = useState<GameRoles>(NO_ROLES);
+  const [pausedActions, setPausedActions] = useState<PausedActions>(NOTHING_PAUSED);
   const [addressInput, setAddressInput] = useState<string>('');
+  const [mintAddress, setMintAddress] = useState<string>('');
+  const [mintAmount, setMintAmount] = useState<string>('10');
+  const [roleAccount, setRoleAccount] = useState<string>('');
+  const [selectedRole, setSelectedRole] = useState<GameRole>('minter');
+  const [veteranInput, setVeteranInput] = useState<{ itemId: string; veteranId: string }>({ itemId: '', veteranId: '' });
+  const [seasonDays, setSeasonDays] = useState<string>('30');
   const [isLoading, setIsLoading] = useState<boolean>(false);
+  const [resetProgress, setResetProgress] = useState<ResetProgress | null>(null);
+  const [isResettingAll, setIsResettingAll] = useState<boolean>(false);
+  const stopRequested = useRef<boolean>(false);
+  const { getItem } = useItemCatalog();
+
+  // The contract's resetCursor is non-zero while a pass is unfinished
+  const loadResetProgress = useCallback(async (): Promise<ResetProgress> => {
+    const [cursor, playerCount] = await Promise.all([client.token.resetCursor(), client.token.getPlayerCount()]);
+    const progress = { done: Number(cursor), total: Number(playerCount) };
+    setResetProgress(progress);
+    return progress;
+  }, [client]);
+
+  // Each section below is shown to the accounts holding the role its functions need
+  const loadRoles = useCallback(async () => {
+    if (!isTokenDeployed(client)) return;
+    try {
+      setRoles(await loadGameRoles(client, client.account));
+    } catch (error) {
+      console.error('Error loading roles:', error);
+    }
+  }, [client]);
 
   useEffect(() => {
-    if (web3 && account && contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000') {
-      const dungeonContract = new web3.eth.Contract(
-        DungeonTokenABI.abi as any,
-        contractAddress
-      ) as unknown as DungeonContractInstance;
-      setContract(dungeonContract);
+    loadRoles();
+  }, [loadRoles]);
+
+  const loadPaused = useCallback(async () => {
+    try {
+      setPausedActions(await loadPausedActions(client));
+    } catch (error) {
+      console.error('Error loading paused actions:', error);
     }
-  }, [web3, account, contractAddress]);
+  }, [client]);
 
   useEffect(() => {
-    const loadOwner = async () => {
-      if (!contract || !account) return;
-      try {
-        const owner = await contract.methods.owner().call();
-        setOwnerAddress(owner as string);
-        setIsOwner(owner?.toLowerCase() === account.toLowerCase());
-      } catch (error) {
-        console.error('Error loading owner:', error);
-      }
-    };
-    loadOwner();
-  }, [contract, account]);
+    if (roles.pauser) loadPaused();
+  }, [roles.pauser, loadPaused]);
+
+  useEffect(() => {
+    if (!roles.gameMaster) return;
+    loadResetProgress().catch(error => console.error('Error loading reset progress:', error));
+  }, [roles.gameMaster, loadResetProgress]);
 
   const parseAddresses = (): string[] => {
     const raw = addressInput
@@ -62,7 +85,7 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ web3, account, contractAddress,
       .map(value => value.trim())
       .filter(Boolean);
 
-    const invalid = raw.filter(addr => !web3.utils.isAddress(addr));
+    const invalid = raw.filter(addr => !isAddress(addr));
     if (invalid.length > 0) {
       onNotification(`Invalid address(es): ${invalid.join(', ')}`, 'warning');
       return [];
@@ -70,8 +93,106 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ web3, account, contractAddress,
     return raw;
   };
 
+  // Switch one game action off or back on; the whole app picks it up through onInventoryUpdate
+  const handleSetPaused = async (action: GameAction, paused: boolean) => {
+    const label = ACTION_LABELS[action];
+    if (paused && !window.confirm(`Pause ${label.toLowerCase()} for every player?`)) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await client.write(({ token }) => token.setPaused, GAME_ACTIONS[action], paused);
+      onNotification(`${label} ${paused ? 'paused' : 'resumed'}.`, 'success');
+      await loadPaused();
+      onInventoryUpdate();
+    } catch (error: any) {
+      console.error('Pause error:', error);
+      const { message, type } = describeFailure(client, error, 'Changing the pause failed', id => getItem(id).name);
+      onNotification(message, type);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMint = async (method: 'mintEnergy' | 'mintGold', itemName: string) => {
+    const amount = Number(mintAmount);
+    if (!isAddress(mintAddress)) {
+      onNotification('Enter a valid address to mint to.', 'warning');
+      return;
+    }
+    if (!Number.isInteger(amount) || amount < 1) {
+      onNotification('Enter a whole amount of at least 1.', 'warning');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await client.write(({ token }) => token[method], mintAddress, amount);
+      onNotification(`Minted ${amount} ${itemName}.`, 'success');
+      onInventoryUpdate();
+    } catch (error: any) {
+      console.error('Mint error:', error);
+      const { message, type } = describeFailure(client, error, 'Minting failed', id => getItem(id).name);
+      onNotification(message, type);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRoleChange = async (grant: boolean) => {
+    if (!isAddress(roleAccount)) {
+      onNotification('Enter a valid account address.', 'warning');
+      return;
+    }
+
+    const label = ROLE_LABELS[selectedRole];
+    const isSelf = roleAccount.toLowerCase() === client.account.toLowerCase();
+    if (!grant && isSelf && !window.confirm(`Revoke your own ${label} role? Only an admin can grant it back.`)) {
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      if (grant) {
+        await client.write(({ token }) => token.grantRole, GAME_ROLES[selectedRole], roleAccount);
+      } else {
+        await client.write(({ token }) => token.revokeRole, GAME_ROLES[selectedRole], roleAccount);
+      }
+      onNotification(`${label} role ${grant ? 'granted to' : 'revoked from'} ${roleAccount}.`, 'success');
+      if (isSelf) loadRoles();
+    } catch (error: any) {
+      console.error('Role change error:', error);
+      const { message, type } = describeFailure(client, error, 'Changing the role failed', id => getItem(id).name);
+      onNotification(message, type);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSetVeteranItem = async () => {
+    const itemId = Number(veteranInput.itemId);
+    const veteranId = Number(veteranInput.veteranId);
+    if (!Number.isInteger(itemId) || itemId < 1 || !Number.isInteger(veteranId) || veteranId < 0) {
+      onNotification('Enter an item ID and a veteran item ID (0 to let it expire).', 'warning');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await client.write(({ token }) => token.setVeteranItem, itemId, veteranId);
+      onNotification(`Item ${itemId} now becomes ${veteranId === 0 ? 'nothing' : `item ${veteranId}`} at season end.`, 'success');
+      setVeteranInput({ itemId: '', veteranId: '' });
+    } catch (error: any) {
+      console.error('Set veteran item error:', error);
+      const { message, type } = describeFailure(client, error, 'Setting the veteran item failed', id => getItem(id).name);
+      onNotification(message, type);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   const handleResetSelected = async () => {
-    if (!contract || !account) return;
     const addresses = parseAddresses();
     if (addresses.length === 0) {
       onNotification('Please enter at least one valid address.', 'warning');
@@ -84,69 +205,302 @@ const AdminPanel: React.FC<AdminPanelProps> = ({ web3, account, contractAddress,
 
     setIsLoading(true);
     try {
-      await contract.methods.resetPlayers(addresses).send({ from: account });
+      await client.write(({ token }) => token.resetPlayers, addresses);
       onNotification('Player balances reset successfully.', 'success');
       onInventoryUpdate();
       setAddressInput('');
     } catch (error: any) {
       console.error('Reset players error:', error);
-      onNotification(error?.message || 'Reset failed', 'error');
+      const { message, type } = describeFailure(client, error, 'Reset failed', id => getItem(id).name);
+      onNotification(message, type);
     } finally {
       setIsLoading(false);
     }
   };
 
-  const handleResetAll = async () => {
-    if (!contract || !account) return;
-    if (!window.confirm('Reset ALL tracked players? This may fail if the list is large.')) {
+  // End the current season and start the next; players are settled into it lazily
+  const handleStartSeason = async () => {
+    const days = Number(seasonDays);
+    if (!Number.isInteger(days) || days < 0) {
+      onNotification('Enter the season length in whole days (0 for open-ended).', 'warning');
+      return;
+    }
+
+    const length = days === 0 ? 'an open-ended season' : `a ${days}-day season`;
+    if (!window.confirm(`Start ${length}? Every player starts afresh; only veteran items carry over.`)) {
       return;
     }
 
     setIsLoading(true);
     try {
-      await contract.methods.resetAllPlayers().send({ from: account });
-      onNotification('All tracked players reset successfully.', 'success');
+      const receipt = await client.write(({ token }) => token.startSeason, days * SECONDS_PER_DAY);
+      const started = client.findEvent(receipt, 'SeasonStarted');
+      onNotification(started ? `Season ${started.seasonId} started.` : 'New season started.', 'success');
       onInventoryUpdate();
+    } catch (error: any) {
+      console.error('Start season error:', error);
+      const { message, type } = describeFailure(client, error, 'Starting the season failed', id => getItem(id).name);
+      onNotification(message, type);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Reset every tracked player with resetPlayersRange, RESET_BATCH_SIZE players
+   * per transaction, from where the last pass stopped unless `restart` is set.
+   * Progress lives on-chain, so a stopped or failed pass resumes later (from any browser).
+   */
+  const handleResetAll = async (restart: boolean) => {
+    const resuming = !restart && resetProgress !== null && resetProgress.done > 0;
+    const question = resuming
+      ? `Resume resetting players from ${resetProgress.done} of ${resetProgress.total}?`
+      : `Reset ALL tracked players? This runs in batches of ${RESET_BATCH_SIZE} players per transaction.`;
+    if (!window.confirm(question)) {
+      return;
+    }
+
+    stopRequested.current = false;
+    setIsLoading(true);
+    setIsResettingAll(true);
+    try {
+      let start = resuming ? resetProgress.done : 0;
+      do {
+        await client.write(({ token }) => token.resetPlayersRange, start, RESET_BATCH_SIZE);
+        onInventoryUpdate();
+
+        const progress = await loadResetProgress();
+        start = progress.done;
+        if (start === 0) {
+          setResetProgress({ done: progress.total, total: progress.total });
+        }
+      } while (start !== 0 && !stopRequested.current);
+
+      if (start === 0) {
+        onNotification('All tracked players reset successfully.', 'success');
+        setResetProgress(null);
+      } else {
+        onNotification(`Reset paused after ${start} players. Resume to continue.`, 'info');
+      }
     } catch (error: any) {
       console.error('Reset all players error:', error);
-      onNotification(error?.message || 'Reset all failed', 'error');
+      const { message, type } = describeFailure(client, error, 'Reset all failed', id => getItem(id).name);
+      onNotification(message, type);
+      loadResetProgress().catch(() => {});
     } finally {
       setIsLoading(false);
+      setIsResettingAll(false);
     }
   };
 
-  if (!isOwner) {
+  if (!hasAnyRole(roles)) {
     return null;
   }
 
+  const heldRoles = ROLE_KEYS.filter(role => roles[role]);
+
   return (
     <div className="admin-panel">
       <div className="admin-header">
         <h3>Admin Controls</h3>
-        <span className="admin-owner">Owner: {ownerAddress}</span>
+        <span className="admin-roles">Your roles: {heldRoles.map(role => ROLE_LABELS[role]).join(', ')}</span>
       </div>
 
-      <div className="admin-section">
-        <label htmlFor="reset-addresses">Reset specific players (comma or newline separated):</label>
-        <textarea
-          id="reset-addresses"
-          value={addressInput}
-          onChange={(e) => setAddressInput(e.target.value)}
-          placeholder="0xabc...\n0xdef..."
-          rows={4}
-          disabled={isLoading}
-        />
-        <button className="admin-button" onClick={handleResetSelected} disabled={isLoading}>
-          {isLoading ? 'Processing...' : 'Reset Selected Players'}
-        </button>
-      </div>
+      {roles.pauser && (
+        <div className="admin-section">
+          <label>Emergency pause:</label>
+          <ul className="pause-list">
+            {ACTION_KEYS.map(action => (
+              <li key={action}>
+                <span>
+                  {ACTION_LABELS[action]}: <strong>{pausedActions[action] ? 'paused' : 'running'}</strong>
+                </span>
+                <button
+                  className={`admin-button ${pausedActions[action] ? '' : 'danger'}`}
+                  onClick={() => handleSetPaused(action, !pausedActions[action])}
+                  disabled={isLoading}
+                  aria-label={`${pausedActions[action] ? 'Resume' : 'Pause'} ${ACTION_LABELS[action]}`}
+                >
+                  {pausedActions[action] ? 'Resume' : 'Pause'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
 
-      <div className="admin-section danger">
-        <p className="warning">Danger zone: resets all tracked players (gas heavy).</p>
-        <button className="admin-button danger" onClick={handleResetAll} disabled={isLoading}>
-          {isLoading ? 'Processing...' : 'Reset All Players'}
-        </button>
-      </div>
+      {roles.admin && (
+        <div className="admin-section">
+          <label htmlFor="role-account">Grant or revoke a role:</label>
+          <div className="admin-actions">
+            <input
+              id="role-account"
+              type="text"
+              value={roleAccount}
+              onChange={(e) => setRoleAccount(e.target.value)}
+              placeholder="0x..."
+              disabled={isLoading}
+            />
+            <select
+              aria-label="Role"
+              value={selectedRole}
+              onChange={(e) => setSelectedRole(e.target.value as GameRole)}
+              disabled={isLoading}
+            >
+              {ROLE_KEYS.map(role => (
+                <option key={role} value={role}>
+                  {ROLE_LABELS[role]}
+                </option>
+              ))}
+            </select>
+            <button className="admin-button" onClick={() => handleRoleChange(true)} disabled={isLoading}>
+              Grant
+            </button>
+            <button className="admin-button danger" onClick={() => handleRoleChange(false)} disabled={isLoading}>
+              Revoke
+            </button>
+          </div>
+        </div>
+      )}
+
+      {roles.minter && (
+        <div className="admin-section">
+          <label htmlFor="mint-address">Mint to player:</label>
+          <div className="admin-actions">
+            <input
+              id="mint-address"
+              type="text"
+              value={mintAddress}
+              onChange={(e) => setMintAddress(e.target.value)}
+              placeholder="0x..."
+              disabled={isLoading}
+            />
+            <input
+              aria-label="Mint amount"
+              type="number"
+              min={1}
+              value={mintAmount}
+              onChange={(e) => setMintAmount(e.target.value)}
+              disabled={isLoading}
+            />
+            <button className="admin-button" onClick={() => handleMint('mintEnergy', 'Energy')} disabled={isLoading}>
+              Mint Energy
+            </button>
+            <button className="admin-button" onClick={() => handleMint('mintGold', 'Gold')} disabled={isLoading}>
+              Mint Gold
+            </button>
+          </div>
+        </div>
+      )}
+
+      {roles.configAdmin && (
+        <div className="admin-section">
+          <label htmlFor="veteran-item">Item carried over at season end (veteran item ID, 0 to let it expire):</label>
+          <div className="admin-actions">
+            <input
+              id="veteran-item"
+              type="number"
+              min={1}
+              placeholder="Item"
+              value={veteranInput.itemId}
+              onChange={(e) => setVeteranInput({ ...veteranInput, itemId: e.target.value })}
+              disabled={isLoading}
+            />
+            <input
+              aria-label="Veteran item ID"
+              type="number"
+              min={0}
+              placeholder="Veteran"
+              value={veteranInput.veteranId}
+              onChange={(e) => setVeteranInput({ ...veteranInput, veteranId: e.target.value })}
+              disabled={isLoading}
+            />
+            <button className="admin-button" onClick={handleSetVeteranItem} disabled={isLoading}>
+              Set Veteran Item
+            </button>
+          </div>
+        </div>
+      )}
+
+      {roles.gameMaster && (
+        <>
+          <div className="admin-section">
+            <label htmlFor="reset-addresses">Reset specific players (comma or newline separated):</label>
+            <textarea
+              id="reset-addresses"
+              value={addressInput}
+              onChange={(e) => setAddressInput(e.target.value)}
+              placeholder="0xabc...\n0xdef..."
+              rows={4}
+              disabled={isLoading}
+            />
+            <button className="admin-button" onClick={handleResetSelected} disabled={isLoading}>
+              {isLoading ? 'Processing...' : 'Reset Selected Players'}
+            </button>
+          </div>
+
+          <div className="admin-section">
+            <label htmlFor="season-days">New season length in days (0 for open-ended):</label>
+            <div className="admin-actions">
+              <input
+                id="season-days"
+                type="number"
+                min={0}
+                value={seasonDays}
+                onChange={(e) => setSeasonDays(e.target.value)}
+                disabled={isLoading}
+              />
+              <button className="admin-button" onClick={handleStartSeason} disabled={isLoading}>
+                Start New Season
+              </button>
+            </div>
+          </div>
+
+          <div className="admin-section danger">
+            <p className="warning">
+              Danger zone: resets all tracked players, {RESET_BATCH_SIZE} per transaction.
+            </p>
+            {resetProgress && (resetProgress.done > 0 || isResettingAll) && (
+              <div className="reset-progress">
+                <div
+                  className="reset-progress-bar"
+                  role="progressbar"
+                  aria-label="Players reset"
+                  aria-valuemin={0}
+                  aria-valuemax={resetProgress.total}
+                  aria-valuenow={resetProgress.done}
+                >
+                  <div style={{ width: `${resetProgress.total ? (resetProgress.done / resetProgress.total) * 100 : 0}%` }} />
+                </div>
+                <span>
+                  {resetProgress.done} / {resetProgress.total} players reset
+                  {!isResettingAll && ' (unfinished)'}
+                </span>
+              </div>
+            )}
+            <div className="admin-actions">
+              {isResettingAll ? (
+                <button className="admin-button" onClick={() => (stopRequested.current = true)}>
+                  Stop after this batch
+                </button>
+              ) : resetProgress && resetProgress.done > 0 ? (
+                <>
+                  <button className="admin-button danger" onClick={() => handleResetAll(false)} disabled={isLoading}>
+                    Resume Reset
+                  </button>
+                  <button className="admin-button" onClick={() => handleResetAll(true)} disabled={isLoading}>
+                    Start Over
+                  </button>
+                </>
+              ) : (
+                <button className="admin-button danger" onClick={() => handleResetAll(true)} disabled={isLoading}>
+                  {isLoading ? 'Processing...' : 'Reset All Players'}
+                </button>
+              )}
+            </div>
+          </div>
+        </>
+      )}
     </div>
   );
 };
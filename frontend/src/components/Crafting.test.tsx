@@ -0,0 +1,127 @@
+import React from 'react';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Crafting from './Crafting';
+import {
+  createFakeClient,
+  createFakeContract,
+  FakeContractHandlers,
+  fakeInventory,
+  renderWithClient,
+  revertWith,
+} from '../testUtils/fakeContract';
+import { NOTHING_PAUSED, PausedActions } from '../game/pause';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const RECIPES = [
+  // 3 Common -> Rare
+  { inputIds: [1001], inputAmounts: [3], goldCost: 0, outputId: 1002, outputAmount: 1, maxPerPlayer: 0, enabled: true },
+  // 5 Epic + 1000 Gold -> Legendary #1, once per player
+  { inputIds: [1003], inputAmounts: [5], goldCost: 1000, outputId: 2001, outputAmount: 1, maxPerPlayer: 1, enabled: true },
+];
+
+const setup = (
+  balances: { [id: number]: number },
+  craftCounts: { [recipeId: number]: number } = {},
+  overrides: FakeContractHandlers = {},
+  paused: PausedActions = NOTHING_PAUSED
+) => {
+  const contract = createFakeContract({
+    call: {
+      getRecipeCount: () => RECIPES.length,
+      getRecipe: (id: number) => RECIPES[id],
+      getInventory: fakeInventory(balances, craftCounts),
+    },
+    send: overrides.send,
+  });
+  const props = {
+    onNotification: jest.fn(),
+    onInventoryUpdate: jest.fn(),
+    onEthBalanceUpdate: jest.fn(),
+  };
+
+  renderWithClient(<Crafting refreshKey={0} paused={paused} {...props} />, createFakeClient(contract, { account: ACCOUNT }));
+  return { contract, ...props };
+};
+
+const selectRecipe = async (label: string) => {
+  const picker = await screen.findByLabelText('Recipe:');
+  userEvent.selectOptions(picker, screen.getByRole('option', { name: label }));
+};
+
+describe('Crafting', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('disables Craft without enough materials', async () => {
+    setup({ 1001: 2 });
+
+    expect(await screen.findByText('❌ 3 Common Sword', { exact: false })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Craft' })).toBeDisabled();
+  });
+
+  it('enables Craft once the materials are owned', async () => {
+    setup({ 1001: 3 });
+
+    expect(await screen.findByText('✅ 3 Common Sword', { exact: false })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Craft' })).toBeEnabled();
+  });
+
+  it('disables crafting while it is paused', async () => {
+    setup({ 1001: 3 }, {}, {}, { ...NOTHING_PAUSED, crafting: true });
+
+    expect(await screen.findByText('✅ 3 Common Sword', { exact: false })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Crafting Paused' })).toBeDisabled();
+  });
+
+  it('requires the gold cost as well as the materials', async () => {
+    setup({ 1003: 5, 2: 999 });
+
+    await selectRecipe('Craft Legendary Sword #1');
+
+    expect(screen.getByText('❌ 1000 Gold', { exact: false })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Craft' })).toBeDisabled();
+  });
+
+  it('disables a capped recipe once the player reached its limit', async () => {
+    setup({ 1003: 5, 2: 1000 }, { 1: 1 });
+
+    await selectRecipe('Craft Legendary Sword #1');
+
+    expect(screen.getByText('Crafted 1/1', { exact: false })).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Craft' })).toBeDisabled();
+  });
+
+  it('crafts the selected recipe and refreshes the inventory', async () => {
+    const { contract, onNotification, onInventoryUpdate } = setup({ 1001: 3 }, {}, { send: { craftItem: () => ({}) } });
+
+    const button = await screen.findByRole('button', { name: 'Craft' });
+    await waitFor(() => expect(button).toBeEnabled());
+    userEvent.click(button);
+
+    await waitFor(() => expect(onNotification).toHaveBeenCalledWith('Crafted Rare Sword!', 'success'));
+    expect(contract.sent.map(tx => [tx.method, ...tx.args])).toEqual([['craftItem', 0]]);
+    expect(onInventoryUpdate).toHaveBeenCalled();
+  });
+
+  it.each([
+    ['InsufficientBalance', [1001, 3, 5], 'Not enough Common Sword: you have 3, need 5.', 'warning'],
+    ['InsufficientBalance', [2, 0, 50], 'Not enough Gold: you have 0, need 50.', 'warning'],
+    ['CraftLimitReached', [0, 1], 'You already crafted this item the maximum number of times.', 'info'],
+    ['RecipeDisabled', [0], 'This recipe is currently disabled.', 'info'],
+  ])('maps the %s revert to a notification', async (name, args, message, type) => {
+    const { onNotification } = setup({ 1001: 3 }, {}, { send: { craftItem: () => revertWith(name, ...args) } });
+
+    const button = await screen.findByRole('button', { name: 'Craft' });
+    await waitFor(() => expect(button).toBeEnabled());
+    userEvent.click(button);
+
+    await waitFor(() => expect(onNotification).toHaveBeenCalledWith(message, type));
+  });
+});
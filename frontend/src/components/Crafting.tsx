@@ -1,179 +1,81 @@
 import React, { useEffect, useState } from 'react';
-import { Web3 } from 'web3';
-import DungeonTokenABI from '../abis/DungeonToken.json';
+import { Recipe, useCraft, useGameClient, useInventory } from '../game/gameClientContext';
+import { describeFailure } from '../game/gameErrors';
+import { ITEM_IDS, useItemCatalog } from '../game/itemCatalog';
+import { NOTHING_PAUSED, PausedActions } from '../game/pause';
 import './Crafting.scss';
 
 interface CraftingProps {
-  web3: Web3;
-  account: string;
-  contractAddress: string;
   onNotification: (message: string, type: 'success' | 'error' | 'warning' | 'info') => void;
   onInventoryUpdate: () => void;
   refreshKey: number;
   onEthBalanceUpdate: () => void;
+  paused?: PausedActions;
 }
 
-interface DungeonContractMethod {
-  call(): Promise<any>;
-  send(options: { from: string }): Promise<any>;
-  estimateGas(options: { from: string }): Promise<string>;
-}
-
-interface DungeonContractInstance {
-  methods: {
-    balanceOf(address: string, tokenId: number): { call(): Promise<string> };
-    hasCraftedLegendary(address: string, tokenId: number): { call(): Promise<boolean> };
-    craftRareSword(): DungeonContractMethod;
-    craftEpicSword(): DungeonContractMethod;
-    craftLegendarySword(legendaryId: number): DungeonContractMethod;
-  };
-}
-
-type RecipeType = 'rare' | 'epic' | 'legendary';
-
-// Token IDs from smart contract
-const TOKEN_IDS = {
-  GOLD: 2,
-  COMMON: 1001,
-  RARE: 1002,
-  EPIC: 1003,
-  LEGENDARY_IDS: [2001, 2002, 2003, 2004, 2005],
-};
-
 /**
  * Crafting Component
  * Allows players to upgrade swords by combining materials
- * Recipes:
+ * Recipes are read from the contract's recipe registry, e.g.:
  * - Rare: 3 common swords → 1 rare sword
  * - Epic: 2 rare swords → 1 epic sword
- * - Legendary: 5 epic swords + 1000 gold → 1 legendary sword (5 variants)
+ * - Legendary: 5 epic swords + 1000 gold → 1 legendary sword (once per variant)
  */
-const Crafting: React.FC<CraftingProps> = ({ web3, account, contractAddress, onNotification, onInventoryUpdate, refreshKey, onEthBalanceUpdate }) => {
-  // Contract and UI state
-  const [contract, setContract] = useState<DungeonContractInstance | null>(null);
-  const [selectedRecipe, setSelectedRecipe] = useState<RecipeType>('rare');
-  const [legendaryId, setLegendaryId] = useState<number>(TOKEN_IDS.LEGENDARY_IDS[0]);
+const Crafting: React.FC<CraftingProps> = ({
+  onNotification,
+  onInventoryUpdate,
+  refreshKey,
+  onEthBalanceUpdate,
+  paused = NOTHING_PAUSED,
+}) => {
+  const client = useGameClient();
+  const [selectedRecipeId, setSelectedRecipeId] = useState<number | null>(null);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [gasEstimate, setGasEstimate] = useState<string>('~0.001 ETH');
-  
-  // Player resource balances
-  const [balances, setBalances] = useState({
-    common: 0,
-    rare: 0,
-    epic: 0,
-    gold: 0,
-  });
-  
-  // Track which legendary variants player has already crafted
-  const [legendaryAlreadyCrafted, setLegendaryAlreadyCrafted] = useState<Set<number>>(new Set());
 
-  // Initialize contract when wallet connects
-  useEffect(() => {
-    if (web3 && account && contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000') {
-      const dungeonContract = new web3.eth.Contract(
-        DungeonTokenABI.abi as any,
-        contractAddress
-      ) as unknown as DungeonContractInstance;
-      setContract(dungeonContract);
-    }
-  }, [web3, account, contractAddress]);
+  // Enabled recipes and how many times the player has crafted each one (for per-player caps)
+  const { recipes, craftCounts, reload: reloadRecipes, craft } = useCraft(refreshKey);
 
-  /**
-   * Load player's sword and gold balances from blockchain
-   * Also checks which legendary variants they've already crafted
-   */
-  const loadBalances = async () => {
-    if (!contract || !account) return;
+  // Player balances for every token used by a recipe, plus gold
+  const materialIds = Array.from(new Set([ITEM_IDS.GOLD, ...recipes.flatMap(recipe => recipe.inputIds)])).sort((a, b) => a - b);
+  const { getBalance, reload: reloadBalances } = useInventory(materialIds, refreshKey);
 
-    try {
-      // Fetch all balance in parallel
-      const [common, rare, epic, gold] = await Promise.all([
-        contract.methods.balanceOf(account, TOKEN_IDS.COMMON).call(),
-        contract.methods.balanceOf(account, TOKEN_IDS.RARE).call(),
-        contract.methods.balanceOf(account, TOKEN_IDS.EPIC).call(),
-        contract.methods.balanceOf(account, TOKEN_IDS.GOLD).call(),
-      ]);
+  const { getItem } = useItemCatalog();
+  const getTokenName = (id: number) => getItem(id).name;
 
-      setBalances({
-        common: Number(common),
-        rare: Number(rare),
-        epic: Number(epic),
-        gold: Number(gold),
-      });
-
-      // Check which legendary variants have been crafted (prevent duplicates)
-      const craftedLegendaries = new Set<number>();
-      for (const legId of TOKEN_IDS.LEGENDARY_IDS) {
-        const hasCrafted = await contract.methods.hasCraftedLegendary(account, legId).call();
-        if (hasCrafted) {
-          craftedLegendaries.add(legId);
-        }
-      }
-      setLegendaryAlreadyCrafted(craftedLegendaries);
-    } catch (error) {
-      console.error('Error loading crafting balances:', error);
-    }
-  };
-
-  // Reload balances when contract/account changes or inventory is updated
+  // Keep the selection on a recipe that still exists
   useEffect(() => {
-    if (contract && account) {
-      loadBalances();
-    }
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [contract, account, refreshKey]);
+    setSelectedRecipeId(prev =>
+      prev !== null && recipes.some(recipe => recipe.id === prev) ? prev : recipes[0]?.id ?? null
+    );
+  }, [recipes]);
 
-  /**
-   * Estimate gas cost for a specific contract method
-   * Returns formatted cost in ETH
-   */
-  const estimateGas = async (method: DungeonContractMethod) => {
-    try {
-      const gas = await method.estimateGas({ from: account });
-      const gasPrice = await web3.eth.getGasPrice();
-      const gasCost = BigInt(gas) * BigInt(gasPrice);
-      const costInEth = web3.utils.fromWei(gasCost.toString(), 'ether');
-      return `~${parseFloat(costInEth).toFixed(4)} ETH`;
-    } catch (error) {
-      return '~0.001 ETH';
-    }
-  };
+  const selectedRecipe = recipes.find(recipe => recipe.id === selectedRecipeId) || null;
 
-  const canCraftRare = balances.common >= 3;
-  const canCraftEpic = balances.rare >= 2;
-  const canCraftLegendary = balances.epic >= 5 && balances.gold >= 1000;
+  const hasReachedLimit = (recipe: Recipe) =>
+    recipe.maxPerPlayer > 0 && (craftCounts[recipe.id] || 0) >= recipe.maxPerPlayer;
 
-  const canCraft =
-    selectedRecipe === 'rare'
-      ? canCraftRare
-      : selectedRecipe === 'epic'
-      ? canCraftEpic
-      : canCraftLegendary;
+  const hasMaterials = (recipe: Recipe) =>
+    recipe.inputIds.every((id, index) => getBalance(id) >= recipe.inputAmounts[index]) &&
+    getBalance(ITEM_IDS.GOLD) >= recipe.goldCost;
+
+  const canCraft = selectedRecipe !== null && hasMaterials(selectedRecipe) && !hasReachedLimit(selectedRecipe);
 
   /**
-   * Update gas estimate when recipe or legendary variant selection changes
+   * Update gas estimate when the selected recipe changes
    */
   const updateGasEstimate = async () => {
-    if (!contract || !account) return;
+    if (selectedRecipe === null) return;
 
-    if (!canCraft || (selectedRecipe === 'legendary' && legendaryAlreadyCrafted.has(legendaryId))) {
+    if (!canCraft) {
       setGasEstimate('N/A');
       return;
     }
 
     try {
-      let method: DungeonContractMethod;
-      if (selectedRecipe === 'rare') {
-        method = contract.methods.craftRareSword();
-      } else if (selectedRecipe === 'epic') {
-        method = contract.methods.craftEpicSword();
-      } else {
-        method = contract.methods.craftLegendarySword(legendaryId);
-      }
-      const estimate = await estimateGas(method);
-      setGasEstimate(estimate);
+      setGasEstimate(await client.estimateCost(({ token }) => token.craftItem, selectedRecipe.id));
     } catch (error) {
-      console.error('Error estimating craft gas:', error);
+      setGasEstimate('~0.001 ETH');
     }
   };
 
@@ -181,12 +83,12 @@ const Crafting: React.FC<CraftingProps> = ({ web3, account, contractAddress, onN
   useEffect(() => {
     updateGasEstimate();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [contract, account, selectedRecipe, legendaryId, canCraft, legendaryAlreadyCrafted]);
+  }, [client, selectedRecipeId, canCraft]);
 
   const handleCraft = async () => {
-    if (!contract || !account) return;
-    if (selectedRecipe === 'legendary' && legendaryAlreadyCrafted.has(legendaryId)) {
-      onNotification('You already crafted this legendary variant!', 'warning');
+    if (selectedRecipe === null) return;
+    if (hasReachedLimit(selectedRecipe)) {
+      onNotification(`You already crafted the maximum number of ${getTokenName(selectedRecipe.outputId)}s!`, 'warning');
       return;
     }
     if (!canCraft) {
@@ -196,49 +98,21 @@ const Crafting: React.FC<CraftingProps> = ({ web3, account, contractAddress, onN
 
     setIsLoading(true);
     try {
-      if (selectedRecipe === 'rare') {
-        await contract.methods.craftRareSword().send({ from: account });
-        onNotification('Crafted Rare Sword!', 'success');
-      } else if (selectedRecipe === 'epic') {
-        await contract.methods.craftEpicSword().send({ from: account });
-        onNotification('Crafted Epic Sword!', 'success');
-      } else {
-        await contract.methods.craftLegendarySword(legendaryId).send({ from: account });
-        onNotification('Crafted Legendary Sword!', 'success');
-      }
+      await craft(selectedRecipe.id);
+      onNotification(`Crafted ${getTokenName(selectedRecipe.outputId)}!`, 'success');
 
-      await loadBalances();
+      await Promise.all([reloadRecipes(), reloadBalances()]);
       onInventoryUpdate();
       onEthBalanceUpdate();
     } catch (error: any) {
       console.error('Error crafting item:', error);
-      const message = error?.message || 'Crafting failed';
-      if (message.toLowerCase().includes('insufficient common swords')) {
-        onNotification('Need 3 Common Swords to craft a Rare Sword.', 'warning');
-      } else if (message.toLowerCase().includes('insufficient rare swords')) {
-        onNotification('Need 2 Rare Swords to craft an Epic Sword.', 'warning');
-      } else if (message.toLowerCase().includes('insufficient epic swords')) {
-        onNotification('Need 5 Epic Swords to craft a Legendary Sword.', 'warning');
-      } else if (message.toLowerCase().includes('insufficient gold')) {
-        onNotification('Need 1000 Gold to craft a Legendary Sword.', 'warning');
-      } else if (message.toLowerCase().includes('already crafted this legendary variant')) {
-        onNotification('You already crafted this legendary variant.', 'info');
-      } else {
-        onNotification(message, 'error');
-      }
+      const { message, type } = describeFailure(client, error, 'Crafting failed', getTokenName);
+      onNotification(message, type);
     } finally {
       setIsLoading(false);
     }
   };
 
-  if (!contract) {
-    return (
-      <div className="crafting-container">
-        <p className="crafting-empty">Connect your wallet to use crafting.</p>
-      </div>
-    );
-  }
-
   return (
     <div className="crafting-container">
       <div className="crafting-header">
@@ -247,85 +121,69 @@ const Crafting: React.FC<CraftingProps> = ({ web3, account, contractAddress, onN
       </div>
 
       <div className="crafting-balances">
-        <div className="balance-item">Common: <strong>{balances.common}</strong></div>
-        <div className="balance-item">Rare: <strong>{balances.rare}</strong></div>
-        <div className="balance-item">Epic: <strong>{balances.epic}</strong></div>
-        <div className="balance-item">Gold: <strong>{balances.gold}</strong></div>
-      </div>
-
-      <div className="recipe-selector">
-        <button
-          className={selectedRecipe === 'rare' ? 'active' : ''}
-          onClick={() => setSelectedRecipe('rare')}
-          disabled={isLoading}
-        >
-          Craft Rare Sword
-        </button>
-        <button
-          className={selectedRecipe === 'epic' ? 'active' : ''}
-          onClick={() => setSelectedRecipe('epic')}
-          disabled={isLoading}
-        >
-          Craft Epic Sword
-        </button>
-        <button
-          className={selectedRecipe === 'legendary' ? 'active' : ''}
-          onClick={() => setSelectedRecipe('legendary')}
-          disabled={isLoading}
-        >
-          Craft Legendary Sword
-        </button>
+        {materialIds.map(id => (
+          <div key={id} className="balance-item">{getTokenName(id)}: <strong>{getBalance(id)}</strong></div>
+        ))}
       </div>
 
-      {selectedRecipe === 'legendary' && (
-        <div className="legendary-selector">
-          <label htmlFor="legendaryId">Legendary Variant:</label>
-          <select
-            id="legendaryId"
-            value={legendaryId}
-            onChange={(e) => setLegendaryId(Number(e.target.value))}
-            disabled={isLoading}
-          >
-            {TOKEN_IDS.LEGENDARY_IDS.map((id, index) => (
-              <option key={id} value={id}>Legendary Sword #{index + 1}</option>
-            ))}
-          </select>
-        </div>
+      {recipes.length === 0 ? (
+        <p className="crafting-empty">No recipes available right now.</p>
+      ) : (
+        <>
+          <div className="recipe-picker">
+            <label htmlFor="recipeId">Recipe:</label>
+            <select
+              id="recipeId"
+              value={selectedRecipeId ?? ''}
+              onChange={(e) => setSelectedRecipeId(Number(e.target.value))}
+              disabled={isLoading}
+            >
+              {recipes.map(recipe => (
+                <option key={recipe.id} value={recipe.id}>
+                  Craft {recipe.outputAmount > 1 ? `${recipe.outputAmount}x ` : ''}{getTokenName(recipe.outputId)}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {selectedRecipe && (
+            <div className="recipe-details">
+              <h3>Requirements</h3>
+              <ul>
+                {selectedRecipe.inputIds.map((id, index) => {
+                  const ok = getBalance(id) >= selectedRecipe.inputAmounts[index];
+                  return (
+                    <li key={id} className={ok ? 'ok' : 'bad'}>
+                      {ok ? '✅' : '❌'} {selectedRecipe.inputAmounts[index]} {getTokenName(id)}
+                    </li>
+                  );
+                })}
+                {selectedRecipe.goldCost > 0 && (
+                  <li className={getBalance(ITEM_IDS.GOLD) >= selectedRecipe.goldCost ? 'ok' : 'bad'}>
+                    {getBalance(ITEM_IDS.GOLD) >= selectedRecipe.goldCost ? '✅' : '❌'} {selectedRecipe.goldCost} Gold
+                  </li>
+                )}
+                {selectedRecipe.maxPerPlayer > 0 && (
+                  <li className={hasReachedLimit(selectedRecipe) ? 'bad' : 'ok'}>
+                    {hasReachedLimit(selectedRecipe) ? '⚠️' : 'ℹ️'} Crafted {craftCounts[selectedRecipe.id] || 0}/{selectedRecipe.maxPerPlayer}
+                  </li>
+                )}
+              </ul>
+            </div>
+          )}
+
+          <div className="crafting-actions">
+            <button
+              className="craft-button"
+              onClick={handleCraft}
+              disabled={isLoading || !canCraft || paused.crafting}
+            >
+              {isLoading ? 'Crafting...' : paused.crafting ? 'Crafting Paused' : 'Craft'}
+            </button>
+            <div className="action-cost">{gasEstimate}</div>
+          </div>
+        </>
       )}
-
-      <div className="recipe-details">
-        <h3>Requirements</h3>
-        {selectedRecipe === 'rare' && (
-          <ul>
-            <li className={canCraftRare ? 'ok' : 'bad'}>{canCraftRare ? '✅' : '❌'} 3 Common Swords</li>
-          </ul>
-        )}
-        {selectedRecipe === 'epic' && (
-          <ul>
-            <li className={canCraftEpic ? 'ok' : 'bad'}>{canCraftEpic ? '✅' : '❌'} 2 Rare Swords</li>
-          </ul>
-        )}
-        {selectedRecipe === 'legendary' && (
-          <ul>
-            <li className={balances.epic >= 5 ? 'ok' : 'bad'}>{balances.epic >= 5 ? '✅' : '❌'} 5 Epic Swords</li>
-            <li className={balances.gold >= 1000 ? 'ok' : 'bad'}>{balances.gold >= 1000 ? '✅' : '❌'} 1000 Gold</li>
-            {legendaryAlreadyCrafted.has(legendaryId) && (
-              <li className="bad">⚠️ Already crafted this variant</li>
-            )}
-          </ul>
-        )}
-      </div>
-
-      <div className="crafting-actions">
-        <button
-          className="craft-button"
-          onClick={handleCraft}
-          disabled={isLoading || !canCraft || (selectedRecipe === 'legendary' && legendaryAlreadyCrafted.has(legendaryId))}
-        >
-          {isLoading ? 'Crafting...' : 'Craft'}
-        </button>
-        <div className="action-cost">{gasEstimate}</div>
-      </div>
     </div>
   );
 };
@@ -0,0 +1,237 @@
+import React from 'react';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Dungeon from './Dungeon';
+import {
+  createFakeClient,
+  createFakeContract,
+  FAKE_TOKEN_ADDRESS,
+  FakeContractHandlers,
+  fakeInventory,
+  renderWithClient,
+  revertWith,
+} from '../testUtils/fakeContract';
+import { NOTHING_PAUSED, PausedActions } from '../game/pause';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const NOW = 1_800_000_000_000;
+
+const CATACOMBS = {
+  name: 'Catacombs',
+  energyCost: 1,
+  lootIds: [1001, 1002, 1003],
+  lootWeights: [70, 20, 10],
+  goldMin: 20,
+  goldMax: 50,
+  enabled: true,
+};
+
+interface PlayerState {
+  energy?: number;
+  claimed?: boolean;
+  lastClaim?: number;
+  dungeonCommitBlock?: number;
+}
+
+const setup = (player: PlayerState = {}, overrides: FakeContractHandlers = {}, paused: PausedActions = NOTHING_PAUSED) => {
+  const contract = createFakeContract({
+    call: {
+      getDungeonCount: () => 1,
+      getDungeon: () => CATACOMBS,
+      hasClaimedStarterPack: () => player.claimed ?? false,
+      randomnessCoordinator: () => '0x0000000000000000000000000000000000000000',
+      getInventory: () => fakeInventory({ 1: player.energy ?? 0, 2: 100 })(),
+      pendingRuns: (_: string, kind: number) => ({
+        commitBlock: kind === 0 ? player.dungeonCommitBlock ?? 0 : 0,
+        dungeonId: 0,
+      }),
+      pendingLootRequests: () => 0,
+      lastTimeRewardClaim: () => BigInt(player.lastClaim ?? 0),
+      ...overrides.call,
+    },
+    send: overrides.send,
+  });
+  const client = createFakeClient(contract, { account: ACCOUNT, blockNumber: 100 });
+  const props = {
+    onNotification: jest.fn(),
+    onBalanceUpdate: jest.fn(),
+    onInventoryUpdate: jest.fn(),
+    onEthBalanceUpdate: jest.fn(),
+  };
+
+  const { rerender } = renderWithClient(<Dungeon paused={paused} {...props} />, client);
+  return { contract, client, rerender, ...props };
+};
+
+describe('Dungeon', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW);
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('button enablement', () => {
+    it('disables Run Dungeon without enough energy', async () => {
+      const { onBalanceUpdate } = setup({ energy: 0 });
+
+      await waitFor(() => expect(onBalanceUpdate).toHaveBeenCalledWith(0, 100));
+      expect(await screen.findByRole('button', { name: 'Run Dungeon' })).toBeDisabled();
+    });
+
+    it('enables Run Dungeon once the player can pay the energy cost', async () => {
+      setup({ energy: 3 });
+
+      await waitFor(() => expect(screen.getByRole('button', { name: 'Run Dungeon' })).toBeEnabled());
+    });
+
+    it('disables paused actions and leaves the others alone', async () => {
+      const { onBalanceUpdate } = setup({ energy: 3 }, {}, { ...NOTHING_PAUSED, dungeonRuns: true });
+
+      await waitFor(() => expect(onBalanceUpdate).toHaveBeenCalledWith(3, 100));
+      expect(screen.getByRole('button', { name: 'Dungeon Runs Paused' })).toBeDisabled();
+      expect(screen.getByRole('button', { name: 'Claim Starter Pack' })).toBeEnabled();
+    });
+
+    it('picks up energy received elsewhere when refreshKey changes', async () => {
+      const player: PlayerState = { energy: 0 };
+      const { client, rerender, onBalanceUpdate, ...props } = setup(player);
+      await waitFor(() => expect(onBalanceUpdate).toHaveBeenCalledWith(0, 100));
+
+      // e.g. an admin mint, seen in a later block
+      player.energy = 5;
+      (client.provider.getBlockNumber as jest.Mock).mockResolvedValue(101);
+      rerender(<Dungeon {...props} onBalanceUpdate={onBalanceUpdate} refreshKey={1} />);
+
+      await waitFor(() => expect(onBalanceUpdate).toHaveBeenCalledWith(5, 100));
+      await waitFor(() => expect(screen.getByRole('button', { name: 'Run Dungeon' })).toBeEnabled());
+    });
+
+    it('disables the starter pack once claimed', async () => {
+      setup({ claimed: true });
+
+      expect(await screen.findByRole('button', { name: 'Starter Pack Claimed' })).toBeDisabled();
+    });
+
+    it('keeps Reveal Loot disabled while waiting for the reveal block', async () => {
+      setup({ energy: 3, dungeonCommitBlock: 99 });
+
+      expect(await screen.findByText('Reveal in 2 blocks')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Reveal Loot' })).toBeDisabled();
+    });
+  });
+
+  describe('time reward countdown', () => {
+    it('shows the time left until the next claim', async () => {
+      setup({ lastClaim: NOW / 1000 - 60 });
+
+      expect(await screen.findByText('Next Claim Available In:')).toBeInTheDocument();
+      expect(screen.getByText('4m 0s')).toBeInTheDocument();
+      expect(screen.getByRole('button', { name: 'Time Rewards Cooldown' })).toBeDisabled();
+    });
+
+    it('offers the claim once the cooldown has passed', async () => {
+      setup({ lastClaim: NOW / 1000 - 5 * 60 });
+
+      expect(await screen.findByRole('button', { name: '✓ Claim Time Rewards' })).toBeEnabled();
+      expect(screen.queryByText('Next Claim Available In:')).not.toBeInTheDocument();
+    });
+  });
+
+  describe('revert messages', () => {
+    it('maps InsufficientBalance to a warning', async () => {
+      const { onNotification } = setup(
+        { energy: 3 },
+        { send: { commitDungeonRun: () => revertWith('InsufficientBalance', 1, 0, 1) } }
+      );
+
+      const button = await screen.findByRole('button', { name: 'Run Dungeon' });
+      await waitFor(() => expect(button).toBeEnabled());
+      userEvent.click(button);
+
+      await waitFor(() =>
+        expect(onNotification).toHaveBeenCalledWith('Not enough Energy: you have 0, need 1.', 'warning')
+      );
+    });
+
+    it('maps RunAlreadyPending to a warning', async () => {
+      const { onNotification } = setup(
+        { energy: 3 },
+        { send: { commitDungeonRun: () => revertWith('RunAlreadyPending', 0) } }
+      );
+
+      const button = await screen.findByRole('button', { name: 'Run Dungeon' });
+      await waitFor(() => expect(button).toBeEnabled());
+      userEvent.click(button);
+
+      await waitFor(() =>
+        expect(onNotification).toHaveBeenCalledWith('Reveal your current dungeon run before starting another.', 'warning')
+      );
+    });
+
+    it('keeps the seed of the pending run when a commit reverts', async () => {
+      const seedKey = `dungeon-seed:${FAKE_TOKEN_ADDRESS.toLowerCase()}:${ACCOUNT.toLowerCase()}:0`;
+      const { onNotification } = setup(
+        { energy: 3 },
+        { send: { commitDungeonRun: () => revertWith('RunAlreadyPending', 0) } }
+      );
+      localStorage.setItem(seedKey, '0x01');
+
+      const button = await screen.findByRole('button', { name: 'Run Dungeon' });
+      await waitFor(() => expect(button).toBeEnabled());
+      userEvent.click(button);
+
+      await waitFor(() => expect(onNotification).toHaveBeenCalled());
+      expect(localStorage.getItem(seedKey)).toBe('0x01');
+    });
+
+    it('maps StarterPackAlreadyClaimed to an info message', async () => {
+      const { onNotification } = setup(
+        {},
+        { send: { claimStarterPack: () => revertWith('StarterPackAlreadyClaimed') } }
+      );
+
+      userEvent.click(await screen.findByRole('button', { name: 'Claim Starter Pack' }));
+
+      await waitFor(() =>
+        expect(onNotification).toHaveBeenCalledWith('Starter pack already claimed for this wallet.', 'info')
+      );
+    });
+
+    it('passes unknown errors through as errors', async () => {
+      const { onNotification } = setup(
+        {},
+        { send: { claimStarterPack: () => Promise.reject(new Error('User denied transaction signature')) } }
+      );
+
+      userEvent.click(await screen.findByRole('button', { name: 'Claim Starter Pack' }));
+
+      await waitFor(() =>
+        expect(onNotification).toHaveBeenCalledWith('User denied transaction signature', 'error')
+      );
+    });
+  });
+
+  it('commits a dungeon run with a stored seed', async () => {
+    const { contract, onNotification } = setup({ energy: 3 }, { send: { commitDungeonRun: () => ({}) } });
+
+    const button = await screen.findByRole('button', { name: 'Run Dungeon' });
+    await waitFor(() => expect(button).toBeEnabled());
+    userEvent.click(button);
+
+    await waitFor(() =>
+      expect(onNotification).toHaveBeenCalledWith(
+        'Entered the Catacombs! Your loot can be revealed in 3 blocks.',
+        'success'
+      )
+    );
+    const [commit] = contract.sent;
+    expect(commit.method).toBe('commitDungeonRun');
+    expect(commit.args[0]).toBe(0);
+    expect(commit.args[1]).toMatch(/^0x[0-9a-f]{64}$/);
+    expect(localStorage.getItem(`dungeon-seed:${FAKE_TOKEN_ADDRESS.toLowerCase()}:${ACCOUNT.toLowerCase()}:0`)).toMatch(/^0x/);
+  });
+});
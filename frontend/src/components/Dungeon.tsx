@@ -1,52 +1,107 @@
-import React, { useState, useEffect } from 'react';
-import { Web3 } from 'web3';
-import DungeonTokenABI from '../abis/DungeonToken.json';
+import React, { useState, useEffect, useRef } from 'react';
+import { formatUnits } from 'ethers';
+import { ZERO_ADDRESS } from '../game/dungeonGameClient';
+import { isTokenDeployed, RUN_KIND, useDungeonRun, useGameClient } from '../game/gameClientContext';
+import { describeFailure } from '../game/gameErrors';
+import { ITEM_IDS, useItemCatalog } from '../game/itemCatalog';
+import { NOTHING_PAUSED, PausedActions } from '../game/pause';
 import './Dungeon.scss';
 
 interface DungeonProps {
-  web3: Web3;
-  account: string;
-  contractAddress: string;
   onNotification: (message: string, type: 'success' | 'error' | 'warning' | 'info') => void;
   onBalanceUpdate: (energy: number, gold: number) => void;
   onInventoryUpdate: () => void;
   onEthBalanceUpdate: () => void;
+  refreshKey?: number;
+  paused?: PausedActions;
 }
 
-interface DungeonContractMethod {
-  call(): Promise<any>;
-  send(options: { from: string }): Promise<any>;
-  estimateGas(options: { from: string }): Promise<string>;
-}
+// Mirrors the DungeonToken commit-reveal block constants
+const REVEAL_DELAY = 2;
+const REVEAL_WINDOW = 250;
+const EMPTY_COMMITMENT = '0x' + '0'.repeat(64);
 
-interface DungeonContractInstance {
-  methods: {
-    hasClaimedStarterPack(address: string): DungeonContractMethod;
-    lastTimeRewardClaim(address: string): DungeonContractMethod;
-    getInventory(address: string): DungeonContractMethod;
-    claimStarterPack(): DungeonContractMethod;
-    runDungeon(): DungeonContractMethod;
-    claimTimeRewards(): DungeonContractMethod;
-  };
+type RunStatus = 'none' | 'waiting' | 'ready' | 'expired';
+
+interface PendingRunState {
+  commitBlock: number;
+  dungeonId: number;
+  status: RunStatus;
+  blocksLeft: number;
+  hasSeed: boolean;
 }
 
+const NO_PENDING_RUN: PendingRunState = { commitBlock: 0, dungeonId: 0, status: 'none', blocksLeft: 0, hasSeed: false };
+
+/**
+ * Work out where a committed run stands relative to the current block:
+ * waiting for the reveal block, revealable, or past its reveal window
+ */
+const getRunStatus = (commitBlock: number, currentBlock: number): { status: RunStatus; blocksLeft: number } => {
+  if (commitBlock === 0) return { status: 'none', blocksLeft: 0 };
+  const targetBlock = commitBlock + REVEAL_DELAY;
+  if (currentBlock <= targetBlock) {
+    return { status: 'waiting', blocksLeft: targetBlock - currentBlock + 1 };
+  }
+  if (currentBlock >= targetBlock + REVEAL_WINDOW) {
+    return { status: 'expired', blocksLeft: 0 };
+  }
+  return { status: 'ready', blocksLeft: targetBlock + REVEAL_WINDOW - currentBlock };
+};
+
 /**
  * Dungeon Component
  * Main game loop for dungeon exploration and rewards
  * Players can:
- * - Claim starter pack (100 energy, 500 gold, 1 common sword)
+ * - Claim starter pack (10 energy, 100 gold, 1 common sword)
  * - Run dungeons to earn gold and swords
- * - Claim passive time rewards every 24 hours
+ * - Claim passive time rewards every 5 minutes
+ * Dungeon runs and time rewards are two-phase: a hashed seed is committed
+ * first and revealed a few blocks later, which is when the loot is rolled.
+ * If the contract has a randomness coordinator, dungeon runs are requested
+ * instead and the loot lands when the coordinator fulfils the request.
  */
-const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNotification, onBalanceUpdate, onInventoryUpdate, onEthBalanceUpdate }) => {
-  // Contract and wallet state
-  const [contract, setContract] = useState<DungeonContractInstance | null>(null);
+const Dungeon: React.FC<DungeonProps> = ({
+  onNotification,
+  onBalanceUpdate,
+  onInventoryUpdate,
+  onEthBalanceUpdate,
+  refreshKey,
+  paused = NOTHING_PAUSED,
+}) => {
+  // Contract access and the commit-reveal actions
+  const client = useGameClient();
+  const { token: contract, account } = client;
+  const {
+    dungeons,
+    getStoredSeed,
+    commitDungeonRun,
+    commitTimeRewards,
+    reveal,
+    requestDungeonRun,
+    expireRun,
+  } = useDungeonRun();
   
   // Player balance state
   const [energy, setEnergy] = useState<number>(0);
   const [hasClaimedStarterPack, setHasClaimedStarterPack] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [isPlayerDataLoaded, setIsPlayerDataLoaded] = useState<boolean>(false);
+
+  // Commit-reveal state for dungeon runs and time rewards
+  const [pendingDungeonRun, setPendingDungeonRun] = useState<PendingRunState>(NO_PENDING_RUN);
+  const [pendingTimeReward, setPendingTimeReward] = useState<PendingRunState>(NO_PENDING_RUN);
+
+  // The dungeon tier the player is about to enter
+  const [selectedDungeonId, setSelectedDungeonId] = useState<number>(0);
+
+  // Randomness coordinator state (VRF-style loot fulfilment)
+  const [usesCoordinator, setUsesCoordinator] = useState<boolean>(false);
+  const [pendingLootRequests, setPendingLootRequests] = useState<number>(0);
+  // Last block already scanned for DungeonRun events while awaiting loot
+  const lootCheckedBlock = useRef<number>(0);
+
+  const { getItem } = useItemCatalog();
   
   // Gas estimation state (for UI display)
   const [gasEstimates, setGasEstimates] = useState<{
@@ -69,30 +124,34 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
   const [priorityFee, setPriorityFee] = useState<string>('--');
   const [totalGas, setTotalGas] = useState<string>('--');
 
-  // Initialize contract with Web3.js
+  // Keep the selection on a dungeon that is still enabled
   useEffect(() => {
-    if (web3 && account && contractAddress && contractAddress !== '0x0000000000000000000000000000000000000000') {
-      try {
-        const dungeonContract = new web3.eth.Contract(
-          DungeonTokenABI.abi as any,
-          contractAddress
-        ) as unknown as DungeonContractInstance;
-        setContract(dungeonContract);
-      } catch (error) {
-        console.error('Error initializing contract:', error);
-        onNotification('Failed to initialize contract', 'error');
-      }
-    }
-  }, [web3, account, contractAddress, onNotification]);
+    setSelectedDungeonId(prev =>
+      dungeons.some(dungeon => dungeon.id === prev) ? prev : dungeons[0]?.id ?? 0
+    );
+  }, [dungeons]);
 
-  // Load player data when contract is ready
+  const selectedDungeon = dungeons.find(dungeon => dungeon.id === selectedDungeonId) || null;
+  const energyCost = selectedDungeon?.energyCost ?? 1;
+  const getDungeonName = (dungeonId: number) =>
+    dungeons.find(dungeon => dungeon.id === dungeonId)?.name || `Dungeon #${dungeonId}`;
+
+  // Load player data when the client (account or contract) changes
   useEffect(() => {
-    if (contract && account) {
+    if (isTokenDeployed(client)) {
       setIsPlayerDataLoaded(false);
       loadPlayerData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [contract, account]);
+  }, [client]);
+
+  // Reload balances when they changed elsewhere (incoming transfers, admin mints and resets)
+  useEffect(() => {
+    if (refreshKey && isTokenDeployed(client)) {
+      loadPlayerData();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [refreshKey]);
 
   /**
    * Load player state from blockchain:
@@ -101,21 +160,25 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
    * - Notify parent component of balance updates
    */
   const loadPlayerData = async () => {
-    if (!contract || !account) return;
-
     try {
       // Check if player has already claimed starter pack
-      const claimed = await contract.methods.hasClaimedStarterPack(account).call();
-      setHasClaimedStarterPack(claimed as boolean);
+      const claimed = await contract.hasClaimedStarterPack(account);
+      setHasClaimedStarterPack(claimed);
+
+      // Check whether dungeon loot comes from a randomness coordinator
+      const coordinator = await contract.randomnessCoordinator();
+      setUsesCoordinator(coordinator !== ZERO_ADDRESS);
 
       // Fetch player's current energy and gold balance
-      const inventory = await contract.methods.getInventory(account).call() as any;
-      const energyBalance = Number(inventory.energy);
+      const { balances } = await client.getInventory();
+      const energyBalance = balances[ITEM_IDS.ENERGY] || 0;
       
       setEnergy(energyBalance);
       
       // Notify parent of balance update
-      onBalanceUpdate(energyBalance, Number(inventory.gold));
+      onBalanceUpdate(energyBalance, balances[ITEM_IDS.GOLD] || 0);
+
+      await loadPendingRuns();
       setIsPlayerDataLoaded(true);
     } catch (error: any) {
       console.error('Error loading player data:', error);
@@ -124,36 +187,88 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
   };
 
   /**
-   * Estimate gas cost for a specific contract method
-   * Returns formatted cost in ETH (e.g., "0.0015 ETH")
+   * Load committed-but-unrevealed runs and compare them to the latest block
    */
-  const estimateGas = async (method: DungeonContractMethod) => {
+  const loadPendingRuns = async () => {
     try {
-      const gasEstimate = await method.estimateGas({ from: account });
-      const gasPrice = await web3.eth.getGasPrice();
-      const gasCost = BigInt(gasEstimate) * BigInt(gasPrice);
-      const costInEth = web3.utils.fromWei(gasCost.toString(), 'ether');
-      return `~${parseFloat(costInEth).toFixed(4)} ETH`;
+      const [dungeonRun, timeReward, currentBlock] = await Promise.all([
+        contract.pendingRuns(account, RUN_KIND.DUNGEON),
+        contract.pendingRuns(account, RUN_KIND.TIME_REWARD),
+        client.provider.getBlockNumber(),
+      ]);
+
+      const toState = (run: { commitBlock: bigint; dungeonId: bigint }, kind: number): PendingRunState => {
+        const commitBlock = Number(run.commitBlock);
+        return {
+          commitBlock,
+          dungeonId: Number(run.dungeonId),
+          ...getRunStatus(commitBlock, currentBlock),
+          hasSeed: getStoredSeed(kind) !== null,
+        };
+      };
+
+      setPendingDungeonRun(toState(dungeonRun, RUN_KIND.DUNGEON));
+      setPendingTimeReward(toState(timeReward, RUN_KIND.TIME_REWARD));
+
+      await checkLootFulfilment(currentBlock);
     } catch (error) {
-      return '~0.001 ETH';
+      console.error('Error loading pending runs:', error);
     }
   };
 
+  /**
+   * Track open coordinator requests and announce loot once the
+   * fulfilment's DungeonRun event lands
+   */
+  const checkLootFulfilment = async (currentBlock: number) => {
+    const openRequests = Number(await contract.pendingLootRequests(account));
+    setPendingLootRequests(openRequests);
+
+    if (lootCheckedBlock.current === 0 || currentBlock <= lootCheckedBlock.current) return;
+
+    const events = await contract.queryFilter(
+      contract.filters.DungeonRun(account),
+      lootCheckedBlock.current + 1,
+      currentBlock
+    );
+    lootCheckedBlock.current = openRequests > 0 ? currentBlock : 0;
+
+    if (events.length > 0) {
+      onNotification('Your dungeon loot has arrived! Check your inventory!', 'success');
+      await loadPlayerData();
+      onInventoryUpdate();
+    }
+  };
+
+  // Poll pending runs so the reveal button unlocks as blocks are mined
+  useEffect(() => {
+    if (isTokenDeployed(client)) {
+      const timer = setInterval(() => {
+        loadPendingRuns();
+      }, 4000);
+
+      return () => clearInterval(timer);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [client]);
+
+  /**
+   * Estimated cost of a transaction, or a rough default if the estimate fails
+   */
+  const estimateGas = (estimate: Promise<string>) => estimate.catch(() => '~0.001 ETH');
+
   const updateGasEstimates = async () => {
-    if (!contract || !account || !isPlayerDataLoaded) return;
+    if (!isTokenDeployed(client) || !isPlayerDataLoaded) return;
 
     try {
-      // Fetch current gas price from network
-      const gasPrice = await web3.eth.getGasPrice();
-      const gasPriceGwei = parseFloat(web3.utils.fromWei(gasPrice.toString(), 'gwei'));
-      
-      // Get latest block to extract base fee (EIP-1559)
-      const latestBlock = await web3.eth.getBlock('latest');
+      // Fetch current gas price and the latest block's base fee (EIP-1559)
+      const { gasPrice, baseFeePerGas } = await client.getGasPrices();
+      const gasPriceGwei = parseFloat(formatUnits(gasPrice, 'gwei'));
       let baseFeeGwei = 0;
       let priorityFeeGwei = 0;
       
-      if (latestBlock.baseFeePerGas) {
-        baseFeeGwei = parseFloat(web3.utils.fromWei(latestBlock.baseFeePerGas.toString(), 'gwei'));
+      if (baseFeePerGas) {
+        baseFeeGwei = parseFloat(formatUnits(baseFeePerGas, 'gwei'));
         priorityFeeGwei = gasPriceGwei - baseFeeGwei;
       } else {
         // Fallback for non-EIP-1559 networks
@@ -170,19 +285,34 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
       if (hasClaimedStarterPack) {
         setGasEstimates(prev => ({ ...prev, starterPack: 'N/A' }));
       } else {
-        const starterPackGas = await estimateGas(contract.methods.claimStarterPack());
+        const starterPackGas = await estimateGas(client.estimateCost(({ token }) => token.claimStarterPack));
         setGasEstimates(prev => ({ ...prev, starterPack: starterPackGas }));
       }
 
-      if (energy >= 1) {
-        const runDungeonGas = await estimateGas(contract.methods.runDungeon());
+      const dungeonSeed = getStoredSeed(RUN_KIND.DUNGEON);
+      if (usesCoordinator) {
+        const runDungeonGas = energy >= energyCost
+          ? await estimateGas(client.estimateCost(({ token }) => token.requestDungeonRun, selectedDungeonId))
+          : 'N/A';
+        setGasEstimates(prev => ({ ...prev, runDungeon: runDungeonGas }));
+      } else if (pendingDungeonRun.status === 'ready' && dungeonSeed) {
+        const revealGas = await estimateGas(client.estimateCost(({ token }) => token.revealDungeonRun, dungeonSeed));
+        setGasEstimates(prev => ({ ...prev, runDungeon: revealGas }));
+      } else if (pendingDungeonRun.status === 'none' && energy >= energyCost) {
+        const runDungeonGas = await estimateGas(
+          client.estimateCost(({ token }) => token.commitDungeonRun, selectedDungeonId, EMPTY_COMMITMENT)
+        );
         setGasEstimates(prev => ({ ...prev, runDungeon: runDungeonGas }));
       } else {
         setGasEstimates(prev => ({ ...prev, runDungeon: 'N/A' }));
       }
       
-      if (canClaimTimeReward) {
-        const timeRewardsGas = await estimateGas(contract.methods.claimTimeRewards());
+      const timeRewardSeed = getStoredSeed(RUN_KIND.TIME_REWARD);
+      if (pendingTimeReward.status === 'ready' && timeRewardSeed) {
+        const revealGas = await estimateGas(client.estimateCost(({ token }) => token.revealTimeRewards, timeRewardSeed));
+        setGasEstimates(prev => ({ ...prev, timeRewards: revealGas }));
+      } else if (pendingTimeReward.status === 'none' && canClaimTimeReward) {
+        const timeRewardsGas = await estimateGas(client.estimateCost(({ token }) => token.commitTimeRewards, EMPTY_COMMITMENT));
         setGasEstimates(prev => ({ ...prev, timeRewards: timeRewardsGas }));
       } else {
         setGasEstimates(prev => ({ ...prev, timeRewards: 'N/A' }));
@@ -199,11 +329,11 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
   useEffect(() => {
     updateGasEstimates();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [contract, account, energy, hasClaimedStarterPack, canClaimTimeReward, isPlayerDataLoaded]);
+  }, [client, energy, hasClaimedStarterPack, canClaimTimeReward, isPlayerDataLoaded, pendingDungeonRun.status, pendingTimeReward.status, usesCoordinator, selectedDungeonId, energyCost]);
 
   // Timer for Time Rewards (update every second)
   useEffect(() => {
-    if (contract && account) {
+    if (isTokenDeployed(client)) {
       // Call immediately on mount
       updateTimeRewardCountdown();
       
@@ -214,15 +344,12 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
       return () => clearInterval(timer);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [contract, account]);
+  }, [client]);
 
   const updateTimeRewardCountdown = async () => {
-    if (!contract || !account) return;
-
     try {
       const now = Math.floor(Date.now() / 1000); // Current time in seconds
-      const lastClaim = await contract.methods.lastTimeRewardClaim(account).call() as string;
-      const lastClaimTimestamp = parseInt(lastClaim);
+      const lastClaimTimestamp = Number(await contract.lastTimeRewardClaim(account));
       const cooldownDuration = 5 * 60; // 5 minutes in seconds
 
       const nextClaimTime = lastClaimTimestamp + cooldownDuration;
@@ -246,7 +373,6 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
   };
 
   const handleClaimStarterPack = async () => {
-    if (!contract || !account) return;
     if (hasClaimedStarterPack) {
       onNotification('Starter pack already claimed for this wallet.', 'info');
       return;
@@ -254,60 +380,81 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
 
     setIsLoading(true);
     try {
-      await contract.methods.claimStarterPack().send({ from: account });
+      await client.write(({ token }) => token.claimStarterPack);
       onNotification('Starter Pack claimed successfully! You received 10 Energy, 100 Gold, and 1 Common Sword!', 'success');
       await loadPlayerData();
       onInventoryUpdate();
       onEthBalanceUpdate();
     } catch (error: any) {
       console.error('Error claiming starter pack:', error);
-      const message = error?.message || 'Failed to claim starter pack';
-      if (message.toLowerCase().includes('starter pack already claimed')) {
-        onNotification('Starter pack already claimed for this wallet.', 'info');
-      } else {
-        onNotification(message, 'error');
-      }
+      const { message, type } = describeFailure(client, error, 'Failed to claim starter pack', id => getItem(id).name);
+      onNotification(message, type);
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleRunDungeon = async () => {
-    if (!contract || !account) return;
-    if (energy < 1) {
-      onNotification('Not enough energy to run dungeon', 'warning');
+    if (!selectedDungeon) return;
+    if (energy < energyCost) {
+      onNotification(`Not enough energy to enter the ${selectedDungeon.name}`, 'warning');
       return;
     }
 
     setIsLoading(true);
     try {
-      const inventory = await contract.methods.getInventory(account).call() as any;
-      const currentEnergy = Number(inventory.energy);
-      if (currentEnergy < 1) {
+      const { balances } = await client.getInventory();
+      const currentEnergy = balances[ITEM_IDS.ENERGY] || 0;
+      if (currentEnergy < energyCost) {
         setEnergy(currentEnergy);
-        onNotification('Not enough energy to run dungeon', 'warning');
+        onNotification(`Not enough energy to enter the ${selectedDungeon.name}`, 'warning');
         return;
       }
-      await contract.methods.runDungeon().send({ from: account });
+      if (usesCoordinator) {
+        const receipt = await requestDungeonRun(selectedDungeonId);
+        if (lootCheckedBlock.current === 0) {
+          lootCheckedBlock.current = receipt.blockNumber;
+        }
+        onNotification('Entered the dungeon! Awaiting loot from the randomness coordinator...', 'success');
+      } else {
+        await commitDungeonRun(selectedDungeonId);
+        onNotification(`Entered the ${selectedDungeon.name}! Your loot can be revealed in ${REVEAL_DELAY + 1} blocks.`, 'success');
+      }
+      await loadPlayerData();
+      onEthBalanceUpdate();
+    } catch (error: any) {
+      console.error('Error running dungeon:', error);
+      const { message, type } = describeFailure(client, error, 'Failed to run dungeon', id => getItem(id).name);
+      onNotification(message, type);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRevealDungeonRun = async () => {
+    const seed = getStoredSeed(RUN_KIND.DUNGEON);
+    if (!seed) {
+      onNotification('The seed for this run is not stored in this browser. Wait for it to expire to start a new run.', 'warning');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await reveal(RUN_KIND.DUNGEON);
       onNotification('Dungeon completed! Check your inventory for loot!', 'success');
       await loadPlayerData();
       onInventoryUpdate();
       onEthBalanceUpdate();
     } catch (error: any) {
-      console.error('Error running dungeon:', error);
-      const message = error?.message || 'Failed to run dungeon';
-      if (message.toLowerCase().includes('insufficient energy')) {
-        onNotification('Not enough energy to run dungeon', 'warning');
-      } else {
-        onNotification(message, 'error');
-      }
+      console.error('Error revealing dungeon run:', error);
+      const { message, type } = describeFailure(client, error, 'Failed to reveal dungeon run', id => getItem(id).name);
+      onNotification(message, type);
     } finally {
       setIsLoading(false);
     }
   };
 
   const handleClaimTimeRewards = async () => {
-    if (!contract || !account) return;
     if (!canClaimTimeReward) {
       onNotification('Please wait before claiming again', 'warning');
       return;
@@ -316,8 +463,7 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
     setIsLoading(true);
     try {
       const now = Math.floor(Date.now() / 1000);
-      const lastClaim = await contract.methods.lastTimeRewardClaim(account).call() as string;
-      const lastClaimTimestamp = parseInt(lastClaim);
+      const lastClaimTimestamp = Number(await contract.lastTimeRewardClaim(account));
       const cooldownDuration = 5 * 60;
       if (now < lastClaimTimestamp + cooldownDuration) {
         updateTimeRewardCountdown();
@@ -325,32 +471,94 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
         return;
       }
       // Call smart contract method - this will trigger MetaMask
-      await contract.methods.claimTimeRewards().send({ from: account });
-      onNotification('Time Rewards claimed! Check your inventory for Energy and Gold!', 'success');
+      await commitTimeRewards();
+      onNotification(`Time Rewards claimed! Reveal them in ${REVEAL_DELAY + 1} blocks.`, 'success');
       
       // Update countdown and reload data
       updateTimeRewardCountdown();
       await loadPlayerData();
-      onInventoryUpdate();
       onEthBalanceUpdate();
     } catch (error: any) {
       console.error('Error claiming time rewards:', error);
-      const message = error?.message || 'Failed to claim time rewards';
-      if (message.toLowerCase().includes('time reward cooldown not met')) {
-        onNotification('Time reward cooldown not met. Please wait before claiming again.', 'warning');
-      } else {
-        onNotification(message, 'error');
-      }
+      const { message, type } = describeFailure(client, error, 'Failed to claim time rewards', id => getItem(id).name);
+      onNotification(message, type);
     } finally {
       setIsLoading(false);
     }
   };
 
-  if (!contract) {
+  const handleRevealTimeRewards = async () => {
+    const seed = getStoredSeed(RUN_KIND.TIME_REWARD);
+    if (!seed) {
+      onNotification('The seed for these rewards is not stored in this browser. Wait for them to expire.', 'warning');
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      const receipt = await reveal(RUN_KIND.TIME_REWARD);
+      const reward = client.findEvent(receipt, 'TimeRewardClaimed');
+      onNotification(
+        reward
+          ? `Time Rewards revealed: +${reward.energy} Energy, +${reward.gold} Gold!`
+          : 'Time Rewards revealed! Check your inventory for Energy and Gold!',
+        'success'
+      );
+      await loadPlayerData();
+      onInventoryUpdate();
+      onEthBalanceUpdate();
+    } catch (error: any) {
+      console.error('Error revealing time rewards:', error);
+      const { message, type } = describeFailure(client, error, 'Failed to reveal time rewards', id => getItem(id).name);
+      onNotification(message, type);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Clear a commitment whose reveal window has passed.
+   * Whatever was spent on the commit (energy or cooldown) is forfeited.
+   */
+  const handleExpireRun = async (kind: number) => {
+    setIsLoading(true);
+    try {
+      await expireRun(kind);
+      onNotification('Expired run cleared. You can start a new one.', 'info');
+      await loadPlayerData();
+      onEthBalanceUpdate();
+    } catch (error: any) {
+      console.error('Error expiring run:', error);
+      const { message, type } = describeFailure(client, error, 'Failed to clear expired run', id => getItem(id).name);
+      onNotification(message, type);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  /**
+   * Describe a pending run for the status panel
+   */
+  const describePendingRun = (run: PendingRunState): string => {
+    switch (run.status) {
+      case 'waiting':
+        return `Reveal in ${run.blocksLeft} block${run.blocksLeft === 1 ? '' : 's'}`;
+      case 'ready':
+        return run.hasSeed
+          ? `Ready to reveal (${run.blocksLeft} blocks left)`
+          : `Seed not found in this browser, expires in ${run.blocksLeft} blocks`;
+      case 'expired':
+        return 'Expired - clear it to play again';
+      default:
+        return '';
+    }
+  };
+
+  if (!isTokenDeployed(client)) {
     return (
       <div className="dungeon-container">
         <p className="no-contract-message">
-          ⚠️ Please set contract address in App.tsx
+          ⚠️ The game is not deployed on this network. Switch to a supported network to play.
         </p>
       </div>
     );
@@ -372,14 +580,78 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
         </div>
       )}
 
+      {/* Pending Commit-Reveal Runs */}
+      {pendingDungeonRun.status !== 'none' && (
+        <div className="pending-run">
+          <span className="pending-icon">⏳</span>
+          <span className="pending-label">{getDungeonName(pendingDungeonRun.dungeonId)}:</span>
+          <span className="pending-status">{describePendingRun(pendingDungeonRun)}</span>
+        </div>
+      )}
+      {pendingLootRequests > 0 && (
+        <div className="pending-run">
+          <span className="pending-icon">🎲</span>
+          <span className="pending-label">Dungeon Run:</span>
+          <span className="pending-status">
+            Awaiting loot{pendingLootRequests > 1 ? ` (${pendingLootRequests} runs)` : ''}...
+          </span>
+        </div>
+      )}
+      {pendingTimeReward.status !== 'none' && (
+        <div className="pending-run">
+          <span className="pending-icon">⏳</span>
+          <span className="pending-label">Time Rewards:</span>
+          <span className="pending-status">{describePendingRun(pendingTimeReward)}</span>
+        </div>
+      )}
+
+      {/* Dungeon Picker */}
+      {dungeons.length > 0 && (
+        <div className="dungeon-picker">
+          <label htmlFor="dungeonId">Dungeon:</label>
+          <select
+            id="dungeonId"
+            value={selectedDungeonId}
+            onChange={(e) => setSelectedDungeonId(Number(e.target.value))}
+            disabled={isLoading}
+          >
+            {dungeons.map(dungeon => (
+              <option key={dungeon.id} value={dungeon.id}>
+                {dungeon.name} ({dungeon.energyCost} Energy)
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       <div className="dungeon-actions">
-        <button 
-          className="action-button run-dungeon"
-          onClick={handleRunDungeon}
-          disabled={isLoading || energy < 1}
-        >
-          {isLoading ? 'Processing...' : 'Run Dungeon'}
-        </button>
+        {pendingDungeonRun.status === 'none' && (
+          <button 
+            className="action-button run-dungeon"
+            onClick={handleRunDungeon}
+            disabled={isLoading || !selectedDungeon || energy < energyCost || paused.dungeonRuns}
+          >
+            {isLoading ? 'Processing...' : paused.dungeonRuns ? 'Dungeon Runs Paused' : 'Run Dungeon'}
+          </button>
+        )}
+        {(pendingDungeonRun.status === 'waiting' || pendingDungeonRun.status === 'ready') && (
+          <button 
+            className="action-button run-dungeon"
+            onClick={handleRevealDungeonRun}
+            disabled={isLoading || pendingDungeonRun.status === 'waiting' || !pendingDungeonRun.hasSeed}
+          >
+            {isLoading ? 'Processing...' : 'Reveal Loot'}
+          </button>
+        )}
+        {pendingDungeonRun.status === 'expired' && (
+          <button 
+            className="action-button run-dungeon"
+            onClick={() => handleExpireRun(RUN_KIND.DUNGEON)}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Processing...' : 'Clear Expired Run'}
+          </button>
+        )}
         <div className="action-cost">{gasEstimates.runDungeon}</div>
 
         <button 
@@ -391,14 +663,38 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
         </button>
         <div className="action-cost">{gasEstimates.starterPack}</div>
 
-        <button 
-          className="action-button claim-rewards"
-          onClick={handleClaimTimeRewards}
-          disabled={isLoading || !canClaimTimeReward}
-          title={canClaimTimeReward ? 'Claim your daily rewards!' : `Available in ${timeRewardCountdown}`}
-        >
-          {canClaimTimeReward ? '✓ Claim Time Rewards' : 'Time Rewards Cooldown'}
-        </button>
+        {pendingTimeReward.status === 'none' && (
+          <button 
+            className="action-button claim-rewards"
+            onClick={handleClaimTimeRewards}
+            disabled={isLoading || !canClaimTimeReward || paused.timeRewards}
+            title={canClaimTimeReward ? 'Claim your daily rewards!' : `Available in ${timeRewardCountdown}`}
+          >
+            {paused.timeRewards
+              ? 'Time Rewards Paused'
+              : canClaimTimeReward
+                ? '✓ Claim Time Rewards'
+                : 'Time Rewards Cooldown'}
+          </button>
+        )}
+        {(pendingTimeReward.status === 'waiting' || pendingTimeReward.status === 'ready') && (
+          <button 
+            className="action-button claim-rewards"
+            onClick={handleRevealTimeRewards}
+            disabled={isLoading || pendingTimeReward.status === 'waiting' || !pendingTimeReward.hasSeed}
+          >
+            {isLoading ? 'Processing...' : 'Reveal Time Rewards'}
+          </button>
+        )}
+        {pendingTimeReward.status === 'expired' && (
+          <button 
+            className="action-button claim-rewards"
+            onClick={() => handleExpireRun(RUN_KIND.TIME_REWARD)}
+            disabled={isLoading}
+          >
+            {isLoading ? 'Processing...' : 'Clear Expired Rewards'}
+          </button>
+        )}
         <div className="action-cost">{gasEstimates.timeRewards}</div>
       </div>
 
@@ -419,21 +715,33 @@ const Dungeon: React.FC<DungeonProps> = ({ web3, account, contractAddress, onNot
         </button>
       </div>
 
-      <div className="loot-chances">
-        <h3>Loot Chances:</h3>
-        <ul>
-          <li><span className="chance">70%</span> - Common Sword</li>
-          <li><span className="chance">20%</span> - Rare Sword</li>
-          <li><span className="chance">10%</span> - Epic Sword</li>
-        </ul>
-      </div>
-
-      <div className="loot-chances dungeon-cost-note">
-        <h3>Dungeon Cost:</h3>
-        <ul>
-          <li><span className="chance">Cost:</span> 1 Energy per run</li>
-        </ul>
-      </div>
+      {selectedDungeon && (
+        <>
+          <div className="loot-chances">
+            <h3>Loot Chances ({selectedDungeon.name}):</h3>
+            <ul>
+              {selectedDungeon.lootIds.map((lootId, index) => {
+                const totalWeight = selectedDungeon.lootWeights.reduce((sum, weight) => sum + weight, 0);
+                const chance = (selectedDungeon.lootWeights[index] / totalWeight) * 100;
+                return (
+                  <li key={lootId}>
+                    <span className="chance">{Number(chance.toFixed(1))}%</span> - {getItem(lootId).icon} {getItem(lootId).name}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+
+          <div className="loot-chances dungeon-cost-note">
+            <h3>Dungeon Cost:</h3>
+            <ul>
+              <li><span className="chance">Cost:</span> {selectedDungeon.energyCost} Energy per run</li>
+              <li><span className="chance">Gold:</span> {selectedDungeon.goldMin}-{selectedDungeon.goldMax} per run</li>
+              <li><span className="chance">Reveal:</span> {REVEAL_DELAY + 1} blocks after entering, within {REVEAL_WINDOW} blocks</li>
+            </ul>
+          </div>
+        </>
+      )}
 
       <div className="loot-chances time-rewards-info">
         <h3>Time Rewards (5min cooldown):</h3>
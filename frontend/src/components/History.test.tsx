@@ -0,0 +1,67 @@
+import React from 'react';
+import { screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import History from './History';
+import { ZERO_ADDRESS } from '../game/dungeonGameClient';
+import { createFakeClient, createFakeContract, fakeEventLog, renderWithClient } from '../testUtils/fakeContract';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const FRIEND = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+// The fake answers every filter of an event name with the same logs, so each
+// transfer comes back from both the "from" and the "to" query
+const fakeClient = () =>
+  createFakeClient(
+    createFakeContract({
+      call: {
+        getDungeonCount: () => BigInt(1),
+        getDungeon: () => ({ name: 'Catacombs' }),
+      },
+      events: {
+        DungeonRun: [fakeEventLog('DungeonRun', [ACCOUNT, 0, 1003, 1, 25], 10)],
+        ItemCrafted: [fakeEventLog('ItemCrafted', [ACCOUNT, 1002, 1], 12)],
+        TimeRewardClaimed: [fakeEventLog('TimeRewardClaimed', [ACCOUNT, 2, 7], 14)],
+        TransferSingle: [
+          fakeEventLog('TransferSingle', [ACCOUNT, ACCOUNT, FRIEND, 1001, 3], 13),
+          fakeEventLog('TransferSingle', [ZERO_ADDRESS, ZERO_ADDRESS, ACCOUNT, 1003, 1], 10, 1),
+        ],
+        TransferBatch: [fakeEventLog('TransferBatch', [FRIEND, FRIEND, ACCOUNT, [1, 2], [5, 50]], 11)],
+      },
+    }),
+    { account: ACCOUNT }
+  );
+
+const expectEntries = (titles: string[]) => {
+  const entries = screen.getAllByRole('listitem');
+  expect(entries).toHaveLength(titles.length);
+  titles.forEach((title, index) => expect(entries[index]).toHaveTextContent(title));
+};
+
+describe('History', () => {
+  it('merges the player events into one list, newest first, without mints or duplicates', async () => {
+    renderWithClient(<History refreshKey={0} />, fakeClient());
+
+    expect(await screen.findByText('Claimed time rewards')).toBeInTheDocument();
+    expectEntries([
+      'Claimed time rewards',
+      'Sent to 0x3C44...93BC',
+      'Crafted Rare Sword',
+      'Received from 0x3C44...93BC',
+      'Ran Catacombs',
+    ]);
+
+    const [, sent, , received, run] = screen.getAllByRole('listitem');
+    expect(within(sent).getByText('3× Common Sword')).toBeInTheDocument();
+    expect(within(received).getByText('5× Energy, 50× Gold')).toBeInTheDocument();
+    expect(within(run).getByText('1× Epic Sword + 25 Gold')).toBeInTheDocument();
+  });
+
+  it('filters the list by kind', async () => {
+    renderWithClient(<History refreshKey={0} />, fakeClient());
+    await screen.findByText('Claimed time rewards');
+
+    userEvent.click(screen.getByRole('button', { name: 'Transfers' }));
+
+    expectEntries(['Sent to 0x3C44...93BC', 'Received from 0x3C44...93BC']);
+  });
+});
@@ -0,0 +1,180 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useGameClient } from '../game/gameClientContext';
+import { GameEvent, isPlayerTransfer, loadGameEvents } from '../game/gameEvents';
+import { useItemCatalog } from '../game/itemCatalog';
+import './History.scss';
+
+interface HistoryProps {
+  refreshKey: number;
+}
+
+type HistoryKind = 'dungeon' | 'reward' | 'craft' | 'transfer' | 'other';
+
+interface HistoryEntry {
+  id: string;
+  kind: HistoryKind;
+  icon: string;
+  title: string;
+  detail: string;
+  timestamp: number;
+  transactionHash: string;
+}
+
+const HISTORY_EVENTS = [
+  'DungeonRun',
+  'TimeRewardClaimed',
+  'ItemCrafted',
+  'StarterPackClaimed',
+  'PlayerReset',
+  'TransferSingle',
+  'TransferBatch',
+];
+
+// Mints and burns also arrive as transfers and are skipped, so fetch extra
+const FETCH_LIMIT = 200;
+const DISPLAY_LIMIT = 50;
+
+const FILTERS: { value: 'all' | HistoryKind; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: 'dungeon', label: 'Dungeons' },
+  { value: 'reward', label: 'Rewards' },
+  { value: 'craft', label: 'Crafting' },
+  { value: 'transfer', label: 'Transfers' },
+];
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+/**
+ * History Component
+ * Chronological log of the player's dungeon runs, time rewards,
+ * crafts and transfers, built from the contract's events
+ */
+const History: React.FC<HistoryProps> = ({ refreshKey }) => {
+  const client = useGameClient();
+  const { account } = client;
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [filter, setFilter] = useState<'all' | HistoryKind>('all');
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const { getItem } = useItemCatalog();
+
+  // Turn a raw event into a log line (null for events that are not shown)
+  const toEntry = useCallback((event: GameEvent, dungeonNames: { [key: number]: string }): HistoryEntry | null => {
+    const base = { id: event.id, timestamp: event.timestamp, transactionHash: event.transactionHash };
+    const args = event.args;
+
+    switch (event.name) {
+      case 'DungeonRun': {
+        const item = getItem(Number(args.lootId));
+        const dungeonId = Number(args.dungeonId);
+        return {
+          ...base,
+          kind: 'dungeon',
+          icon: '⚔️',
+          title: `Ran ${dungeonNames[dungeonId] || `Dungeon #${dungeonId}`}`,
+          detail: `${args.amount}× ${item.name} + ${args.gold} Gold`,
+        };
+      }
+      case 'TimeRewardClaimed':
+        return { ...base, kind: 'reward', icon: '⏰', title: 'Claimed time rewards', detail: `+${args.energy} Energy, +${args.gold} Gold` };
+      case 'StarterPackClaimed':
+        return { ...base, kind: 'reward', icon: '🎁', title: 'Claimed starter pack', detail: '' };
+      case 'ItemCrafted':
+        return { ...base, kind: 'craft', icon: '⚒️', title: `Crafted ${getItem(Number(args.resultId)).name}`, detail: `×${args.amount}` };
+      case 'PlayerReset':
+        return { ...base, kind: 'other', icon: '♻️', title: 'Progress reset by admin', detail: '' };
+      default:
+        break;
+    }
+
+    if (!isPlayerTransfer(event)) return null;
+
+    const ids = event.name === 'TransferSingle' ? [args.id as string] : (args.ids as string[]);
+    const values = event.name === 'TransferSingle' ? [args.value as string] : (args.values as string[]);
+    const items = ids.map((id, index) => `${values[index]}× ${getItem(Number(id)).name}`).join(', ');
+    const isOutgoing = (args.from as string).toLowerCase() === account.toLowerCase();
+
+    return {
+      ...base,
+      kind: 'transfer',
+      icon: isOutgoing ? '📤' : '📥',
+      title: isOutgoing ? `Sent to ${shortAddress(args.to as string)}` : `Received from ${shortAddress(args.from as string)}`,
+      detail: items,
+    };
+  }, [account, getItem]);
+
+  const loadHistory = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [events, dungeonCount] = await Promise.all([
+        loadGameEvents(client, { names: HISTORY_EVENTS, player: client.account, limit: FETCH_LIMIT }),
+        client.token.getDungeonCount(),
+      ]);
+
+      const dungeons = await Promise.all(
+        Array.from({ length: Number(dungeonCount) }, (_, id) => client.token.getDungeon(id))
+      );
+      const dungeonNames = Object.fromEntries(dungeons.map((dungeon, id) => [id, dungeon.name]));
+
+      setEntries(
+        events
+          .map(event => toEntry(event, dungeonNames))
+          .filter((entry): entry is HistoryEntry => entry !== null)
+          .slice(0, DISPLAY_LIMIT)
+      );
+    } catch (error) {
+      console.error('Error loading history:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, toEntry]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, refreshKey]);
+
+  const visibleEntries = entries.filter(entry => filter === 'all' || entry.kind === filter);
+
+  return (
+    <div className="history-container">
+      <div className="history-header">
+        <div className="history-icon">📜</div>
+        <h2>History</h2>
+      </div>
+
+      <div className="history-filters">
+        {FILTERS.map(option => (
+          <button
+            key={option.value}
+            className={filter === option.value ? 'active' : ''}
+            onClick={() => setFilter(option.value)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      {isLoading && entries.length === 0 ? (
+        <p className="history-empty">Loading history...</p>
+      ) : visibleEntries.length === 0 ? (
+        <p className="history-empty">No activity yet.</p>
+      ) : (
+        <ul className="history-list">
+          {visibleEntries.map(entry => (
+            <li key={entry.id} className={`history-entry ${entry.kind}`}>
+              <span className="entry-icon">{entry.icon}</span>
+              <div className="entry-body">
+                <span className="entry-title">{entry.title}</span>
+                {entry.detail && <span className="entry-detail">{entry.detail}</span>}
+              </div>
+              <span className="entry-time" title={entry.transactionHash}>
+                {entry.timestamp ? new Date(entry.timestamp * 1000).toLocaleString() : ''}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default History;
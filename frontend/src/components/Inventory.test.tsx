@@ -0,0 +1,69 @@
+import React from 'react';
+import { screen } from '@testing-library/react';
+import Inventory from './Inventory';
+import {
+  createFakeClient,
+  createFakeContract,
+  FakeClientOptions,
+  fakeInventory,
+  renderWithClient,
+} from '../testUtils/fakeContract';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const fakeClient = (balances: { [id: number]: number }, options: Partial<FakeClientOptions> = {}) =>
+  createFakeClient(
+    createFakeContract({
+      call: { getInventory: fakeInventory(balances) },
+    }),
+    { account: ACCOUNT, ...options }
+  );
+
+describe('Inventory', () => {
+  it('lists owned items with their quantities', async () => {
+    renderWithClient(<Inventory refreshKey={0} />, fakeClient({ 1001: 4, 1003: 1 }));
+
+    expect(await screen.findByText('Common Sword')).toBeInTheDocument();
+    expect(screen.getByText('x4')).toBeInTheDocument();
+    expect(screen.getByText('Epic Sword')).toBeInTheDocument();
+    expect(screen.queryByText('Rare Sword')).not.toBeInTheDocument();
+  });
+
+  it('does not list resources', async () => {
+    renderWithClient(<Inventory refreshKey={0} />, fakeClient({ 1: 10, 2: 100, 1002: 1 }));
+
+    expect(await screen.findByText('Rare Sword')).toBeInTheDocument();
+    expect(screen.queryByText('Energy')).not.toBeInTheDocument();
+    expect(screen.queryByText('Gold')).not.toBeInTheDocument();
+  });
+
+  it('shows the empty state when nothing is owned', async () => {
+    renderWithClient(<Inventory refreshKey={0} />, fakeClient({}));
+
+    expect(await screen.findByText('No items yet!')).toBeInTheDocument();
+  });
+
+  it('reloads balances when refreshKey changes', async () => {
+    const balances: { [id: number]: number } = {};
+    const client = fakeClient(balances);
+    const { rerender } = renderWithClient(<Inventory refreshKey={0} />, client);
+    expect(await screen.findByText('No items yet!')).toBeInTheDocument();
+
+    // Balances are read once per block, so the change lands in a new one
+    balances[1002] = 2;
+    (client.provider.getBlockNumber as jest.Mock).mockResolvedValue(101);
+    rerender(<Inventory refreshKey={1} />);
+
+    expect(await screen.findByText('Rare Sword')).toBeInTheDocument();
+    expect(screen.getByText('x2')).toBeInTheDocument();
+  });
+
+  it('asks for a contract address while none is configured', () => {
+    renderWithClient(
+      <Inventory refreshKey={0} />,
+      fakeClient({}, { addresses: { dungeonToken: '0x0000000000000000000000000000000000000000' } })
+    );
+
+    expect(screen.getByText('The game is not deployed on this network. Switch to a supported network to play.')).toBeInTheDocument();
+  });
+});
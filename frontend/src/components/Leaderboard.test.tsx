@@ -0,0 +1,49 @@
+import React from 'react';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Leaderboard from './Leaderboard';
+import * as indexerClient from '../game/indexerClient';
+import { createFakeClient, createFakeContract, fakeEventLog, renderWithClient } from '../testUtils/fakeContract';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const renderLeaderboard = () =>
+  renderWithClient(
+    <Leaderboard refreshKey={0} />,
+    createFakeClient(
+      createFakeContract({
+        call: { getPlayerCount: () => BigInt(1), getPlayerAt: () => ACCOUNT },
+        events: { DungeonRun: [fakeEventLog('DungeonRun', [ACCOUNT, 0, 1001, 1, 25], 10)] },
+      }),
+      { account: ACCOUNT }
+    )
+  );
+
+describe('Leaderboard', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('labels the widest window as recent blocks without the indexer', async () => {
+    renderLeaderboard();
+
+    expect(await screen.findByText('You')).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'All Time' })).not.toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Recent' })).toHaveClass('active');
+    expect(
+      screen.getByText('Counts the last 50,000 blocks. Run the event indexer for all-time rankings.')
+    ).toBeInTheDocument();
+
+    userEvent.click(screen.getByRole('button', { name: 'This Week' }));
+    expect(screen.queryByText(/Counts the last/)).not.toBeInTheDocument();
+  });
+
+  it('offers all-time rankings with the indexer', async () => {
+    jest.spyOn(indexerClient, 'isIndexerEnabled').mockReturnValue(true);
+    jest.spyOn(indexerClient, 'fetchEvents').mockResolvedValue([]);
+    renderLeaderboard();
+
+    expect(await screen.findByRole('button', { name: 'All Time' })).toHaveClass('active');
+    expect(screen.queryByText(/Counts the/)).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,177 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { useGameClient } from '../game/gameClientContext';
+import { EVENT_BLOCK_RANGE, GameEvent, loadGameEvents } from '../game/gameEvents';
+import { isIndexerEnabled } from '../game/indexerClient';
+import { useItemCatalog } from '../game/itemCatalog';
+import {
+  buildLeaderboards,
+  LEADERBOARD_EVENTS,
+  LeaderboardKind,
+  LeaderboardRow,
+  LeaderboardWindow,
+} from '../game/leaderboard';
+import './Leaderboard.scss';
+
+interface LeaderboardProps {
+  refreshKey: number;
+}
+
+const BOARDS: { kind: LeaderboardKind; label: string }[] = [
+  { kind: 'runs', label: 'Dungeon Runs' },
+  { kind: 'epicDrops', label: 'Epic Drops' },
+  { kind: 'goldEarned', label: 'Gold Earned' },
+  { kind: 'legendaryCollectors', label: 'Legendary Set' },
+];
+
+const WINDOWS: { value: LeaderboardWindow; label: string }[] = [
+  { value: 'daily', label: 'Today' },
+  { value: 'weekly', label: 'This Week' },
+  { value: 'all-time', label: 'All Time' },
+];
+
+const TOP_ROWS = 10;
+const MAX_EVENTS = 10000;
+
+// Without the indexer, events are read from the node for the last
+// EVENT_BLOCK_RANGE blocks only, so the widest window is labelled as recent
+const windowLabel = (value: LeaderboardWindow, label: string) =>
+  value === 'all-time' && !isIndexerEnabled() ? 'Recent' : label;
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+/**
+ * Leaderboard Component
+ * Rankings for dungeon runs, epic drops, gold earned and the race to
+ * craft all five legendaries, over daily, weekly or all-time windows
+ * (all-time needs the event indexer; without it the window is recent blocks).
+ * The connected account is highlighted (and shown below the top 10).
+ */
+const Leaderboard: React.FC<LeaderboardProps> = ({ refreshKey }) => {
+  const client = useGameClient();
+  const { account } = client;
+  const [events, setEvents] = useState<GameEvent[]>([]);
+  const [players, setPlayers] = useState<string[]>([]);
+  const [board, setBoard] = useState<LeaderboardKind>('runs');
+  const [timeWindow, setTimeWindow] = useState<LeaderboardWindow>('all-time');
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+  const { items } = useItemCatalog();
+
+  // Events are loaded once (all-time) and windows are applied in memory
+  const loadLeaderboard = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const playerCount = Number(await client.token.getPlayerCount());
+      const [loadedEvents, registeredPlayers] = await Promise.all([
+        loadGameEvents(client, { names: LEADERBOARD_EVENTS, limit: MAX_EVENTS }),
+        Promise.all(Array.from({ length: playerCount }, (_, index) => client.token.getPlayerAt(index))),
+      ]);
+      setEvents(loadedEvents);
+      setPlayers(registeredPlayers);
+    } catch (error) {
+      console.error('Error loading leaderboard:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    loadLeaderboard();
+  }, [loadLeaderboard, refreshKey]);
+
+  const leaderboards = useMemo(
+    () =>
+      buildLeaderboards(events, players, {
+        window: timeWindow,
+        now: Math.floor(Date.now() / 1000),
+        epicIds: items.filter(item => item.rarity === 'epic').map(item => item.id),
+        legendaryIds: items.filter(item => item.rarity === 'legendary').map(item => item.id),
+      }),
+    [events, players, timeWindow, items]
+  );
+
+  const coverageNote =
+    timeWindow !== 'all-time'
+      ? null
+      : !isIndexerEnabled()
+        ? `Counts the last ${EVENT_BLOCK_RANGE.toLocaleString()} blocks. Run the event indexer for all-time rankings.`
+        : events.length >= MAX_EVENTS
+          ? `Counts the latest ${MAX_EVENTS.toLocaleString()} events only.`
+          : null;
+
+  const rows = leaderboards[board];
+  const topRows = rows.slice(0, TOP_ROWS);
+  const ownRow = rows.find(row => row.player === account.toLowerCase());
+  const showOwnRow = ownRow !== undefined && !topRows.includes(ownRow);
+
+  const formatValue = (row: LeaderboardRow) => {
+    if (board === 'legendaryCollectors') return new Date(row.value * 1000).toLocaleDateString();
+    if (board === 'goldEarned') return `${row.value} Gold`;
+    return row.value.toString();
+  };
+
+  const renderRow = (row: LeaderboardRow) => {
+    const isOwn = row.player === account.toLowerCase();
+    return (
+      <li key={row.player} className={`leaderboard-row ${isOwn ? 'own' : ''}`}>
+        <span className="row-rank">#{row.rank}</span>
+        <span className="row-player">{isOwn ? 'You' : shortAddress(row.player)}</span>
+        <span className="row-value">{formatValue(row)}</span>
+      </li>
+    );
+  };
+
+  return (
+    <div className="leaderboard-container">
+      <div className="leaderboard-header">
+        <div className="leaderboard-icon">🏆</div>
+        <h2>Leaderboard</h2>
+      </div>
+
+      <div className="leaderboard-boards">
+        {BOARDS.map(option => (
+          <button
+            key={option.kind}
+            className={board === option.kind ? 'active' : ''}
+            onClick={() => setBoard(option.kind)}
+          >
+            {option.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="leaderboard-windows">
+        {WINDOWS.map(option => (
+          <button
+            key={option.value}
+            className={timeWindow === option.value ? 'active' : ''}
+            onClick={() => setTimeWindow(option.value)}
+          >
+            {windowLabel(option.value, option.label)}
+          </button>
+        ))}
+      </div>
+
+      {coverageNote && <p className="leaderboard-note">{coverageNote}</p>}
+
+      {isLoading && events.length === 0 ? (
+        <p className="leaderboard-empty">Loading rankings...</p>
+      ) : topRows.length === 0 ? (
+        <p className="leaderboard-empty">
+          {board === 'legendaryCollectors' ? 'Nobody has collected all five legendaries yet.' : 'No players yet.'}
+        </p>
+      ) : (
+        <ol className="leaderboard-list">
+          {topRows.map(renderRow)}
+          {showOwnRow && (
+            <>
+              <li className="leaderboard-gap">…</li>
+              {renderRow(ownRow)}
+            </>
+          )}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,295 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useGameClient, useInventory } from '../game/gameClientContext';
+import { describeFailure } from '../game/gameErrors';
+import { ITEM_IDS, Rarity, useItemCatalog } from '../game/itemCatalog';
+import { NOTHING_PAUSED, PausedActions } from '../game/pause';
+import './Marketplace.scss';
+
+interface MarketplaceProps {
+  onNotification: (message: string, type: 'success' | 'error' | 'warning' | 'info') => void;
+  onEthBalanceUpdate: () => void;
+  onInventoryUpdate: () => void;
+  refreshKey: number;
+  paused?: PausedActions;
+}
+
+// Listing as stored in the Marketplace contract
+interface Listing {
+  id: number;
+  seller: string;
+  itemId: number;
+  remaining: number;
+  pricePerUnit: number;
+  active: boolean;
+}
+
+type RarityFilter = 'all' | Exclude<Rarity, 'resource'>;
+
+const RARITY_FILTERS: RarityFilter[] = ['all', 'common', 'rare', 'epic', 'legendary'];
+
+/**
+ * Marketplace Component
+ * Fixed-price listings priced in Gold: browse and filter by rarity,
+ * buy any quantity of a listing, or list your own items for sale
+ */
+const Marketplace: React.FC<MarketplaceProps> = ({
+  onNotification,
+  onEthBalanceUpdate,
+  onInventoryUpdate,
+  refreshKey,
+  paused = NOTHING_PAUSED,
+}) => {
+  const client = useGameClient();
+  const { account } = client;
+  const [listings, setListings] = useState<Listing[]>([]);
+  const [feeBps, setFeeBps] = useState<number>(0);
+  const [rarityFilter, setRarityFilter] = useState<RarityFilter>('all');
+  const [buyAmounts, setBuyAmounts] = useState<{ [key: number]: string }>({});
+  const [listItemId, setListItemId] = useState<number | null>(null);
+  const [listAmount, setListAmount] = useState<string>('1');
+  const [listPrice, setListPrice] = useState<string>('10');
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const catalog = useItemCatalog();
+
+  const isDeployed = client.contracts.marketplace !== null;
+  const sellableItems = catalog.items.filter(item => item.id !== ITEM_IDS.GOLD && !item.soulbound);
+
+  // The player's balances of gold and every sellable item
+  const { getBalance, reload: reloadBalances } = useInventory(
+    [ITEM_IDS.GOLD, ...sellableItems.map(item => item.id)],
+    refreshKey
+  );
+
+  // Load all active listings and the fee
+  const loadMarket = useCallback(async () => {
+    if (!client.contracts.marketplace) return;
+
+    try {
+      const { marketplace } = client;
+      const count = Number(await marketplace.getListingCount());
+      const rawListings = await Promise.all(
+        Array.from({ length: count }, (_, id) => marketplace.getListing(id))
+      );
+      setListings(
+        rawListings
+          .map((raw, id) => ({
+            id,
+            seller: raw.seller,
+            itemId: Number(raw.itemId),
+            remaining: Number(raw.remaining),
+            pricePerUnit: Number(raw.pricePerUnit),
+            active: Boolean(raw.active),
+          }))
+          .filter(listing => listing.active)
+          .reverse()
+      );
+      setFeeBps(Number(await marketplace.feeBps()));
+    } catch (error) {
+      console.error('Error loading marketplace:', error);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    loadMarket();
+  }, [loadMarket, refreshKey]);
+
+  const ownedSellable = sellableItems.filter(item => getBalance(item.id) > 0);
+  const selectedListItemId = listItemId !== null && getBalance(listItemId) > 0 ? listItemId : ownedSellable[0]?.id ?? null;
+
+  // The marketplace moves items and gold on the player's behalf, so it needs operator approval once
+  const ensureApproval = async () => {
+    const marketplaceAddress = client.addresses.marketplace;
+    const approved = await client.token.isApprovedForAll(account, marketplaceAddress);
+    if (!approved) {
+      onNotification('Approve the marketplace to move your items (one-time)', 'info');
+      await client.write(({ token }) => token.setApprovalForAll, marketplaceAddress, true);
+    }
+  };
+
+  // Run a marketplace action, then refresh listings and balances
+  const runAction = async (action: () => Promise<void>, successMessage: string) => {
+    setIsLoading(true);
+    try {
+      await action();
+      onNotification(successMessage, 'success');
+      onEthBalanceUpdate();
+      onInventoryUpdate();
+      await Promise.all([loadMarket(), reloadBalances()]);
+    } catch (error: any) {
+      console.error('Marketplace error:', error);
+      const { message, type } = describeFailure(client, error, 'Marketplace transaction failed', id => catalog.getItem(id).name);
+      onNotification(message, type);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleBuy = (listing: Listing) => {
+    const amount = parseInt(buyAmounts[listing.id] || '1') || 0;
+    if (amount <= 0 || amount > listing.remaining) {
+      onNotification(`Choose between 1 and ${listing.remaining}`, 'warning');
+      return;
+    }
+    if (getBalance(ITEM_IDS.GOLD) < amount * listing.pricePerUnit) {
+      onNotification(`Need ${amount * listing.pricePerUnit} Gold`, 'warning');
+      return;
+    }
+
+    runAction(async () => {
+      await ensureApproval();
+      await client.write(({ marketplace }) => marketplace.buy, listing.id, amount);
+      setBuyAmounts(prev => ({ ...prev, [listing.id]: '1' }));
+    }, `Bought ${amount} ${catalog.getItem(listing.itemId).name}!`);
+  };
+
+  const handleCancel = (listing: Listing) =>
+    runAction(async () => {
+      await client.write(({ marketplace }) => marketplace.cancelListing, listing.id);
+    }, `Listing #${listing.id} cancelled`);
+
+  const handleCreateListing = () => {
+    const amount = parseInt(listAmount) || 0;
+    const price = parseInt(listPrice) || 0;
+    if (selectedListItemId === null || amount <= 0 || amount > getBalance(selectedListItemId) || price <= 0) {
+      onNotification('Enter a valid amount and price', 'warning');
+      return;
+    }
+
+    runAction(async () => {
+      await ensureApproval();
+      await client.write(({ marketplace }) => marketplace.createListing, selectedListItemId, amount, price);
+      setListAmount('1');
+    }, `Listed ${amount} ${catalog.getItem(selectedListItemId).name} for ${price} Gold each`);
+  };
+
+  if (!isDeployed) {
+    return (
+      <div className="marketplace-container">
+        <div className="marketplace-header">
+          <div className="marketplace-icon">🏪</div>
+          <h2>Marketplace</h2>
+        </div>
+        <p className="marketplace-empty">The marketplace is not available on this network.</p>
+      </div>
+    );
+  }
+
+  const visibleListings = listings.filter(
+    listing => rarityFilter === 'all' || catalog.getItem(listing.itemId).rarity === rarityFilter
+  );
+
+  return (
+    <div className="marketplace-container">
+      <div className="marketplace-header">
+        <div className="marketplace-icon">🏪</div>
+        <h2>Marketplace</h2>
+      </div>
+
+      <div className="marketplace-info">
+        <span>Your Gold: <strong>{getBalance(ITEM_IDS.GOLD)}</strong></span>
+        {feeBps > 0 && <span>Fee: <strong>{feeBps / 100}%</strong></span>}
+      </div>
+
+      <div className="marketplace-filters">
+        {RARITY_FILTERS.map(filter => (
+          <button
+            key={filter}
+            className={`filter-button ${filter} ${rarityFilter === filter ? 'active' : ''}`}
+            onClick={() => setRarityFilter(filter)}
+          >
+            {filter}
+          </button>
+        ))}
+      </div>
+
+      <div className="listing-list">
+        {visibleListings.length === 0 ? (
+          <p className="marketplace-empty">No listings found.</p>
+        ) : (
+          visibleListings.map(listing => {
+            const item = catalog.getItem(listing.itemId);
+            const isOwn = listing.seller.toLowerCase() === account.toLowerCase();
+            return (
+              <div key={listing.id} className={`listing-card ${item.rarity}`}>
+                <div className="listing-item">
+                  <span className="listing-icon">{item.icon}</span>
+                  <div className="listing-details">
+                    <span className="listing-name">{item.name}</span>
+                    <span className="listing-meta">
+                      {listing.remaining} left · {listing.pricePerUnit} Gold each
+                    </span>
+                  </div>
+                </div>
+                {isOwn ? (
+                  <button
+                    className="listing-button"
+                    onClick={() => handleCancel(listing)}
+                    disabled={isLoading || paused.transfers}
+                  >
+                    {paused.transfers ? 'Paused' : 'Cancel'}
+                  </button>
+                ) : (
+                  <div className="listing-buy">
+                    <input
+                      type="number"
+                      min="1"
+                      max={listing.remaining}
+                      value={buyAmounts[listing.id] ?? '1'}
+                      onChange={(e) => setBuyAmounts(prev => ({ ...prev, [listing.id]: e.target.value }))}
+                      aria-label={`Quantity of ${item.name} to buy`}
+                      disabled={isLoading}
+                    />
+                    <button
+                      className="listing-button"
+                      onClick={() => handleBuy(listing)}
+                      disabled={isLoading || paused.transfers}
+                    >
+                      {paused.transfers ? 'Paused' : 'Buy'}
+                    </button>
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="create-listing">
+        <h3>Sell Items</h3>
+        {ownedSellable.length === 0 ? (
+          <p className="marketplace-empty">You have no items to sell.</p>
+        ) : (
+          <>
+            <select
+              value={selectedListItemId ?? ''}
+              onChange={(e) => setListItemId(Number(e.target.value))}
+              disabled={isLoading}
+              aria-label="Item to sell"
+            >
+              {ownedSellable.map(item => (
+                <option key={item.id} value={item.id}>
+                  {item.icon} {item.name} (×{getBalance(item.id)})
+                </option>
+              ))}
+            </select>
+            <div className="create-listing-fields">
+              <label>
+                Amount
+                <input type="number" min="1" value={listAmount} onChange={(e) => setListAmount(e.target.value)} disabled={isLoading} />
+              </label>
+              <label>
+                Price (Gold each)
+                <input type="number" min="1" value={listPrice} onChange={(e) => setListPrice(e.target.value)} disabled={isLoading} />
+              </label>
+            </div>
+            <button className="marketplace-button" onClick={handleCreateListing} disabled={isLoading || paused.transfers}>
+              {isLoading ? 'Processing...' : paused.transfers ? 'Transfers Paused' : 'Create Listing'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Marketplace;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Seasons from './Seasons';
+import { createFakeClient, createFakeContract, renderWithClient } from '../testUtils/fakeContract';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const RIVAL = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const NOW = 1_700_000_000;
+const DAY = 24 * 60 * 60;
+
+const stats = (legendariesCrafted: number, dungeonRuns: number, goldEarned: number) => ({
+  legendariesCrafted: BigInt(legendariesCrafted),
+  dungeonRuns: BigInt(dungeonRuns),
+  goldEarned: BigInt(goldEarned),
+  itemsCrafted: BigInt(0),
+});
+
+// Season 3 is current; seasons 1 and 2 are archived
+const renderSeasons = (currentSeason: { endsAt: number }) => {
+  const seasons: { [id: number]: { startedAt: number; endsAt: number; endedAt: number } } = {
+    1: { startedAt: NOW - 20 * DAY, endsAt: 0, endedAt: NOW - 10 * DAY },
+    2: { startedAt: NOW - 10 * DAY, endsAt: NOW - DAY, endedAt: NOW - DAY },
+    3: { startedAt: NOW - DAY, endsAt: currentSeason.endsAt, endedAt: 0 },
+  };
+  const standings: { [id: number]: [string[], ReturnType<typeof stats>[]] } = {
+    1: [[ACCOUNT], [stats(0, 3, 60)]],
+    2: [
+      [ACCOUNT, RIVAL],
+      [stats(0, 12, 400), stats(1, 2, 40)],
+    ],
+  };
+
+  const contract = createFakeContract({
+    call: {
+      currentSeason: () => BigInt(3),
+      getSeason: (id: number) => seasons[id],
+      getSeasonPlayerCount: (id: number) => BigInt(standings[id][0].length),
+      getSeasonStandings: (id: number) => standings[id],
+    },
+  });
+  renderWithClient(<Seasons refreshKey={0} />, createFakeClient(contract, { account: ACCOUNT }));
+};
+
+describe('Seasons', () => {
+  beforeEach(() => {
+    jest.spyOn(Date, 'now').mockReturnValue(NOW * 1000);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('shows the current season and the time left in it', async () => {
+    renderSeasons({ endsAt: NOW + 2 * DAY + 5 * 3600 });
+
+    expect(await screen.findByText('Season 3')).toBeInTheDocument();
+    expect(screen.getByRole('timer')).toHaveTextContent('Ends in 2d 5h');
+  });
+
+  it('ranks the last season by default and switches to older ones', async () => {
+    renderSeasons({ endsAt: 0 });
+
+    expect(await screen.findByRole('timer')).toHaveTextContent('Open-ended');
+    const rows = await screen.findAllByRole('listitem');
+    expect(rows[0]).toHaveTextContent('#1');
+    expect(rows[0]).toHaveTextContent('0x3c44...93bc');
+    expect(rows[1]).toHaveTextContent('You');
+    expect(rows[1]).toHaveTextContent('12 runs');
+
+    userEvent.click(screen.getByRole('button', { name: 'Season 1' }));
+
+    expect(await screen.findByText(/3 runs/)).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,138 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useGameClient } from '../game/gameClientContext';
+import { formatTimeRemaining, loadSeason, loadSeasonStandings, SeasonInfo, SeasonStanding } from '../game/seasons';
+import './Seasons.scss';
+
+interface SeasonsProps {
+  refreshKey: number;
+}
+
+const TOP_ROWS = 10;
+const PAST_SEASON_TABS = 6;
+const CLOCK_INTERVAL_MS = 30000;
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+/**
+ * Seasons Component
+ * The current season and the time left in it, plus the archived
+ * standings of past seasons (legendaries crafted, then runs, then gold).
+ */
+const Seasons: React.FC<SeasonsProps> = ({ refreshKey }) => {
+  const client = useGameClient();
+  const { account } = client;
+  const [season, setSeason] = useState<SeasonInfo | null>(null);
+  const [selectedSeason, setSelectedSeason] = useState<number | null>(null);
+  const [standings, setStandings] = useState<SeasonStanding[]>([]);
+  const [isLoadingStandings, setIsLoadingStandings] = useState<boolean>(false);
+  const [now, setNow] = useState<number>(() => Math.floor(Date.now() / 1000));
+
+  const loadCurrentSeason = useCallback(async () => {
+    try {
+      const current = await loadSeason(client, Number(await client.token.currentSeason()));
+      setSeason(current);
+      // Default to the season that just ended
+      setSelectedSeason(selected => selected ?? (current.id > 1 ? current.id - 1 : null));
+    } catch (error) {
+      console.error('Error loading season:', error);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    loadCurrentSeason();
+  }, [loadCurrentSeason, refreshKey]);
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Math.floor(Date.now() / 1000)), CLOCK_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  useEffect(() => {
+    if (selectedSeason === null) return;
+    let cancelled = false;
+    setIsLoadingStandings(true);
+    loadSeasonStandings(client, selectedSeason)
+      .then(rows => !cancelled && setStandings(rows))
+      .catch(error => console.error('Error loading season standings:', error))
+      .finally(() => !cancelled && setIsLoadingStandings(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [client, selectedSeason]);
+
+  const timeLeft = () => {
+    if (!season) return '';
+    if (season.endsAt === 0) return 'Open-ended';
+    if (season.endsAt > now) return `Ends in ${formatTimeRemaining(season.endsAt - now)}`;
+    return 'Ended, the next season starts soon';
+  };
+
+  const pastSeasons = season
+    ? Array.from({ length: Math.min(season.id - 1, PAST_SEASON_TABS) }, (_, index) => season.id - 1 - index)
+    : [];
+
+  const topRows = standings.slice(0, TOP_ROWS);
+  const ownRow = standings.find(row => row.player === account.toLowerCase());
+  const showOwnRow = ownRow !== undefined && !topRows.includes(ownRow);
+
+  const renderRow = (row: SeasonStanding) => {
+    const isOwn = row.player === account.toLowerCase();
+    return (
+      <li key={row.player} className={`season-row ${isOwn ? 'own' : ''}`}>
+        <span className="row-rank">#{row.rank}</span>
+        <span className="row-player">{isOwn ? 'You' : shortAddress(row.player)}</span>
+        <span className="row-value">
+          {row.legendariesCrafted} 👑 · {row.dungeonRuns} runs · {row.goldEarned} Gold
+        </span>
+      </li>
+    );
+  };
+
+  return (
+    <div className="seasons-container">
+      <div className="seasons-header">
+        <div className="seasons-icon">📅</div>
+        <h2>{season ? `Season ${season.id}` : 'Seasons'}</h2>
+      </div>
+
+      {season && (
+        <p className="season-clock" role="timer">
+          {timeLeft()}
+        </p>
+      )}
+
+      <h3>Past Seasons</h3>
+      {pastSeasons.length === 0 ? (
+        <p className="seasons-empty">Standings appear here once the first season ends.</p>
+      ) : (
+        <>
+          <div className="season-tabs">
+            {pastSeasons.map(id => (
+              <button key={id} className={selectedSeason === id ? 'active' : ''} onClick={() => setSelectedSeason(id)}>
+                Season {id}
+              </button>
+            ))}
+          </div>
+
+          {isLoadingStandings && standings.length === 0 ? (
+            <p className="seasons-empty">Loading standings...</p>
+          ) : topRows.length === 0 ? (
+            <p className="seasons-empty">Nobody played this season.</p>
+          ) : (
+            <ol className="season-standings">
+              {topRows.map(renderRow)}
+              {showOwnRow && (
+                <>
+                  <li className="season-gap">…</li>
+                  {renderRow(ownRow)}
+                </>
+              )}
+            </ol>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Seasons;
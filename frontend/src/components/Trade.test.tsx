@@ -0,0 +1,131 @@
+import React from 'react';
+import { screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import Trade from './Trade';
+import {
+  createFakeClient,
+  createFakeContract,
+  FakeContractHandlers,
+  fakeInventory,
+  renderWithClient,
+  revertWith,
+} from '../testUtils/fakeContract';
+import { NOTHING_PAUSED, PausedActions } from '../game/pause';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const RECIPIENT = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+
+const setup = (
+  balances: { [id: number]: number },
+  overrides: FakeContractHandlers = {},
+  paused: PausedActions = NOTHING_PAUSED
+) => {
+  const contract = createFakeContract({
+    call: { getInventory: fakeInventory(balances) },
+    send: overrides.send,
+  });
+  const props = {
+    onNotification: jest.fn(),
+    onEthBalanceUpdate: jest.fn(),
+    onInventoryUpdate: jest.fn(),
+  };
+
+  // No escrow deployed: only direct gifts are available
+  renderWithClient(<Trade refreshKey={0} paused={paused} {...props} />, createFakeClient(contract, { account: ACCOUNT }));
+  return { contract, ...props };
+};
+
+const openGiftTab = () => userEvent.click(screen.getByRole('button', { name: 'Send Gift' }));
+
+describe('Trade', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('explains that offers need an escrow deployment', () => {
+    setup({});
+
+    expect(screen.getByText('Escrow trading is not available on this network.')).toBeInTheDocument();
+  });
+
+  it('shows the empty state without tradeable items', async () => {
+    setup({ 1: 10, 2: 100 });
+    openGiftTab();
+
+    expect(await screen.findByText('No swords available to trade!')).toBeInTheDocument();
+  });
+
+  it('enables the trade only with a selection and a valid recipient', async () => {
+    setup({ 1001: 3 });
+    openGiftTab();
+
+    const confirm = await screen.findByRole('button', { name: 'Confirm Batch Trade' });
+    expect(confirm).toBeDisabled();
+
+    userEvent.click(screen.getByRole('button', { name: /Common Sword/ }));
+    expect(confirm).toBeDisabled();
+
+    userEvent.type(screen.getByLabelText('Recipient wallet address'), '0x1234');
+    expect(screen.getByText('Invalid Ethereum address')).toBeInTheDocument();
+    expect(confirm).toBeDisabled();
+
+    userEvent.clear(screen.getByLabelText('Recipient wallet address'));
+    userEvent.type(screen.getByLabelText('Recipient wallet address'), RECIPIENT);
+    expect(screen.queryByText('Invalid Ethereum address')).not.toBeInTheDocument();
+    expect(confirm).toBeEnabled();
+  });
+
+  it('disables gifts while transfers are paused', async () => {
+    setup({ 1001: 3 }, {}, { ...NOTHING_PAUSED, transfers: true });
+    openGiftTab();
+
+    userEvent.click(await screen.findByRole('button', { name: /Common Sword/ }));
+    userEvent.type(screen.getByLabelText('Recipient wallet address'), RECIPIENT);
+    expect(screen.getByRole('button', { name: 'Transfers Paused' })).toBeDisabled();
+  });
+
+  it('sends the selected amounts in one batch transfer', async () => {
+    const { contract, onNotification, onInventoryUpdate } = setup(
+      { 1001: 3, 1002: 1 },
+      { send: { safeBatchTransferFrom: () => ({}) } }
+    );
+    openGiftTab();
+
+    userEvent.click(await screen.findByRole('button', { name: /Common Sword/ }));
+    userEvent.click(screen.getByRole('button', { name: /Rare Sword/ }));
+    const amount = screen.getByLabelText('Trade amount for Common Sword');
+    userEvent.clear(amount);
+    userEvent.type(amount, '2');
+    userEvent.type(screen.getByLabelText('Recipient wallet address'), RECIPIENT);
+    userEvent.click(screen.getByRole('button', { name: 'Confirm Batch Trade' }));
+
+    await waitFor(() =>
+      expect(onNotification).toHaveBeenCalledWith(
+        'Successfully traded 2 Common Sword, 1 Rare Sword to 0x3C44...',
+        'success'
+      )
+    );
+    expect(contract.sent[0].args).toEqual([ACCOUNT, RECIPIENT, [1001, 1002], [2, 1], '0x']);
+    expect(onInventoryUpdate).toHaveBeenCalled();
+  });
+
+  it('explains why a transfer reverted', async () => {
+    const { onNotification } = setup(
+      { 1001: 1 },
+      { send: { safeBatchTransferFrom: () => revertWith('ItemSoulbound', 1001) } }
+    );
+    openGiftTab();
+
+    userEvent.click(await screen.findByRole('button', { name: /Common Sword/ }));
+    userEvent.type(screen.getByLabelText('Recipient wallet address'), RECIPIENT);
+    userEvent.click(screen.getByRole('button', { name: 'Confirm Batch Trade' }));
+
+    await waitFor(() =>
+      expect(onNotification).toHaveBeenCalledWith('Common Sword is soulbound and cannot be traded.', 'warning')
+    );
+  });
+});
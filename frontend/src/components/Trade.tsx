@@ -1,15 +1,18 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { Web3 } from 'web3';
+import { isAddress } from 'ethers';
+import { useGameClient, useInventory } from '../game/gameClientContext';
+import { describeFailure } from '../game/gameErrors';
+import { useItemCatalog } from '../game/itemCatalog';
+import { NOTHING_PAUSED, PausedActions } from '../game/pause';
+import TradeOffers from './TradeOffers';
 import './Trade.scss';
 
 interface TradeProps {
-  web3: Web3 | null;
-  account: string;
-  contractAddress: string;
   onNotification: (message: string, type: 'success' | 'error' | 'warning' | 'info') => void;
   onEthBalanceUpdate: () => void;
   onInventoryUpdate?: () => void;
   refreshKey?: number;
+  paused?: PausedActions;
 }
 
 interface InventoryItem {
@@ -26,108 +29,64 @@ interface SelectedItem {
   tradeAmount: number;
 }
 
-// Sword token IDs
-const SWORD_TYPES: { [key: number]: { name: string; emoji: string } } = {
-  1001: { name: 'Common Sword', emoji: '⚔️' },
-  1002: { name: 'Rare Sword', emoji: '🗡️' },
-  1003: { name: 'Epic Sword', emoji: '⚡🗡️' },
-  2001: { name: 'Legendary Sword 1', emoji: '👑' },
-  2002: { name: 'Legendary Sword 2', emoji: '👑' },
-  2003: { name: 'Legendary Sword 3', emoji: '👑' },
-  2004: { name: 'Legendary Sword 4', emoji: '👑' },
-  2005: { name: 'Legendary Sword 5', emoji: '👑' },
-};
-
-const Trade: React.FC<TradeProps> = ({ web3, account, contractAddress, onNotification, onEthBalanceUpdate, onInventoryUpdate, refreshKey }) => {
-  const [inventory, setInventory] = useState<InventoryItem[]>([]);
+type TradeTab = 'offers' | 'gift';
+
+const Trade: React.FC<TradeProps> = ({
+  onNotification,
+  onEthBalanceUpdate,
+  onInventoryUpdate,
+  refreshKey,
+  paused = NOTHING_PAUSED,
+}) => {
+  const client = useGameClient();
+  const [activeTab, setActiveTab] = useState<TradeTab>('offers');
   const [selectedItems, setSelectedItems] = useState<{ [key: number]: SelectedItem }>({});
   const [recipientAddress, setRecipientAddress] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(false);
   const [gasEstimate, setGasEstimate] = useState<string>('--');
+  const catalog = useItemCatalog();
 
-  // Load player inventory (swords only)
-  const loadInventory = useCallback(async () => {
-    if (!web3 || !account || !contractAddress) return;
-
-    try {
-      const contract = new web3.eth.Contract(
-        require('../abis/DungeonToken.json').abi,
-        contractAddress
-      ) as any;
-
-      const items: InventoryItem[] = [];
-
-      // Check balance for each sword type
-      for (const [swordId, swordInfo] of Object.entries(SWORD_TYPES)) {
-        const id = parseInt(swordId);
-        const balance = await contract.methods.balanceOf(account, id.toString()).call();
-        const quantity = parseInt(balance as string);
-
-        if (quantity > 0) {
-          items.push({
-            id,
-            name: swordInfo.name,
-            quantity,
-            emoji: swordInfo.emoji,
-          });
-        }
-      }
-
-      setInventory(items);
-    } catch (error) {
-      console.error('Error loading inventory:', error);
-      setInventory([]);
-    }
-  }, [web3, account, contractAddress]);
+  // Player inventory (tradeable items only: no resources or soulbound items)
+  const tradeableItems = catalog.items.filter(item => item.rarity !== 'resource' && !item.soulbound);
+  const { getBalance, reload: loadInventory } = useInventory(tradeableItems.map(item => item.id), refreshKey);
+  const inventory: InventoryItem[] = tradeableItems
+    .filter(item => getBalance(item.id) > 0)
+    .map(item => ({ id: item.id, name: item.name, quantity: getBalance(item.id), emoji: item.icon }));
 
   // Estimate gas for batch trade
   const estimateTradeGas = useCallback(async () => {
-    if (!web3 || !account || !recipientAddress || Object.keys(selectedItems).length === 0) {
+    if (!recipientAddress || Object.keys(selectedItems).length === 0) {
       setGasEstimate('--');
       return;
     }
 
     try {
-      const contract = new web3.eth.Contract(
-        require('../abis/DungeonToken.json').abi,
-        contractAddress
-      ) as any;
-
-      const ids = Object.values(selectedItems).map(item => item.id.toString());
-      const amounts = Object.values(selectedItems).map(item => item.tradeAmount.toString());
+      const ids = Object.values(selectedItems).map(item => item.id);
+      const amounts = Object.values(selectedItems).map(item => item.tradeAmount);
 
-      const gasEstimate = await contract.methods
-        .safeBatchTransferFrom(
-          account,
+      setGasEstimate(
+        await client.estimateCost(
+          ({ token }) => token.safeBatchTransferFrom,
+          client.account,
           recipientAddress,
           ids,
           amounts,
           '0x'
         )
-        .estimateGas({ from: account });
-
-      const gasPrice = await web3.eth.getGasPrice();
-      const gasCost = BigInt(gasEstimate) * BigInt(gasPrice);
-      const costInEth = web3.utils.fromWei(gasCost.toString(), 'ether');
-      setGasEstimate(`~${parseFloat(costInEth).toFixed(4)} ETH`);
+      );
     } catch (error) {
       setGasEstimate('Error estimating');
     }
-  }, [web3, account, recipientAddress, selectedItems, contractAddress]);
+  }, [client, recipientAddress, selectedItems]);
 
   // Update gas estimate when inputs change
   useEffect(() => {
     estimateTradeGas();
   }, [estimateTradeGas]);
 
-  // Load inventory on mount and when refreshKey changes
-  useEffect(() => {
-    loadInventory();
-  }, [loadInventory, refreshKey]);
-
   // Validate recipient address
   const isValidAddress = (address: string): boolean => {
-    return web3?.utils.isAddress(address) || false;
+    return isAddress(address);
   };
 
   // Toggle sword selection and quantity
@@ -168,7 +127,7 @@ const Trade: React.FC<TradeProps> = ({ web3, account, contractAddress, onNotific
 
   // Handle batch trade submission
   const handleTrade = async () => {
-    if (!web3 || !account || !recipientAddress) {
+    if (!recipientAddress) {
       onNotification('Please fill all fields', 'warning');
       return;
     }
@@ -186,26 +145,20 @@ const Trade: React.FC<TradeProps> = ({ web3, account, contractAddress, onNotific
     setIsLoading(true);
 
     try {
-      const contract = new web3.eth.Contract(
-        require('../abis/DungeonToken.json').abi,
-        contractAddress
-      ) as any;
-
-      const ids = Object.values(selectedItems).map(item => item.id.toString());
-      const amounts = Object.values(selectedItems).map(item => item.tradeAmount.toString());
+      const ids = Object.values(selectedItems).map(item => item.id);
+      const amounts = Object.values(selectedItems).map(item => item.tradeAmount);
       const itemSummary = Object.values(selectedItems)
         .map(item => `${item.tradeAmount} ${item.name}`)
         .join(', ');
 
-      await contract.methods
-        .safeBatchTransferFrom(
-          account,
-          recipientAddress,
-          ids,
-          amounts,
-          '0x'
-        )
-        .send({ from: account });
+      await client.write(
+        ({ token }) => token.safeBatchTransferFrom,
+        client.account,
+        recipientAddress,
+        ids,
+        amounts,
+        '0x'
+      );
 
       onNotification(
         `Successfully traded ${itemSummary} to ${recipientAddress.substring(0, 6)}...`,
@@ -223,10 +176,8 @@ const Trade: React.FC<TradeProps> = ({ web3, account, contractAddress, onNotific
       loadInventory();
     } catch (error: any) {
       console.error('Trade error:', error);
-      onNotification(
-        error.message || 'Trade failed. Please try again.',
-        'error'
-      );
+      const { message, type } = describeFailure(client, error, 'Trade failed. Please try again.', id => catalog.getItem(id).name);
+      onNotification(message, type);
     } finally {
       setIsLoading(false);
     }
@@ -241,7 +192,24 @@ const Trade: React.FC<TradeProps> = ({ web3, account, contractAddress, onNotific
         <h2>Trade</h2>
       </div>
 
-      {inventory.length === 0 ? (
+      <div className="trade-tabs">
+        <button className={activeTab === 'offers' ? 'active' : ''} onClick={() => setActiveTab('offers')}>
+          Offers
+        </button>
+        <button className={activeTab === 'gift' ? 'active' : ''} onClick={() => setActiveTab('gift')}>
+          Send Gift
+        </button>
+      </div>
+
+      {activeTab === 'offers' ? (
+        <TradeOffers
+          onNotification={onNotification}
+          onEthBalanceUpdate={onEthBalanceUpdate}
+          onInventoryUpdate={onInventoryUpdate}
+          refreshKey={refreshKey}
+          transfersPaused={paused.transfers}
+        />
+      ) : inventory.length === 0 ? (
         <div className="trade-empty">
           <p>No swords available to trade!</p>
           <p className="hint">Run the dungeon to get swords!</p>
@@ -332,12 +300,13 @@ const Trade: React.FC<TradeProps> = ({ web3, account, contractAddress, onNotific
             onClick={handleTrade}
             disabled={
               isLoading ||
+              paused.transfers ||
               Object.keys(selectedItems).length === 0 ||
               !recipientAddress ||
               !isValidAddress(recipientAddress)
             }
           >
-            {isLoading ? 'Processing...' : 'Confirm Batch Trade'}
+            {isLoading ? 'Processing...' : paused.transfers ? 'Transfers Paused' : 'Confirm Batch Trade'}
           </button>
         </>
       )}
@@ -0,0 +1,351 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { isAddress } from 'ethers';
+import type { TradeEscrow } from '../types';
+import { useGameClient } from '../game/gameClientContext';
+import { describeFailure } from '../game/gameErrors';
+import { useItemCatalog } from '../game/itemCatalog';
+
+interface TradeOffersProps {
+  onNotification: (message: string, type: 'success' | 'error' | 'warning' | 'info') => void;
+  onEthBalanceUpdate: () => void;
+  onInventoryUpdate?: () => void;
+  refreshKey?: number;
+  transfersPaused?: boolean; // every offer action moves items, so all of them wait
+}
+
+interface BundleEntry {
+  id: number;
+  amount: number;
+}
+
+interface Offer {
+  id: number;
+  maker: string;
+  taker: string;
+  give: BundleEntry[];
+  want: BundleEntry[];
+  status: number;
+  counterTo: number;
+}
+
+// Mirrors TradeEscrow.OfferStatus
+const OFFER_STATUS = ['Open', 'Accepted', 'Declined', 'Cancelled', 'Countered'];
+const OPEN = 0;
+
+const toBundle = (raw: TradeEscrow.BundleStructOutput): BundleEntry[] =>
+  raw.ids.map((id, index) => ({ id: Number(id), amount: Number(raw.amounts[index]) }));
+
+const toStruct = (bundle: BundleEntry[]): TradeEscrow.BundleStruct => ({
+  ids: bundle.map(entry => entry.id),
+  amounts: bundle.map(entry => entry.amount),
+});
+
+const shortAddress = (address: string) => `${address.substring(0, 6)}...${address.substring(address.length - 4)}`;
+
+interface BundleEditorProps {
+  label: string;
+  bundle: BundleEntry[];
+  onChange: (bundle: BundleEntry[]) => void;
+  disabled: boolean;
+}
+
+/**
+ * Pick items and amounts for one side of an offer
+ */
+const BundleEditor: React.FC<BundleEditorProps> = ({ label, bundle, onChange, disabled }) => {
+  const { items, getItem } = useItemCatalog();
+  const tradeable = items.filter(item => !item.soulbound);
+  const [itemId, setItemId] = useState<number>(tradeable[0]?.id ?? 0);
+  const [amount, setAmount] = useState<string>('1');
+
+  const handleAdd = () => {
+    const parsedAmount = parseInt(amount) || 0;
+    if (parsedAmount <= 0) return;
+
+    const existing = bundle.find(entry => entry.id === itemId);
+    onChange(
+      existing
+        ? bundle.map(entry => (entry.id === itemId ? { ...entry, amount: entry.amount + parsedAmount } : entry))
+        : [...bundle, { id: itemId, amount: parsedAmount }]
+    );
+    setAmount('1');
+  };
+
+  return (
+    <div className="trade-section bundle-editor">
+      <label>{label}</label>
+      <div className="bundle-input">
+        <select value={itemId} onChange={(e) => setItemId(Number(e.target.value))} disabled={disabled} aria-label={`${label} item`}>
+          {tradeable.map(item => (
+            <option key={item.id} value={item.id}>{item.icon} {item.name}</option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min="1"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          className="amount-input"
+          disabled={disabled}
+          aria-label={`${label} amount`}
+        />
+        <button className="bundle-add" onClick={handleAdd} disabled={disabled}>Add</button>
+      </div>
+      {bundle.length > 0 && (
+        <div className="selected-summary">
+          {bundle.map(entry => (
+            <div key={entry.id} className="summary-item">
+              <span className="summary-emoji">{getItem(entry.id).icon}</span>
+              <span className="summary-name">{getItem(entry.id).name}</span>
+              <span className="summary-qty">×{entry.amount}</span>
+              <button
+                className="bundle-remove"
+                onClick={() => onChange(bundle.filter(other => other.id !== entry.id))}
+                disabled={disabled}
+                aria-label={`Remove ${getItem(entry.id).name}`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * TradeOffers Component
+ * Escrowed bundle-for-bundle trades through the TradeEscrow contract:
+ * propose an offer to a specific player, then accept, decline, counter
+ * or cancel it from the incoming/outgoing lists
+ */
+const TradeOffers: React.FC<TradeOffersProps> = ({
+  onNotification,
+  onEthBalanceUpdate,
+  onInventoryUpdate,
+  refreshKey,
+  transfersPaused = false,
+}) => {
+  const client = useGameClient();
+  const { account } = client;
+  const [incoming, setIncoming] = useState<Offer[]>([]);
+  const [outgoing, setOutgoing] = useState<Offer[]>([]);
+  const [counterparty, setCounterparty] = useState<string>('');
+  const [give, setGive] = useState<BundleEntry[]>([]);
+  const [want, setWant] = useState<BundleEntry[]>([]);
+  const [counterTo, setCounterTo] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState<boolean>(false);
+  const { getItem } = useItemCatalog();
+
+  const isDeployed = client.contracts.escrow !== null;
+
+  // Load every offer the player made or received, newest first
+  const loadOffers = useCallback(async () => {
+    if (!client.contracts.escrow) return;
+
+    try {
+      const { escrow } = client;
+      const loadList = async (ids: bigint[]): Promise<Offer[]> => {
+        const offers = await Promise.all(
+          ids.map(async rawId => {
+            const raw = await escrow.getOffer(rawId);
+            return {
+              id: Number(rawId),
+              maker: raw.maker,
+              taker: raw.taker,
+              give: toBundle(raw.give),
+              want: toBundle(raw.want),
+              status: Number(raw.status),
+              counterTo: Number(raw.counterTo),
+            };
+          })
+        );
+        return offers.reverse();
+      };
+
+      const [incomingIds, outgoingIds] = await Promise.all([
+        escrow.getIncomingOffers(client.account),
+        escrow.getOutgoingOffers(client.account),
+      ]);
+      setIncoming(await loadList(incomingIds));
+      setOutgoing(await loadList(outgoingIds));
+    } catch (error) {
+      console.error('Error loading trade offers:', error);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    loadOffers();
+  }, [loadOffers, refreshKey]);
+
+  // The escrow moves items on the player's behalf, so it needs operator approval once
+  const ensureApproval = async () => {
+    const escrowAddress = client.addresses.tradeEscrow;
+    const approved = await client.token.isApprovedForAll(account, escrowAddress);
+    if (!approved) {
+      onNotification('Approve the trade escrow to move your items (one-time)', 'info');
+      await client.write(({ token }) => token.setApprovalForAll, escrowAddress, true);
+    }
+  };
+
+  const resetForm = () => {
+    setCounterparty('');
+    setGive([]);
+    setWant([]);
+    setCounterTo(null);
+  };
+
+  // Run an escrow action, then refresh offers and balances
+  const runAction = async (action: () => Promise<void>, successMessage: string) => {
+    setIsLoading(true);
+    try {
+      await action();
+      onNotification(successMessage, 'success');
+      onEthBalanceUpdate();
+      onInventoryUpdate?.();
+      await loadOffers();
+    } catch (error: any) {
+      console.error('Trade offer error:', error);
+      const { message, type } = describeFailure(client, error, 'Trade offer failed', id => getItem(id).name);
+      onNotification(message, type);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSubmit = () => {
+    if (!isAddress(counterparty) || counterparty.toLowerCase() === account.toLowerCase()) {
+      onNotification('Enter a valid counterparty address', 'warning');
+      return;
+    }
+    if (give.length === 0 && want.length === 0) {
+      onNotification('Add at least one item to the offer', 'warning');
+      return;
+    }
+
+    runAction(async () => {
+      if (give.length > 0) await ensureApproval();
+      if (counterTo !== null) {
+        await client.write(({ escrow }) => escrow.counterOffer, counterTo, toStruct(give), toStruct(want));
+      } else {
+        await client.write(({ escrow }) => escrow.createOffer, counterparty, toStruct(give), toStruct(want));
+      }
+      resetForm();
+    }, counterTo !== null ? `Counter-offer sent to ${shortAddress(counterparty)}` : `Offer sent to ${shortAddress(counterparty)}`);
+  };
+
+  const handleAccept = (offer: Offer) =>
+    runAction(async () => {
+      if (offer.want.length > 0) await ensureApproval();
+      await client.write(({ escrow }) => escrow.acceptOffer, offer.id);
+    }, `Trade #${offer.id} completed!`);
+
+  const handleDecline = (offer: Offer) =>
+    runAction(async () => {
+      await client.write(({ escrow }) => escrow.declineOffer, offer.id);
+    }, `Declined offer #${offer.id}`);
+
+  const handleCancel = (offer: Offer) =>
+    runAction(async () => {
+      await client.write(({ escrow }) => escrow.cancelOffer, offer.id);
+    }, `Cancelled offer #${offer.id}`);
+
+  // Prefill the form with the mirrored terms of an incoming offer
+  const handleStartCounter = (offer: Offer) => {
+    setCounterTo(offer.id);
+    setCounterparty(offer.maker);
+    setGive(offer.want);
+    setWant(offer.give);
+  };
+
+  const describeBundle = (bundle: BundleEntry[]) =>
+    bundle.length === 0
+      ? 'nothing'
+      : bundle.map(entry => `${entry.amount} ${getItem(entry.id).name}`).join(', ');
+
+  const renderOffer = (offer: Offer, isIncoming: boolean) => (
+    <div key={offer.id} className={`offer-card status-${OFFER_STATUS[offer.status]?.toLowerCase()}`}>
+      <div className="offer-header">
+        <span className="offer-id">#{offer.id}{offer.counterTo > 0 && ` (counter to #${offer.counterTo})`}</span>
+        <span className="offer-status">{OFFER_STATUS[offer.status] || 'Unknown'}</span>
+      </div>
+      <div className="offer-party">
+        {isIncoming ? `From ${shortAddress(offer.maker)}` : `To ${shortAddress(offer.taker)}`}
+      </div>
+      <div className="offer-terms">
+        <div>{isIncoming ? 'You get' : 'You give'}: <strong>{describeBundle(offer.give)}</strong></div>
+        <div>{isIncoming ? 'You give' : 'You get'}: <strong>{describeBundle(offer.want)}</strong></div>
+      </div>
+      {offer.status === OPEN && (
+        <div className="offer-actions">
+          {isIncoming && (
+            <>
+              <button onClick={() => handleAccept(offer)} disabled={isLoading || transfersPaused}>Accept</button>
+              <button onClick={() => handleStartCounter(offer)} disabled={isLoading}>Counter</button>
+              <button onClick={() => handleDecline(offer)} disabled={isLoading || transfersPaused}>Decline</button>
+            </>
+          )}
+          <button onClick={() => handleCancel(offer)} disabled={isLoading || transfersPaused}>Cancel</button>
+        </div>
+      )}
+    </div>
+  );
+
+  if (!isDeployed) {
+    return (
+      <div className="trade-empty">
+        <p>Escrow trading is not available on this network.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="trade-offers">
+      <div className="trade-section">
+        <label htmlFor="offer-counterparty">
+          {counterTo !== null ? `Counter-offer to #${counterTo}` : 'Trade With:'}
+        </label>
+        <input
+          id="offer-counterparty"
+          type="text"
+          placeholder="0x..."
+          value={counterparty}
+          onChange={(e) => setCounterparty(e.target.value)}
+          disabled={counterTo !== null || isLoading}
+          className={`address-input ${counterparty && !isAddress(counterparty) ? 'invalid' : ''}`}
+        />
+      </div>
+
+      <BundleEditor label="You Give:" bundle={give} onChange={setGive} disabled={isLoading} />
+      <BundleEditor label="You Want:" bundle={want} onChange={setWant} disabled={isLoading} />
+
+      <button className="trade-button" onClick={handleSubmit} disabled={isLoading || transfersPaused}>
+        {isLoading
+          ? 'Processing...'
+          : transfersPaused
+            ? 'Trading Paused'
+            : counterTo !== null
+              ? 'Send Counter-Offer'
+              : 'Propose Trade'}
+      </button>
+      {counterTo !== null && (
+        <button className="trade-button secondary" onClick={resetForm} disabled={isLoading}>
+          Cancel Counter-Offer
+        </button>
+      )}
+
+      <div className="trade-section offer-list">
+        <label>Incoming Offers ({incoming.filter(offer => offer.status === OPEN).length} open)</label>
+        {incoming.length === 0 ? <p className="hint">No offers received yet.</p> : incoming.map(offer => renderOffer(offer, true))}
+      </div>
+
+      <div className="trade-section offer-list">
+        <label>Outgoing Offers ({outgoing.filter(offer => offer.status === OPEN).length} open)</label>
+        {outgoing.length === 0 ? <p className="hint">No offers sent yet.</p> : outgoing.map(offer => renderOffer(offer, false))}
+      </div>
+    </div>
+  );
+};
+
+export default TradeOffers;
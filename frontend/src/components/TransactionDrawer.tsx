@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import type { GameProvider } from '../game/dungeonGameClient';
+import { describeTransaction, TrackedTransaction, TransactionTracker } from '../game/transactionTracker';
+import './TransactionDrawer.scss';
+
+interface TransactionDrawerProps {
+  tracker: TransactionTracker;
+  provider: GameProvider;
+  explorerUrl: string | null; // block explorer for the connected network, if any
+}
+
+// How often pending transactions and confirmation counts are refreshed (ms)
+const POLL_INTERVAL = 4000;
+
+const STATUS_LABELS: { [status in TrackedTransaction['status']]: string } = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  failed: 'Failed',
+  replaced: 'Replaced',
+  dropped: 'Dropped',
+};
+
+const shortHash = (hash: string) => `${hash.substring(0, 10)}...${hash.substring(hash.length - 6)}`;
+
+/**
+ * TransactionDrawer
+ * Header button plus a drawer listing the player's recent transactions with
+ * their status, confirmations and explorer links. While anything is left
+ * pending without a page waiting on it (e.g. after a reload) it also polls
+ * the node to settle it.
+ */
+const TransactionDrawer: React.FC<TransactionDrawerProps> = ({ tracker, provider, explorerUrl }) => {
+  const [transactions, setTransactions] = useState<TrackedTransaction[]>(tracker.transactions);
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [latestBlock, setLatestBlock] = useState<number>(0);
+
+  useEffect(() => {
+    setTransactions(tracker.transactions);
+    return tracker.subscribe(updated => setTransactions(updated));
+  }, [tracker]);
+
+  const pendingCount = transactions.filter(tx => tx.status === 'pending').length;
+  const needsPolling = isOpen || pendingCount > 0;
+
+  useEffect(() => {
+    if (!needsPolling) return;
+
+    const refresh = async () => {
+      try {
+        setLatestBlock(await provider.getBlockNumber());
+        await tracker.recover(provider);
+      } catch (error) {
+        console.error('Error refreshing transactions:', error);
+      }
+    };
+
+    refresh();
+    const timer = setInterval(refresh, POLL_INTERVAL);
+    return () => clearInterval(timer);
+  }, [tracker, provider, needsPolling]);
+
+  const describeStatus = (tx: TrackedTransaction) => {
+    if (tx.status === 'confirmed' && tx.blockNumber && latestBlock >= tx.blockNumber) {
+      const confirmations = latestBlock - tx.blockNumber + 1;
+      return `${confirmations} confirmation${confirmations === 1 ? '' : 's'}`;
+    }
+    return STATUS_LABELS[tx.status];
+  };
+
+  return (
+    <div className="transaction-drawer">
+      <button className={`transactions-toggle ${pendingCount > 0 ? 'busy' : ''}`} onClick={() => setIsOpen(!isOpen)}>
+        {pendingCount > 0 ? `⏳ ${pendingCount} pending` : 'Transactions'}
+      </button>
+
+      {isOpen && (
+        <div className="transactions-panel" role="dialog" aria-label="Transactions">
+          <div className="transactions-header">
+            <h3>Transactions</h3>
+            <button onClick={() => tracker.clearSettled()} disabled={transactions.length === pendingCount}>
+              Clear finished
+            </button>
+          </div>
+
+          {transactions.length === 0 ? (
+            <p className="transactions-empty">No transactions yet.</p>
+          ) : (
+            <ul className="transactions-list">
+              {transactions.map(tx => (
+                <li key={tx.hash} className={`transaction ${tx.status}`}>
+                  <div className="transaction-body">
+                    <span className="transaction-label">{describeTransaction(tx.label)}</span>
+                    {explorerUrl ? (
+                      <a href={`${explorerUrl}/tx/${tx.hash}`} target="_blank" rel="noopener noreferrer">
+                        {shortHash(tx.hash)}
+                      </a>
+                    ) : (
+                      <span className="transaction-hash">{shortHash(tx.hash)}</span>
+                    )}
+                    {tx.replacedBy && <span className="transaction-detail">Replaced by {shortHash(tx.replacedBy)}</span>}
+                    {tx.error && <span className="transaction-detail">{tx.error}</span>}
+                  </div>
+                  <span className="transaction-status">{describeStatus(tx)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TransactionDrawer;
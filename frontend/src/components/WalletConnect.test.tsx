@@ -0,0 +1,148 @@
+import React from 'react';
+import { act, render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { Web3 } from 'web3';
+import WalletConnect from './WalletConnect';
+import { createFakeEthereum, FakeEthereumOptions, installFakeEthereum } from '../testUtils/fakeEthereum';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const OTHER_ACCOUNT = '0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC';
+const SEPOLIA = 11155111;
+const HARDHAT = 31337;
+
+const setup = (ethereumOptions?: FakeEthereumOptions) => {
+  const ethereum = ethereumOptions ? createFakeEthereum(ethereumOptions) : undefined;
+  installFakeEthereum(ethereum);
+
+  const props = {
+    onConnect: jest.fn(),
+    onDisconnect: jest.fn(),
+    onNotification: jest.fn(),
+  };
+  const utils = render(<WalletConnect {...props} />);
+  return { ethereum, ...props, ...utils };
+};
+
+describe('WalletConnect', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    installFakeEthereum(undefined);
+    jest.restoreAllMocks();
+  });
+
+  describe('connecting', () => {
+    it('asks for MetaMask when no wallet is installed', () => {
+      const { onNotification } = setup();
+
+      userEvent.click(screen.getByRole('button', { name: 'Connect Wallet' }));
+
+      expect(onNotification).toHaveBeenCalledWith('Please install MetaMask to connect your wallet', 'error');
+    });
+
+    it('connects the first account with the current chain', async () => {
+      const { onConnect, onNotification } = setup({ requestAccounts: () => [ACCOUNT], chainId: SEPOLIA });
+
+      userEvent.click(screen.getByRole('button', { name: 'Connect Wallet' }));
+
+      expect(await screen.findByRole('button', { name: 'Disconnect' })).toBeInTheDocument();
+      expect(onConnect).toHaveBeenCalledWith(ACCOUNT, expect.any(Web3), SEPOLIA);
+      expect(onNotification).toHaveBeenCalledWith('Wallet connected successfully!', 'success');
+    });
+
+    it('reports a rejected connection request', async () => {
+      const { onConnect, onNotification } = setup({
+        requestAccounts: () => {
+          throw Object.assign(new Error('User rejected the request.'), { code: 4001 });
+        },
+      });
+
+      userEvent.click(screen.getByRole('button', { name: 'Connect Wallet' }));
+
+      await waitFor(() => expect(onNotification).toHaveBeenCalledWith('Connection rejected by user', 'error'));
+      expect(onConnect).not.toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: 'Connect Wallet' })).toBeEnabled();
+    });
+
+    it('restores an existing connection on mount', async () => {
+      const { onConnect } = setup({ accounts: [ACCOUNT], chainId: HARDHAT });
+
+      await waitFor(() => expect(onConnect).toHaveBeenCalledWith(ACCOUNT, expect.any(Web3), HARDHAT));
+      expect(screen.getByRole('button', { name: 'Disconnect' })).toBeInTheDocument();
+    });
+
+    it('disconnects on request', async () => {
+      const { onDisconnect, onNotification } = setup({ accounts: [ACCOUNT] });
+
+      userEvent.click(await screen.findByRole('button', { name: 'Disconnect' }));
+
+      expect(onDisconnect).toHaveBeenCalled();
+      expect(onNotification).toHaveBeenCalledWith('Wallet disconnected', 'info');
+      expect(screen.getByRole('button', { name: 'Connect Wallet' })).toBeInTheDocument();
+    });
+  });
+
+  describe('wallet events', () => {
+    it('reconnects with the new account on accountsChanged', async () => {
+      const { ethereum, onConnect } = setup({ accounts: [ACCOUNT], chainId: SEPOLIA });
+      await screen.findByRole('button', { name: 'Disconnect' });
+
+      act(() => ethereum!.emit('accountsChanged', [OTHER_ACCOUNT]));
+
+      await waitFor(() => expect(onConnect).toHaveBeenLastCalledWith(OTHER_ACCOUNT, expect.any(Web3), SEPOLIA));
+    });
+
+    it('disconnects when every account is removed', async () => {
+      const { ethereum, onDisconnect, onNotification } = setup({ accounts: [ACCOUNT] });
+      await screen.findByRole('button', { name: 'Disconnect' });
+
+      act(() => ethereum!.emit('accountsChanged', []));
+
+      expect(onDisconnect).toHaveBeenCalled();
+      expect(onNotification).toHaveBeenCalledWith('Wallet disconnected', 'info');
+      expect(screen.getByRole('button', { name: 'Connect Wallet' })).toBeInTheDocument();
+    });
+
+    it('announces a chain change and reconnects on the new chain', async () => {
+      const { ethereum, onConnect, onNotification } = setup({ accounts: [ACCOUNT], chainId: SEPOLIA });
+      await waitFor(() => expect(onConnect).toHaveBeenCalled());
+
+      act(() => ethereum!.emit('chainChanged', '0x7a69'));
+
+      expect(onNotification).toHaveBeenCalledWith('Network changed to Hardhat Local', 'info');
+      expect(onConnect).toHaveBeenLastCalledWith(ACCOUNT, expect.any(Web3), HARDHAT);
+    });
+
+    it('only announces chain changes while disconnected', () => {
+      const { ethereum, onConnect, onNotification } = setup({ accounts: [] });
+
+      act(() => ethereum!.emit('chainChanged', '0x1'));
+
+      expect(onNotification).toHaveBeenCalledWith('Network changed to Ethereum Mainnet', 'info');
+      expect(onConnect).not.toHaveBeenCalled();
+    });
+
+    it('handles the provider disconnect event', async () => {
+      const { ethereum, onDisconnect } = setup({ accounts: [ACCOUNT] });
+      await screen.findByRole('button', { name: 'Disconnect' });
+
+      act(() => ethereum!.emit('disconnect'));
+
+      expect(onDisconnect).toHaveBeenCalled();
+      expect(screen.getByRole('button', { name: 'Connect Wallet' })).toBeInTheDocument();
+    });
+
+    it('removes its listeners on unmount', () => {
+      const { ethereum, unmount } = setup({ accounts: [] });
+      expect(ethereum!.listenerCount('accountsChanged')).toBe(1);
+
+      unmount();
+
+      expect(ethereum!.listenerCount('accountsChanged')).toBe(0);
+      expect(ethereum!.listenerCount('chainChanged')).toBe(0);
+      expect(ethereum!.listenerCount('disconnect')).toBe(0);
+    });
+  });
+});
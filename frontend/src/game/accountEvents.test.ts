@@ -0,0 +1,61 @@
+import { waitFor } from '@testing-library/react';
+import { watchAccountEvents } from './accountEvents';
+import { createFakeClient, createFakeContract } from '../testUtils/fakeContract';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+
+const setup = (events: { [event: string]: any[] }) => {
+  const contract = createFakeContract({ events });
+  const client = createFakeClient(contract, { account: ACCOUNT, blockNumber: 100 });
+  const getBlockNumber = client.provider.getBlockNumber as jest.Mock;
+  return { contract, client, getBlockNumber };
+};
+
+describe('watchAccountEvents (polling)', () => {
+  it('reports transfers to or from the account in newly mined blocks', async () => {
+    const { contract, client, getBlockNumber } = setup({ TransferSingle: [{ blockNumber: 101 }] });
+    const onChange = jest.fn();
+    const stop = watchAccountEvents(client, onChange, { wsUrl: '', pollInterval: 10 });
+
+    await waitFor(() => expect(getBlockNumber).toHaveBeenCalled());
+    expect(onChange).not.toHaveBeenCalled();
+
+    getBlockNumber.mockResolvedValue(101);
+    await waitFor(() => expect(onChange).toHaveBeenCalledTimes(1));
+    stop();
+
+    expect(contract.queryFilter).toHaveBeenCalledWith({ name: 'TransferSingle', args: [null, ACCOUNT] }, 101, 101);
+    expect(contract.queryFilter).toHaveBeenCalledWith(
+      { name: 'TransferBatch', args: [null, null, ACCOUNT] },
+      101,
+      101
+    );
+    expect(contract.queryFilter).toHaveBeenCalledWith({ name: 'PlayerReset', args: [ACCOUNT] }, 101, 101);
+    expect(contract.queryFilter).toHaveBeenCalledWith({ name: 'SeasonStarted', args: [] }, 101, 101);
+    expect(contract.queryFilter).toHaveBeenCalledWith({ name: 'Paused', args: [] }, 101, 101);
+  });
+
+  it('stays quiet while new blocks carry no account events', async () => {
+    const { contract, client, getBlockNumber } = setup({});
+    const onChange = jest.fn();
+    const stop = watchAccountEvents(client, onChange, { wsUrl: '', pollInterval: 10 });
+
+    await waitFor(() => expect(getBlockNumber).toHaveBeenCalled());
+    getBlockNumber.mockResolvedValue(102);
+    await waitFor(() => expect(contract.queryFilter).toHaveBeenCalled());
+    stop();
+
+    expect(onChange).not.toHaveBeenCalled();
+  });
+
+  it('stops polling once unsubscribed', async () => {
+    const { client, getBlockNumber } = setup({ PlayerReset: [{ blockNumber: 101 }] });
+    const stop = watchAccountEvents(client, jest.fn(), { wsUrl: '', pollInterval: 10 });
+    await waitFor(() => expect(getBlockNumber).toHaveBeenCalled());
+    stop();
+
+    const calls = getBlockNumber.mock.calls.length;
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(getBlockNumber).toHaveBeenCalledTimes(calls);
+  });
+});
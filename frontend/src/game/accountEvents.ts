@@ -0,0 +1,90 @@
+import { BaseContract, WebSocketProvider } from 'ethers';
+import { DungeonGameClient } from './dungeonGameClient';
+
+// Set REACT_APP_WS_RPC_URL (e.g. ws://localhost:8545) to receive account events
+// over a websocket subscription; without it the wallet's provider is polled.
+export const WS_RPC_URL = process.env.REACT_APP_WS_RPC_URL || '';
+
+// How often the polling fallback looks for new blocks (ms)
+export const ACCOUNT_EVENTS_POLL_INTERVAL = 4000;
+
+interface WatchOptions {
+  wsUrl?: string;
+  pollInterval?: number;
+}
+
+// Events that change a player's balances: transfers from or to them (mints
+// and burns included), admin resets and new seasons (which soft-reset everyone),
+// plus pauses, which change what they can do. Indexed arguments are positional.
+const accountFilters = (contract: BaseContract, account: string) => [
+  contract.filters.TransferSingle(null, account),
+  contract.filters.TransferSingle(null, null, account),
+  contract.filters.TransferBatch(null, account),
+  contract.filters.TransferBatch(null, null, account),
+  contract.filters.PlayerReset(account),
+  contract.filters.SeasonStarted(),
+  contract.filters.Paused(),
+  contract.filters.Unpaused(),
+];
+
+const subscribe = (client: DungeonGameClient, onChange: () => void, wsUrl: string) => {
+  const provider = new WebSocketProvider(wsUrl);
+  const contract: BaseContract = client.token.connect(provider);
+
+  accountFilters(contract, client.account).forEach(filter => {
+    contract.on(filter, () => onChange()).catch(error => console.error('Error subscribing to account events:', error));
+  });
+
+  return () => {
+    contract.removeAllListeners().finally(() => provider.destroy());
+  };
+};
+
+const poll = (client: DungeonGameClient, onChange: () => void, pollInterval: number) => {
+  const contract: BaseContract = client.token;
+  const filters = accountFilters(contract, client.account);
+  let lastBlock: number | null = null;
+  let isChecking = false;
+  let stopped = false;
+
+  // Query the blocks mined since the last check; the first check only sets the starting point
+  const check = async () => {
+    if (isChecking) return;
+    isChecking = true;
+    try {
+      const latest = await client.provider.getBlockNumber();
+      if (lastBlock !== null && latest > lastBlock) {
+        const fromBlock = lastBlock + 1;
+        const batches = await Promise.all(filters.map(filter => contract.queryFilter(filter, fromBlock, latest)));
+        if (!stopped && batches.some(batch => batch.length > 0)) {
+          onChange();
+        }
+      }
+      lastBlock = Math.max(lastBlock ?? 0, latest);
+    } catch (error) {
+      console.error('Error polling account events:', error);
+    } finally {
+      isChecking = false;
+    }
+  };
+
+  check();
+  const timer = setInterval(check, pollInterval);
+  return () => {
+    stopped = true;
+    clearInterval(timer);
+  };
+};
+
+/**
+ * Call `onChange` whenever a mined event touches the connected account's
+ * balances, including transfers from other players, admin mints/resets and
+ * the start of a new season, or pauses or resumes part of the game.
+ * Uses a websocket subscription when REACT_APP_WS_RPC_URL is set and polls
+ * the wallet's provider otherwise. Returns a function that stops watching.
+ */
+export const watchAccountEvents = (
+  client: DungeonGameClient,
+  onChange: () => void,
+  { wsUrl = WS_RPC_URL, pollInterval = ACCOUNT_EVENTS_POLL_INTERVAL }: WatchOptions = {}
+): (() => void) => (wsUrl ? subscribe(client, onChange, wsUrl) : poll(client, onChange, pollInterval));
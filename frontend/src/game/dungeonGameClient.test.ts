@@ -0,0 +1,91 @@
+import { Contract, makeError } from 'ethers';
+import DungeonTokenABI from '../abis/DungeonToken.json';
+import type { DungeonToken } from '../types';
+import { DungeonGameClient, GameProvider, ZERO_ADDRESS } from './dungeonGameClient';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const token = new Contract(TOKEN, DungeonTokenABI.abi) as unknown as DungeonToken;
+const client = new DungeonGameClient(
+  {} as GameProvider,
+  ACCOUNT,
+  { dungeonToken: TOKEN, tradeEscrow: ZERO_ADDRESS, marketplace: ZERO_ADDRESS },
+  { token, escrow: null, marketplace: null }
+);
+
+describe('DungeonGameClient.getRevertReason', () => {
+  it('returns the require() message', () => {
+    const error = makeError('execution reverted: "Insufficient energy"', 'CALL_EXCEPTION', {
+      reason: 'Insufficient energy',
+    } as any);
+
+    expect(client.getRevertReason(error)).toBe('Insufficient energy');
+  });
+
+  it('decodes custom errors from the revert data', () => {
+    const data = token.interface.encodeErrorResult('ERC1155InsufficientBalance', [ACCOUNT, 0, 1, 1001]);
+    const error = makeError('execution reverted (unknown custom error)', 'CALL_EXCEPTION', {
+      reason: null,
+      data,
+    } as any);
+
+    expect(client.getRevertReason(error)).toBe('ERC1155InsufficientBalance');
+  });
+
+  it('reports a transaction rejected in the wallet', () => {
+    const error = makeError('user rejected action', 'ACTION_REJECTED', { action: 'sendTransaction', reason: 'rejected' });
+
+    expect(client.getRevertReason(error)).toBe('Transaction rejected in wallet');
+  });
+
+  it('falls back to the error message, then the given fallback', () => {
+    expect(client.getRevertReason(new Error('network down'))).toBe('network down');
+    expect(client.getRevertReason(undefined, 'Crafting failed')).toBe('Crafting failed');
+  });
+});
+
+describe('DungeonGameClient contracts', () => {
+  it('throws when an undeployed contract is used', () => {
+    expect(() => client.escrow).toThrow('Trade escrow is not deployed on this network');
+    expect(() => client.marketplace).toThrow('Marketplace is not deployed on this network');
+  });
+});
+
+describe('DungeonGameClient.getInventory', () => {
+  const inventoryClient = (blockNumber: jest.Mock) => {
+    const getInventory = jest.fn(async () => [[BigInt(1), BigInt(1001)], [BigInt(7), BigInt(3)], [BigInt(0), BigInt(1)]]);
+    const fakeToken = { getInventory } as unknown as DungeonToken;
+    const inventoryReader = new DungeonGameClient(
+      { getBlockNumber: blockNumber } as unknown as GameProvider,
+      ACCOUNT,
+      { dungeonToken: TOKEN, tradeEscrow: ZERO_ADDRESS, marketplace: ZERO_ADDRESS },
+      { token: fakeToken, escrow: null, marketplace: null }
+    );
+    return { inventoryReader, getInventory };
+  };
+
+  it('maps balances and craft counts by id', async () => {
+    const { inventoryReader } = inventoryClient(jest.fn(async () => 100));
+
+    expect(await inventoryReader.getInventory()).toEqual({
+      blockNumber: 100,
+      balances: { 1: 7, 1001: 3 },
+      craftCounts: { 0: 0, 1: 1 },
+    });
+  });
+
+  it('reads the contract once per block', async () => {
+    const blockNumber = jest.fn(async () => 100);
+    const { inventoryReader, getInventory } = inventoryClient(blockNumber);
+
+    await Promise.all([inventoryReader.getInventory(), inventoryReader.getInventory()]);
+    await inventoryReader.getInventory();
+    expect(getInventory).toHaveBeenCalledTimes(1);
+    expect(getInventory).toHaveBeenCalledWith(ACCOUNT, { blockTag: 100 });
+
+    blockNumber.mockResolvedValue(101);
+    await inventoryReader.getInventory();
+    expect(getInventory).toHaveBeenCalledTimes(2);
+  });
+});
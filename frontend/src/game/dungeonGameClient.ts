@@ -0,0 +1,339 @@
+import {
+  BaseContract,
+  BrowserProvider,
+  Contract,
+  ContractTransactionReceipt,
+  Eip1193Provider,
+  ErrorFragment,
+  EventLog,
+  formatEther,
+  Interface,
+  isError,
+  Result,
+} from 'ethers';
+import DungeonTokenABI from '../abis/DungeonToken.json';
+import MarketplaceABI from '../abis/Marketplace.json';
+import TradeEscrowABI from '../abis/TradeEscrow.json';
+// Type-only, so the generated factories (and their bytecode) stay out of the bundle
+import type { DungeonToken, Marketplace, TradeEscrow } from '../types';
+import type { ContractMethodArgs, TypedContractMethod } from '../types/common';
+import { GameError, isGameError } from './gameErrors';
+import type { TransactionTracker } from './transactionTracker';
+
+export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Deployed contract addresses (zero address where a contract is not deployed)
+export interface GameAddresses {
+  dungeonToken: string;
+  tradeEscrow: string;
+  marketplace: string;
+}
+
+// Read-only contract instances; escrow and marketplace are null when not deployed
+export interface GameContracts {
+  token: DungeonToken;
+  escrow: TradeEscrow | null;
+  marketplace: Marketplace | null;
+}
+
+// Contracts connected to the player's signer, as handed to `write`
+export interface SignedContracts {
+  token: DungeonToken;
+  escrow: TradeEscrow;
+  marketplace: Marketplace;
+}
+
+// The parts of ethers' BrowserProvider the client relies on
+export type GameProvider = Pick<
+  BrowserProvider,
+  | 'getBlockNumber'
+  | 'getBlock'
+  | 'getFeeData'
+  | 'getSigner'
+  | 'getTransaction'
+  | 'getTransactionReceipt'
+  | 'getTransactionCount'
+>;
+
+export interface GasPrices {
+  gasPrice: bigint;
+  baseFeePerGas: bigint | null;
+}
+
+// The player's balance of every registered item and craft count of every
+// recipe, as of `blockNumber`
+export interface InventorySnapshot {
+  blockNumber: number;
+  balances: { [itemId: number]: number };
+  craftCounts: { [recipeId: number]: number };
+}
+
+type WriteMethod<A extends Array<any>> = TypedContractMethod<A, any, 'nonpayable'>;
+
+const requireDeployed = <T>(contract: T | null, name: string): T => {
+  if (!contract) {
+    throw new Error(`${name} is not deployed on this network`);
+  }
+  return contract;
+};
+
+/**
+ * DungeonGameClient
+ * Typed access to the game contracts (TypeChain ethers-v6 bindings):
+ * reads go through the typed contract instances, writes are signed by the
+ * connected account and wait for the receipt, and failed calls can be
+ * turned back into the contract's revert reason
+ */
+export class DungeonGameClient {
+  readonly provider: GameProvider;
+  readonly account: string;
+  readonly addresses: GameAddresses;
+  readonly contracts: GameContracts;
+  // Records every transaction sent through `write`, when given
+  readonly tracker: TransactionTracker | null;
+
+  private inventoryCache: { blockNumber: number; snapshot: Promise<InventorySnapshot> } | null = null;
+
+  constructor(
+    provider: GameProvider,
+    account: string,
+    addresses: GameAddresses,
+    contracts: GameContracts,
+    tracker: TransactionTracker | null = null
+  ) {
+    this.provider = provider;
+    this.account = account;
+    this.addresses = addresses;
+    this.contracts = contracts;
+    this.tracker = tracker;
+  }
+
+  /**
+   * Build a client on top of the wallet's EIP-1193 provider (MetaMask's window.ethereum)
+   */
+  static connect(
+    ethereum: Eip1193Provider,
+    account: string,
+    addresses: GameAddresses,
+    tracker: TransactionTracker | null = null
+  ): DungeonGameClient {
+    const provider = new BrowserProvider(ethereum);
+    const isDeployed = (address: string) => Boolean(address) && address !== ZERO_ADDRESS;
+
+    return new DungeonGameClient(provider, account, addresses, {
+      token: new Contract(addresses.dungeonToken, DungeonTokenABI.abi, provider) as unknown as DungeonToken,
+      escrow: isDeployed(addresses.tradeEscrow)
+        ? (new Contract(addresses.tradeEscrow, TradeEscrowABI.abi, provider) as unknown as TradeEscrow)
+        : null,
+      marketplace: isDeployed(addresses.marketplace)
+        ? (new Contract(addresses.marketplace, MarketplaceABI.abi, provider) as unknown as Marketplace)
+        : null,
+    }, tracker);
+  }
+
+  get token(): DungeonToken {
+    return this.contracts.token;
+  }
+
+  get escrow(): TradeEscrow {
+    return requireDeployed(this.contracts.escrow, 'Trade escrow');
+  }
+
+  get marketplace(): Marketplace {
+    return requireDeployed(this.contracts.marketplace, 'Marketplace');
+  }
+
+  private async signed(): Promise<SignedContracts> {
+    const signer = await this.provider.getSigner(this.account);
+    const { token, escrow, marketplace } = this.contracts;
+    return {
+      token: token.connect(signer),
+      get escrow() {
+        return requireDeployed(escrow, 'Trade escrow').connect(signer);
+      },
+      get marketplace() {
+        return requireDeployed(marketplace, 'Marketplace').connect(signer);
+      },
+    };
+  }
+
+  /**
+   * Send a transaction from the connected account and wait until it is mined,
+   * e.g. `client.write(({ token }) => token.craftItem, recipeId)`.
+   * A speed-up from the wallet resolves with the replacement's receipt;
+   * cancelling or replacing it from the wallet rejects.
+   */
+  async write<A extends Array<any>>(
+    select: (contracts: SignedContracts) => WriteMethod<A>,
+    ...args: ContractMethodArgs<A, 'nonpayable'>
+  ): Promise<ContractTransactionReceipt> {
+    const method = select(await this.signed());
+    const tx = await method(...args);
+    this.tracker?.add({ hash: tx.hash, label: method.fragment?.name ?? 'transaction', from: tx.from, nonce: tx.nonce });
+
+    let receipt: ContractTransactionReceipt | null;
+    try {
+      receipt = await tx.wait();
+    } catch (error) {
+      if (isError(error, 'TRANSACTION_REPLACED') && error.reason === 'repriced' && error.receipt.status === 1) {
+        this.tracker?.update(tx.hash, {
+          status: 'confirmed',
+          blockNumber: error.receipt.blockNumber,
+          replacedBy: error.replacement.hash,
+        });
+        this.inventoryCache = null;
+        return new ContractTransactionReceipt(
+          this.contractAt(error.receipt.to).interface,
+          this.provider as BrowserProvider,
+          error.receipt
+        );
+      }
+
+      if (isError(error, 'TRANSACTION_REPLACED')) {
+        this.tracker?.update(tx.hash, {
+          status: error.reason === 'repriced' ? 'failed' : 'replaced',
+          replacedBy: error.replacement.hash,
+        });
+      } else if (isError(error, 'CALL_EXCEPTION')) {
+        this.tracker?.update(tx.hash, { status: 'failed', error: this.getRevertReason(error) });
+      } else {
+        // Lost track of it (e.g. the connection dropped); it may still be mined
+        this.tracker?.update(tx.hash, { background: true });
+      }
+      throw error;
+    }
+
+    // The player's own transaction changed the inventory, whatever block we are on
+    this.inventoryCache = null;
+    if (!receipt) {
+      throw new Error(`Transaction ${tx.hash} was not mined`);
+    }
+    this.tracker?.update(tx.hash, { status: 'confirmed', blockNumber: receipt.blockNumber });
+    return receipt;
+  }
+
+  /**
+   * The player's inventory, read with a single getInventory call per block.
+   * Components refreshing in the same block share one request.
+   */
+  async getInventory(): Promise<InventorySnapshot> {
+    const blockNumber = await this.provider.getBlockNumber();
+    if (this.inventoryCache?.blockNumber !== blockNumber) {
+      const snapshot = this.token
+        .getInventory(this.account, { blockTag: blockNumber })
+        .then(([ids, balances, craftCounts]) => ({
+          blockNumber,
+          balances: Object.fromEntries(ids.map((id, index) => [Number(id), Number(balances[index])])),
+          craftCounts: Object.fromEntries(craftCounts.map((count, recipeId) => [recipeId, Number(count)])),
+        }));
+      // Don't keep a failed read around for the rest of the block
+      snapshot.catch(() => {
+        if (this.inventoryCache?.snapshot === snapshot) this.inventoryCache = null;
+      });
+      this.inventoryCache = { blockNumber, snapshot };
+    }
+    return this.inventoryCache.snapshot;
+  }
+
+  /**
+   * Estimated ETH cost of a transaction at the current gas price, formatted for display
+   * Throws if the estimate fails (usually because the transaction would revert)
+   */
+  async estimateCost<A extends Array<any>>(
+    select: (contracts: SignedContracts) => WriteMethod<A>,
+    ...args: ContractMethodArgs<A, 'nonpayable'>
+  ): Promise<string> {
+    const [gas, { gasPrice }] = await Promise.all([
+      select(await this.signed()).estimateGas(...args),
+      this.getGasPrices(),
+    ]);
+    return `~${parseFloat(formatEther(gas * gasPrice)).toFixed(4)} ETH`;
+  }
+
+  /**
+   * Current gas price and, on EIP-1559 networks, the latest block's base fee
+   */
+  async getGasPrices(): Promise<GasPrices> {
+    const [feeData, block] = await Promise.all([this.provider.getFeeData(), this.provider.getBlock('latest')]);
+    return {
+      gasPrice: feeData.gasPrice ?? feeData.maxFeePerGas ?? BigInt(0),
+      baseFeePerGas: block?.baseFeePerGas ?? null,
+    };
+  }
+
+  /**
+   * Arguments of the first `eventName` event in a receipt, if it emitted one
+   */
+  findEvent(receipt: ContractTransactionReceipt, eventName: string): EventLog['args'] | undefined {
+    const log = receipt.logs.find(
+      (entry): entry is EventLog => entry instanceof EventLog && entry.eventName === eventName
+    );
+    return log?.args;
+  }
+
+  /**
+   * Best human-readable reason for a failed call or transaction:
+   * the require() message, the name of a custom error, or the
+   * wallet/provider message. For player-facing messages about custom
+   * errors see describeFailure in gameErrors.ts.
+   */
+  getRevertReason(error: unknown, fallback = 'Transaction failed'): string {
+    if (isError(error, 'ACTION_REJECTED')) {
+      return 'Transaction rejected in wallet';
+    }
+    if (isError(error, 'CALL_EXCEPTION')) {
+      if (error.reason) return error.reason;
+      if (error.revert) return error.revert.name;
+      const decoded = this.decodeRevert(error);
+      if (decoded) return decoded.name;
+    }
+
+    const { shortMessage, message } = (error || {}) as { shortMessage?: string; message?: string };
+    return shortMessage || message || fallback;
+  }
+
+  // The game contract deployed at `address` (the token when it is none of them)
+  private contractAt(address: string | null): BaseContract {
+    const deployed: Array<[string, BaseContract | null]> = [
+      [this.addresses.tradeEscrow, this.contracts.escrow],
+      [this.addresses.marketplace, this.contracts.marketplace],
+    ];
+    const match = deployed.find(([deployedAt, contract]) => contract && deployedAt.toLowerCase() === address?.toLowerCase());
+    return match?.[1] ?? this.contracts.token;
+  }
+
+  /**
+   * The custom error a failed call reverted with, decoded against every game
+   * contract's ABI (so errors bubbling up from the token through the escrow
+   * or marketplace decode too). Null for require() reasons, panics and
+   * anything that is not a revert.
+   */
+  decodeRevert(error: unknown): GameError | null {
+    if (!isError(error, 'CALL_EXCEPTION')) return null;
+    const { data, revert } = error;
+
+    for (const contractInterface of this.interfaces()) {
+      const parsed = data ? contractInterface.parseError(data) : null;
+      if (parsed) return toGameError(parsed.fragment, parsed.args);
+
+      const fragment = revert ? contractInterface.getError(revert.signature) : null;
+      if (fragment && revert) return toGameError(fragment, revert.args);
+    }
+    return null;
+  }
+
+  private interfaces(): Interface[] {
+    return [this.contracts.token, this.contracts.escrow, this.contracts.marketplace]
+      .filter((contract): contract is NonNullable<typeof contract> => contract !== null)
+      .map(contract => contract.interface);
+  }
+}
+
+// Decoded error arguments keyed by ABI parameter name, if it is one the game knows
+const toGameError = (fragment: ErrorFragment, args: Result | unknown[]): GameError | null => {
+  const decoded = {
+    name: fragment.name,
+    args: Object.fromEntries(fragment.inputs.map((input, index) => [input.name, args[index]])),
+  };
+  return isGameError(decoded) ? decoded : null;
+};
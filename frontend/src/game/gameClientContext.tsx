@@ -0,0 +1,273 @@
+import React, { createContext, useCallback, useContext, useEffect, useState } from 'react';
+import { ContractTransactionReceipt, hexlify, randomBytes, solidityPackedKeccak256 } from 'ethers';
+import { DungeonGameClient, ZERO_ADDRESS } from './dungeonGameClient';
+import { fetchPlayerBalances, isIndexerEnabled } from './indexerClient';
+
+const GameClientContext = createContext<DungeonGameClient | null>(null);
+
+interface GameClientProviderProps {
+  client: DungeonGameClient;
+  children: React.ReactNode;
+}
+
+/**
+ * GameClientProvider
+ * Shares one DungeonGameClient (connected account + game contracts) with every component
+ */
+export const GameClientProvider: React.FC<GameClientProviderProps> = ({ client, children }) => (
+  <GameClientContext.Provider value={client}>{children}</GameClientContext.Provider>
+);
+
+export const useGameClient = (): DungeonGameClient => {
+  const client = useContext(GameClientContext);
+  if (!client) {
+    throw new Error('useGameClient must be used inside a GameClientProvider');
+  }
+  return client;
+};
+
+export const isTokenDeployed = (client: DungeonGameClient) =>
+  Boolean(client.addresses.dungeonToken) && client.addresses.dungeonToken !== ZERO_ADDRESS;
+
+interface InventoryOptions {
+  // Read balances from the event indexer when it is configured
+  fromIndexer?: boolean;
+}
+
+/**
+ * The connected player's balances of the given items, keyed by token ID.
+ * Balances come from the client's per-block inventory snapshot, so every
+ * component refreshing in the same block shares one contract call.
+ * Reloads whenever the item list or `refreshKey` changes.
+ */
+export const useInventory = (itemIds: number[], refreshKey?: number, { fromIndexer = false }: InventoryOptions = {}) => {
+  const client = useGameClient();
+  const [balances, setBalances] = useState<{ [key: number]: number }>({});
+  const [isLoading, setIsLoading] = useState<boolean>(true);
+
+  // Callers usually build the ID list inline, so compare by value
+  const idsKey = itemIds.join(',');
+
+  const reload = useCallback(async () => {
+    if (!isTokenDeployed(client)) {
+      setIsLoading(false);
+      return;
+    }
+
+    const ids = idsKey ? idsKey.split(',').map(Number) : [];
+    try {
+      // Prefer the event indexer when configured, it saves the RPC call entirely
+      let allBalances: { [key: number]: number } | null = null;
+      if (fromIndexer && isIndexerEnabled()) {
+        try {
+          allBalances = await fetchPlayerBalances(client.account);
+        } catch (error) {
+          console.error('Indexer unavailable, reading balances from the contract:', error);
+        }
+      }
+      if (!allBalances) {
+        allBalances = (await client.getInventory()).balances;
+      }
+
+      setBalances(Object.fromEntries(ids.map(id => [id, allBalances![id] || 0])));
+    } catch (error) {
+      console.error('Error loading balances:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [client, idsKey, fromIndexer]);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  const getBalance = useCallback((id: number) => balances[id] || 0, [balances]);
+
+  return { balances, getBalance, isLoading, reload };
+};
+
+// Recipe as stored in the contract's recipe registry
+export interface Recipe {
+  id: number;
+  inputIds: number[];
+  inputAmounts: number[];
+  goldCost: number;
+  outputId: number;
+  outputAmount: number;
+  maxPerPlayer: number;
+  enabled: boolean;
+}
+
+/**
+ * Enabled recipes, how often the player crafted each one (for per-player caps)
+ * and the craft transaction itself
+ */
+export const useCraft = (refreshKey?: number) => {
+  const client = useGameClient();
+  const [recipes, setRecipes] = useState<Recipe[]>([]);
+  const [craftCounts, setCraftCounts] = useState<{ [key: number]: number }>({});
+
+  const reload = useCallback(async () => {
+    if (!isTokenDeployed(client)) return;
+
+    try {
+      const { token } = client;
+      const count = Number(await token.getRecipeCount());
+      const rawRecipes = await Promise.all(Array.from({ length: count }, (_, id) => token.getRecipe(id)));
+
+      const loadedRecipes: Recipe[] = rawRecipes
+        .map((raw, id) => ({
+          id,
+          inputIds: raw.inputIds.map(Number),
+          inputAmounts: raw.inputAmounts.map(Number),
+          goldCost: Number(raw.goldCost),
+          outputId: Number(raw.outputId),
+          outputAmount: Number(raw.outputAmount),
+          maxPerPlayer: Number(raw.maxPerPlayer),
+          enabled: Boolean(raw.enabled),
+        }))
+        .filter(recipe => recipe.enabled);
+
+      // Craft counts come with the inventory snapshot instead of a call per recipe
+      const { craftCounts: counts } = await client.getInventory();
+      setCraftCounts(Object.fromEntries(loadedRecipes.map(recipe => [recipe.id, counts[recipe.id] || 0])));
+      setRecipes(loadedRecipes);
+    } catch (error) {
+      console.error('Error loading crafting recipes:', error);
+    }
+  }, [client]);
+
+  useEffect(() => {
+    reload();
+  }, [reload, refreshKey]);
+
+  const craft = useCallback((recipeId: number) => client.write(({ token }) => token.craftItem, recipeId), [client]);
+
+  return { recipes, craftCounts, reload, craft };
+};
+
+// Mirrors DungeonToken.RunKind
+export const RUN_KIND = {
+  DUNGEON: 0,
+  TIME_REWARD: 1,
+};
+
+// Dungeon tier as configured in the contract
+export interface DungeonTier {
+  id: number;
+  name: string;
+  energyCost: number;
+  lootIds: number[];
+  lootWeights: number[];
+  goldMin: number;
+  goldMax: number;
+}
+
+/**
+ * Dungeon tiers plus the commit-reveal actions for dungeon runs and time rewards.
+ * Seeds are kept in localStorage so a run can still be revealed after a reload.
+ */
+export const useDungeonRun = () => {
+  const client = useGameClient();
+  const [dungeons, setDungeons] = useState<DungeonTier[]>([]);
+
+  // Load enabled dungeon tiers with their energy cost, loot table and gold range
+  useEffect(() => {
+    if (!isTokenDeployed(client)) return;
+
+    let cancelled = false;
+    const loadDungeons = async () => {
+      const count = Number(await client.token.getDungeonCount());
+      const rawDungeons = await Promise.all(Array.from({ length: count }, (_, id) => client.token.getDungeon(id)));
+      if (cancelled) return;
+
+      setDungeons(
+        rawDungeons
+          .map((raw, id) => ({
+            id,
+            name: raw.name,
+            energyCost: Number(raw.energyCost),
+            lootIds: raw.lootIds.map(Number),
+            lootWeights: raw.lootWeights.map(Number),
+            goldMin: Number(raw.goldMin),
+            goldMax: Number(raw.goldMax),
+            enabled: Boolean(raw.enabled),
+          }))
+          .filter(dungeon => dungeon.enabled)
+      );
+    };
+    loadDungeons().catch(error => console.error('Error loading dungeons:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client]);
+
+  const seedStorageKey = useCallback(
+    (kind: number) =>
+      `dungeon-seed:${client.addresses.dungeonToken.toLowerCase()}:${client.account.toLowerCase()}:${kind}`,
+    [client]
+  );
+
+  const getStoredSeed = useCallback((kind: number) => localStorage.getItem(seedStorageKey(kind)), [seedStorageKey]);
+
+  /**
+   * Commit to a fresh seed (keccak256(abi.encodePacked(player, seed)), as checked
+   * by the contract) and remember the seed once the commit is mined. A rejected or
+   * reverted commit, e.g. from a second tab while a run is pending, leaves the
+   * seed of the pending run in place.
+   */
+  const commitRun = useCallback(
+    async (kind: number, send: (commitment: string) => Promise<ContractTransactionReceipt>) => {
+      const seed = hexlify(randomBytes(32));
+      const receipt = await send(solidityPackedKeccak256(['address', 'bytes32'], [client.account, seed]));
+      localStorage.setItem(seedStorageKey(kind), seed);
+      return receipt;
+    },
+    [client, seedStorageKey]
+  );
+
+  const commitDungeonRun = useCallback(
+    (dungeonId: number) =>
+      commitRun(RUN_KIND.DUNGEON, commitment => client.write(({ token }) => token.commitDungeonRun, dungeonId, commitment)),
+    [client, commitRun]
+  );
+
+  const commitTimeRewards = useCallback(
+    () => commitRun(RUN_KIND.TIME_REWARD, commitment => client.write(({ token }) => token.commitTimeRewards, commitment)),
+    [client, commitRun]
+  );
+
+  // Reveal with the stored seed; the seed is dropped once the reveal is mined
+  const reveal = useCallback(
+    async (kind: number) => {
+      const seed = getStoredSeed(kind);
+      if (!seed) {
+        throw new Error('Seed not stored in this browser');
+      }
+      const receipt = kind === RUN_KIND.DUNGEON
+        ? await client.write(({ token }) => token.revealDungeonRun, seed)
+        : await client.write(({ token }) => token.revealTimeRewards, seed);
+      localStorage.removeItem(seedStorageKey(kind));
+      return receipt;
+    },
+    [client, getStoredSeed, seedStorageKey]
+  );
+
+  const requestDungeonRun = useCallback(
+    (dungeonId: number) => client.write(({ token }) => token.requestDungeonRun, dungeonId),
+    [client]
+  );
+
+  // Whatever was spent on an expired commit (energy or cooldown) is forfeited
+  const expireRun = useCallback(
+    async (kind: number) => {
+      const receipt = await client.write(({ token }) => token.expireRun, client.account, kind);
+      localStorage.removeItem(seedStorageKey(kind));
+      return receipt;
+    },
+    [client, seedStorageKey]
+  );
+
+  return { dungeons, getStoredSeed, commitDungeonRun, commitTimeRewards, reveal, requestDungeonRun, expireRun };
+};
@@ -0,0 +1,72 @@
+import { Contract, id, makeError } from 'ethers';
+import DungeonTokenABI from '../abis/DungeonToken.json';
+import type { DungeonToken } from '../types';
+import { DungeonGameClient, GameProvider, ZERO_ADDRESS } from './dungeonGameClient';
+import { describeFailure } from './gameErrors';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const TOKEN = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+const token = new Contract(TOKEN, DungeonTokenABI.abi) as unknown as DungeonToken;
+const client = new DungeonGameClient(
+  {} as GameProvider,
+  ACCOUNT,
+  { dungeonToken: TOKEN, tradeEscrow: ZERO_ADDRESS, marketplace: ZERO_ADDRESS },
+  { token, escrow: null, marketplace: null }
+);
+
+const itemName = (id: number) => (id === 2 ? 'Gold' : `Item ${id}`);
+
+const customError = (name: string, args: unknown[]) =>
+  makeError('execution reverted (unknown custom error)', 'CALL_EXCEPTION', {
+    reason: null,
+    data: token.interface.encodeErrorResult(name, args),
+  } as any);
+
+describe('DungeonGameClient.decodeRevert', () => {
+  it('decodes custom errors with their arguments by name', () => {
+    expect(client.decodeRevert(customError('CraftLimitReached', [3, 1]))).toEqual({
+      name: 'CraftLimitReached',
+      args: { recipeId: BigInt(3), limit: BigInt(1) },
+    });
+  });
+
+  it('ignores require() reasons and other failures', () => {
+    const required = makeError('execution reverted: "nope"', 'CALL_EXCEPTION', { reason: 'nope' } as any);
+
+    expect(client.decodeRevert(required)).toBeNull();
+    expect(client.decodeRevert(new Error('network down'))).toBeNull();
+  });
+});
+
+describe('describeFailure', () => {
+  it('turns a decoded error into a player-facing message', () => {
+    expect(describeFailure(client, customError('InsufficientBalance', [2, 10, 50]), 'Failed', itemName)).toEqual({
+      message: 'Not enough Gold: you have 10, need 50.',
+      type: 'warning',
+    });
+  });
+
+  it('names the role a missing-role error asks for', () => {
+    const error = customError('AccessControlUnauthorizedAccount', [ACCOUNT, id('GAME_MASTER_ROLE')]);
+
+    expect(describeFailure(client, error, 'Failed', itemName)).toEqual({
+      message: 'That needs the Game Master role.',
+      type: 'error',
+    });
+  });
+
+  it('names the paused action', () => {
+    expect(describeFailure(client, customError('ActionPaused', [1]), 'Failed', itemName)).toEqual({
+      message: 'Paused for maintenance: Crafting. Try again later.',
+      type: 'warning',
+    });
+  });
+
+  it('falls back to the revert reason as an error', () => {
+    expect(describeFailure(client, new Error('network down'), 'Failed', itemName)).toEqual({
+      message: 'network down',
+      type: 'error',
+    });
+  });
+});
@@ -0,0 +1,220 @@
+import type { DungeonGameClient } from './dungeonGameClient';
+import { actionLabel } from './pause';
+import { roleLabel } from './roles';
+
+type NoArgs = Record<string, never>;
+
+// Arguments of the custom errors the game contracts (and the OpenZeppelin
+// code they build on) revert with, by ABI parameter name
+export interface GameErrorArgs {
+  // DungeonToken
+  UnknownItem: { itemId: bigint };
+  UnknownRecipe: { recipeId: bigint };
+  UnknownDungeon: { dungeonId: bigint };
+  InsufficientBalance: { tokenId: bigint; have: bigint; need: bigint };
+  ItemSoulbound: { itemId: bigint };
+  MaxSupplyExceeded: { itemId: bigint; maxSupply: bigint };
+  StarterPackAlreadyClaimed: NoArgs;
+  DungeonDisabled: { dungeonId: bigint };
+  RecipeDisabled: { recipeId: bigint };
+  CraftLimitReached: { recipeId: bigint; limit: bigint };
+  CooldownActive: { readyAt: bigint };
+  RunAlreadyPending: { kind: bigint };
+  NoPendingRun: { player: string; kind: bigint };
+  RevealTooEarly: { revealBlock: bigint };
+  RevealWindowClosed: { lastRevealBlock: bigint };
+  RunNotExpired: { lastRevealBlock: bigint };
+  InvalidSeed: NoArgs;
+  RandomnessCoordinatorActive: NoArgs;
+  NoRandomnessCoordinator: NoArgs;
+  ActionPaused: { action: bigint };
+  // TradeEscrow
+  UnknownOffer: { offerId: bigint };
+  OfferNotOpen: { offerId: bigint; status: bigint };
+  NotOfferTaker: { offerId: bigint };
+  NotOfferParty: { offerId: bigint };
+  InvalidTaker: { taker: string };
+  EmptyOffer: NoArgs;
+  OfferFromPastSeason: { offerId: bigint; season: bigint };
+  // Marketplace
+  UnknownListing: { listingId: bigint };
+  ListingNotActive: { listingId: bigint };
+  NotListingSeller: { listingId: bigint };
+  CannotBuyOwnListing: { listingId: bigint };
+  CannotListGold: NoArgs;
+  InvalidAmount: { amount: bigint };
+  InvalidPrice: NoArgs;
+  ListingFromPastSeason: { listingId: bigint; season: bigint };
+  // OpenZeppelin
+  ERC1155InsufficientBalance: { sender: string; balance: bigint; needed: bigint; tokenId: bigint };
+  ERC1155MissingApprovalForAll: { operator: string; owner: string };
+  OwnableUnauthorizedAccount: { account: string };
+  AccessControlUnauthorizedAccount: { account: string; neededRole: string };
+}
+
+export type GameErrorName = keyof GameErrorArgs;
+
+// A decoded custom error, narrowed on `name`
+export type GameError = { [N in GameErrorName]: { name: N; args: GameErrorArgs[N] } }[GameErrorName];
+
+// Every name above; typed so the compiler flags one missing here
+const KNOWN_ERRORS: { [N in GameErrorName]: true } = {
+  UnknownItem: true,
+  UnknownRecipe: true,
+  UnknownDungeon: true,
+  InsufficientBalance: true,
+  ItemSoulbound: true,
+  MaxSupplyExceeded: true,
+  StarterPackAlreadyClaimed: true,
+  DungeonDisabled: true,
+  RecipeDisabled: true,
+  CraftLimitReached: true,
+  CooldownActive: true,
+  RunAlreadyPending: true,
+  NoPendingRun: true,
+  RevealTooEarly: true,
+  RevealWindowClosed: true,
+  RunNotExpired: true,
+  InvalidSeed: true,
+  RandomnessCoordinatorActive: true,
+  NoRandomnessCoordinator: true,
+  ActionPaused: true,
+  UnknownOffer: true,
+  OfferNotOpen: true,
+  NotOfferTaker: true,
+  NotOfferParty: true,
+  InvalidTaker: true,
+  EmptyOffer: true,
+  OfferFromPastSeason: true,
+  UnknownListing: true,
+  ListingNotActive: true,
+  NotListingSeller: true,
+  CannotBuyOwnListing: true,
+  CannotListGold: true,
+  InvalidAmount: true,
+  InvalidPrice: true,
+  ListingFromPastSeason: true,
+  ERC1155InsufficientBalance: true,
+  ERC1155MissingApprovalForAll: true,
+  OwnableUnauthorizedAccount: true,
+  AccessControlUnauthorizedAccount: true,
+};
+
+export const isGameError = (error: { name: string; args: object }): error is GameError =>
+  Object.prototype.hasOwnProperty.call(KNOWN_ERRORS, error.name);
+
+// Mirrors DungeonToken.RunKind
+const RUN_KIND_TIME_REWARD = BigInt(1);
+
+export type NotificationType = 'success' | 'error' | 'warning' | 'info';
+
+export interface FailureMessage {
+  message: string;
+  type: NotificationType;
+}
+
+/**
+ * What to tell the player about a decoded custom error.
+ * `itemName` turns token IDs into item names.
+ */
+export const describeGameError = (error: GameError, itemName: (id: number) => string): FailureMessage => {
+  switch (error.name) {
+    case 'InsufficientBalance': {
+      const { tokenId, have, need } = error.args;
+      return { message: `Not enough ${itemName(Number(tokenId))}: you have ${have}, need ${need}.`, type: 'warning' };
+    }
+    case 'ERC1155InsufficientBalance': {
+      const { tokenId, balance, needed } = error.args;
+      return { message: `Not enough ${itemName(Number(tokenId))}: you have ${balance}, need ${needed}.`, type: 'warning' };
+    }
+    case 'ItemSoulbound':
+      return { message: `${itemName(Number(error.args.itemId))} is soulbound and cannot be traded.`, type: 'warning' };
+    case 'MaxSupplyExceeded':
+      return { message: `${itemName(Number(error.args.itemId))} has reached its maximum supply.`, type: 'warning' };
+    case 'StarterPackAlreadyClaimed':
+      return { message: 'Starter pack already claimed for this wallet.', type: 'info' };
+    case 'DungeonDisabled':
+      return { message: 'This dungeon is closed right now.', type: 'warning' };
+    case 'RecipeDisabled':
+      return { message: 'This recipe is currently disabled.', type: 'info' };
+    case 'CraftLimitReached':
+      return { message: 'You already crafted this item the maximum number of times.', type: 'info' };
+    case 'CooldownActive': {
+      const readyAt = new Date(Number(error.args.readyAt) * 1000).toLocaleTimeString();
+      return { message: `Time rewards are on cooldown until ${readyAt}.`, type: 'warning' };
+    }
+    case 'RunAlreadyPending':
+      return error.args.kind === RUN_KIND_TIME_REWARD
+        ? { message: 'Reveal your pending time rewards first.', type: 'warning' }
+        : { message: 'Reveal your current dungeon run before starting another.', type: 'warning' };
+    case 'NoPendingRun':
+      return { message: 'There is nothing waiting to be revealed.', type: 'info' };
+    case 'RevealTooEarly':
+      return { message: `Not ready yet. It can be revealed from block ${error.args.revealBlock}.`, type: 'warning' };
+    case 'RevealWindowClosed':
+      return { message: 'This run expired before it was revealed.', type: 'warning' };
+    case 'RunNotExpired':
+      return { message: `This run can still be revealed until block ${error.args.lastRevealBlock}.`, type: 'warning' };
+    case 'InvalidSeed':
+      return { message: 'The seed stored in this browser does not match the commitment.', type: 'error' };
+    case 'RandomnessCoordinatorActive':
+    case 'NoRandomnessCoordinator':
+      return { message: 'The way dungeon loot is rolled has changed. Please reload the page.', type: 'warning' };
+    case 'ActionPaused':
+      return { message: `Paused for maintenance: ${actionLabel(error.args.action)}. Try again later.`, type: 'warning' };
+    case 'OfferNotOpen':
+      return { message: 'This offer is no longer open.', type: 'info' };
+    case 'NotOfferTaker':
+      return { message: 'Only the player this offer was made to can do that.', type: 'error' };
+    case 'NotOfferParty':
+      return { message: 'Only the two players in this offer can cancel it.', type: 'error' };
+    case 'InvalidTaker':
+      return { message: "Enter another player's address.", type: 'warning' };
+    case 'EmptyOffer':
+      return { message: 'Add items to give or to ask for.', type: 'warning' };
+    case 'OfferFromPastSeason':
+      return { message: `This offer is from season ${error.args.season} and can only be cancelled or declined.`, type: 'info' };
+    case 'ListingNotActive':
+      return { message: 'This listing is no longer available.', type: 'info' };
+    case 'NotListingSeller':
+      return { message: 'Only the seller can cancel this listing.', type: 'error' };
+    case 'CannotBuyOwnListing':
+      return { message: 'You cannot buy your own listing.', type: 'warning' };
+    case 'CannotListGold':
+      return { message: 'Gold cannot be listed.', type: 'warning' };
+    case 'InvalidAmount':
+      return { message: 'Enter a valid amount.', type: 'warning' };
+    case 'InvalidPrice':
+      return { message: 'Enter a valid price.', type: 'warning' };
+    case 'ListingFromPastSeason':
+      return { message: `This listing is from season ${error.args.season} and can no longer be bought.`, type: 'info' };
+    case 'ERC1155MissingApprovalForAll':
+      return { message: 'Approve the contract to move your items first.', type: 'warning' };
+    case 'OwnableUnauthorizedAccount':
+      return { message: 'Only the contract owner can do that.', type: 'error' };
+    case 'AccessControlUnauthorizedAccount':
+      return { message: `That needs the ${roleLabel(error.args.neededRole)} role.`, type: 'error' };
+    case 'UnknownItem':
+    case 'UnknownRecipe':
+    case 'UnknownDungeon':
+    case 'UnknownOffer':
+    case 'UnknownListing':
+      return { message: `That ${error.name.replace('Unknown', '').toLowerCase()} does not exist.`, type: 'error' };
+  }
+};
+
+/**
+ * Notification for a failed call or transaction: the custom error's message
+ * when it decodes to one, otherwise the revert reason (or `fallback`) as an error
+ */
+export const describeFailure = (
+  client: DungeonGameClient,
+  error: unknown,
+  fallback: string,
+  itemName: (id: number) => string
+): FailureMessage => {
+  const gameError = client.decodeRevert(error);
+  return gameError
+    ? describeGameError(gameError, itemName)
+    : { message: client.getRevertReason(error, fallback), type: 'error' };
+};
@@ -0,0 +1,124 @@
+import { BaseContract, EventLog } from 'ethers';
+import { DungeonGameClient } from './dungeonGameClient';
+import { fetchEvents, fetchPlayerHistory, IndexedEvent, isIndexerEnabled } from './indexerClient';
+
+// Contract events in the indexer's shape, whichever source they came from
+export type GameEvent = Omit<IndexedEvent, 'players'>;
+
+// How far back to scan when reading logs straight from the node
+// (public RPC endpoints reject unbounded ranges)
+export const EVENT_BLOCK_RANGE = 50000;
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+// Largest page the indexer API returns per request
+const INDEXER_PAGE_SIZE = 1000;
+
+const toArgValue = (value: unknown): string | string[] =>
+  Array.isArray(value) ? value.map(item => String(item)) : String(value);
+
+// Decoded log -> GameEvent (timestamp filled in separately)
+const fromEventLog = (event: EventLog): GameEvent => {
+  const args: Record<string, string | string[]> = {};
+  event.fragment.inputs.forEach((input, index) => {
+    args[input.name] = toArgValue(event.args[index]);
+  });
+
+  return {
+    id: `${event.blockNumber}-${event.index}`,
+    name: event.eventName,
+    blockNumber: event.blockNumber,
+    logIndex: event.index,
+    transactionHash: event.transactionHash,
+    timestamp: 0,
+    args,
+  };
+};
+
+const byNewest = (a: GameEvent, b: GameEvent) => b.blockNumber - a.blockNumber || b.logIndex - a.logIndex;
+
+// Fill in block timestamps (one lookup per block), newest first, stopping
+// once events are older than `since` or `limit` events have been kept
+const withTimestamps = async (client: DungeonGameClient, events: GameEvent[], since: number | undefined, limit: number) => {
+  const timestamps = new Map<number, number>();
+  const results: GameEvent[] = [];
+  for (const event of events) {
+    if (results.length >= limit) break;
+    if (!timestamps.has(event.blockNumber)) {
+      const block = await client.provider.getBlock(event.blockNumber);
+      timestamps.set(event.blockNumber, block?.timestamp ?? 0);
+    }
+    event.timestamp = timestamps.get(event.blockNumber)!;
+    if (since !== undefined && event.timestamp < since) break;
+    results.push(event);
+  }
+  return results;
+};
+
+interface LoadEventsOptions {
+  names: string[];
+  player?: string;
+  since?: number; // timestamp (seconds)
+  limit?: number;
+}
+
+/**
+ * Load DungeonToken events, newest first.
+ * Uses the event indexer when configured, otherwise scans the last
+ * EVENT_BLOCK_RANGE blocks with queryFilter. For a player, transfers
+ * count when they are the sender or the receiver.
+ */
+export const loadGameEvents = async (
+  client: DungeonGameClient,
+  { names, player, since, limit = 50 }: LoadEventsOptions
+): Promise<GameEvent[]> => {
+  if (isIndexerEnabled()) {
+    // Page backwards until we have `limit` events or run out
+    const events: GameEvent[] = [];
+    let before: string | undefined;
+    while (events.length < limit) {
+      const query = { names, since, before, limit: Math.min(INDEXER_PAGE_SIZE, limit - events.length) };
+      const page = player ? await fetchPlayerHistory(player, query) : await fetchEvents(query);
+      events.push(...page);
+      if (page.length < query.limit) break;
+      before = page[page.length - 1].id;
+    }
+    return events;
+  }
+
+  // Event names come in as strings, so use the untyped filters; indexed
+  // arguments are positional (transfers: operator, from, to; game events: player)
+  const contract: BaseContract = client.token;
+  const latest = await client.provider.getBlockNumber();
+  const fromBlock = Math.max(0, latest - EVENT_BLOCK_RANGE);
+  const query = (name: string, ...indexed: Array<string | null>) =>
+    contract.queryFilter(contract.filters[name](...indexed), fromBlock, latest);
+
+  const batches = await Promise.all(
+    names.flatMap(name => {
+      if (!player) {
+        return [query(name)];
+      }
+      if (name === 'TransferSingle' || name === 'TransferBatch') {
+        return [query(name, null, player), query(name, null, null, player)];
+      }
+      return [query(name, player)];
+    })
+  );
+
+  // A transfer to yourself shows up in both the "from" and "to" batches
+  const unique = new Map<string, GameEvent>();
+  batches.flat().forEach(event => {
+    if (!(event instanceof EventLog)) return;
+    const gameEvent = fromEventLog(event);
+    unique.set(gameEvent.id, gameEvent);
+  });
+
+  return withTimestamps(client, Array.from(unique.values()).sort(byNewest), since, limit);
+};
+
+// Player-to-player transfers only: mints and burns are part of game actions
+export const isPlayerTransfer = (event: GameEvent) =>
+  (event.name === 'TransferSingle' || event.name === 'TransferBatch') &&
+  event.args.from !== ZERO_ADDRESS &&
+  event.args.to !== ZERO_ADDRESS;
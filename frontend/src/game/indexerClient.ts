@@ -0,0 +1,66 @@
+// Client for the event indexer's HTTP API (see /indexer in the repo root).
+// Set REACT_APP_INDEXER_URL (e.g. http://localhost:4000) to enable it;
+// without it components fall back to reading the contract directly.
+export const INDEXER_URL = (process.env.REACT_APP_INDEXER_URL || '').replace(/\/$/, '');
+
+export const isIndexerEnabled = () => INDEXER_URL !== '';
+
+// Mirrors IndexedEvent in indexer/store.ts
+export interface IndexedEvent {
+  id: string;
+  name: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number;
+  args: Record<string, string | string[]>;
+  players: string[];
+}
+
+export interface EventQuery {
+  names?: string[];
+  since?: number;
+  before?: string;
+  limit?: number;
+}
+
+export interface SupplyStats {
+  minted: string;
+  burned: string;
+  circulating: string;
+}
+
+const toSearchParams = (query: Record<string, string | number | string[] | undefined>) => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined) return;
+    params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+  });
+  const search = params.toString();
+  return search ? `?${search}` : '';
+};
+
+const fetchIndexer = async <T>(path: string): Promise<T> => {
+  const response = await fetch(`${INDEXER_URL}${path}`);
+  if (!response.ok) {
+    throw new Error(`Indexer request failed (${response.status}): ${path}`);
+  }
+  return response.json();
+};
+
+// Balances keyed by token ID, derived from indexed transfers
+export const fetchPlayerBalances = async (account: string): Promise<{ [key: number]: number }> => {
+  const balances = await fetchIndexer<Record<string, string>>(`/players/${account}/balances`);
+  return Object.fromEntries(Object.entries(balances).map(([id, amount]) => [Number(id), Number(amount)]));
+};
+
+export const fetchPlayerHistory = (account: string, query: EventQuery = {}) =>
+  fetchIndexer<IndexedEvent[]>(`/players/${account}/history${toSearchParams({ ...query })}`);
+
+export const fetchEvents = (query: EventQuery = {}) =>
+  fetchIndexer<IndexedEvent[]>(`/events${toSearchParams({ ...query })}`);
+
+export const fetchLoot = (query: { player?: string; dungeonId?: number; limit?: number } = {}) =>
+  fetchIndexer<IndexedEvent[]>(`/loot${toSearchParams(query)}`);
+
+export const fetchSupply = () => fetchIndexer<Record<string, SupplyStats>>('/stats/supply');
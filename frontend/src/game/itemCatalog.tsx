@@ -0,0 +1,139 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { DungeonGameClient } from './dungeonGameClient';
+import { isTokenDeployed, useGameClient } from './gameClientContext';
+
+export type Rarity = 'resource' | 'common' | 'rare' | 'epic' | 'legendary';
+
+// Index matches the DungeonToken.Rarity enum
+export const RARITIES: Rarity[] = ['resource', 'common', 'rare', 'epic', 'legendary'];
+
+export interface ItemDefinition {
+  id: number;
+  name: string;
+  icon: string;
+  rarity: Rarity;
+  attackPower: number;
+  soulbound: boolean;
+  maxSupply: number;
+}
+
+export interface ItemCatalog {
+  items: ItemDefinition[];
+  getItem(id: number): ItemDefinition;
+}
+
+// Token IDs from smart contract
+export const ITEM_IDS = {
+  ENERGY: 1,
+  GOLD: 2,
+  COMMON_SWORD: 1001,
+  RARE_SWORD: 1002,
+  EPIC_SWORD: 1003,
+  LEGENDARY_SWORDS: [2001, 2002, 2003, 2004, 2005],
+};
+
+// Icons are presentation only, so they live here instead of on-chain
+const ITEM_ICONS: { [key: number]: string } = {
+  1: '⚡',
+  2: '💰',
+  1001: '🗡️',
+  1002: '⚔️',
+  1003: '⚡🗡️',
+  2001: '🗡️✨',
+  2002: '⚔️✨',
+  2003: '🗡️🔥',
+  2004: '⚔️⚡',
+  2005: '🗡️💎',
+};
+const DEFAULT_ICON = '📦';
+
+const getItemIcon = (id: number) => ITEM_ICONS[id] || DEFAULT_ICON;
+
+const defineItem = (id: number, name: string, rarity: Rarity, attackPower: number): ItemDefinition => ({
+  id,
+  name,
+  icon: getItemIcon(id),
+  rarity,
+  attackPower,
+  soulbound: false,
+  maxSupply: 0,
+});
+
+// Same definitions the contract registers in its constructor,
+// used until the on-chain registry has been loaded
+export const DEFAULT_ITEMS: ItemDefinition[] = [
+  defineItem(ITEM_IDS.ENERGY, 'Energy', 'resource', 0),
+  defineItem(ITEM_IDS.GOLD, 'Gold', 'resource', 0),
+  defineItem(ITEM_IDS.COMMON_SWORD, 'Common Sword', 'common', 10),
+  defineItem(ITEM_IDS.RARE_SWORD, 'Rare Sword', 'rare', 25),
+  defineItem(ITEM_IDS.EPIC_SWORD, 'Epic Sword', 'epic', 50),
+  ...ITEM_IDS.LEGENDARY_SWORDS.map((id, index) =>
+    defineItem(id, `Legendary Sword #${index + 1}`, 'legendary', 100 + index * 10)
+  ),
+];
+
+export const createItemCatalog = (items: ItemDefinition[]): ItemCatalog => {
+  const byId = new Map(items.map(item => [item.id, item]));
+  return {
+    items,
+    getItem: (id: number) => byId.get(id) || defineItem(id, `Item #${id}`, 'common', 0),
+  };
+};
+
+/**
+ * Read every item definition from the contract's item registry
+ */
+export const loadItemCatalog = async ({ token }: DungeonGameClient): Promise<ItemCatalog> => {
+  const count = Number(await token.getItemCount());
+  const ids: number[] = (
+    await Promise.all(Array.from({ length: count }, (_, index) => token.getItemIdAt(index)))
+  ).map(Number);
+  const definitions = await Promise.all(ids.map(id => token.getItem(id)));
+
+  return createItemCatalog(
+    ids.map((id, index) => ({
+      id,
+      name: definitions[index].name,
+      icon: getItemIcon(id),
+      rarity: RARITIES[Number(definitions[index].rarity)] || 'common',
+      attackPower: Number(definitions[index].attackPower),
+      soulbound: Boolean(definitions[index].soulbound),
+      maxSupply: Number(definitions[index].maxSupply),
+    }))
+  );
+};
+
+const ItemCatalogContext = createContext<ItemCatalog>(createItemCatalog(DEFAULT_ITEMS));
+
+interface ItemCatalogProviderProps {
+  children: React.ReactNode;
+}
+
+/**
+ * ItemCatalogProvider
+ * Loads the on-chain item registry once and shares it with every component
+ * Falls back to the built-in defaults while loading or if the read fails
+ */
+export const ItemCatalogProvider: React.FC<ItemCatalogProviderProps> = ({ children }) => {
+  const client = useGameClient();
+  const [catalog, setCatalog] = useState<ItemCatalog>(() => createItemCatalog(DEFAULT_ITEMS));
+
+  useEffect(() => {
+    if (!isTokenDeployed(client)) return;
+
+    let cancelled = false;
+    loadItemCatalog(client)
+      .then(loaded => {
+        if (!cancelled) setCatalog(loaded);
+      })
+      .catch(error => console.error('Error loading item catalog:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [client]);
+
+  return <ItemCatalogContext.Provider value={catalog}>{children}</ItemCatalogContext.Provider>;
+};
+
+export const useItemCatalog = () => useContext(ItemCatalogContext);
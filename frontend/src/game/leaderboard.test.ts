@@ -0,0 +1,110 @@
+import type { GameEvent } from './gameEvents';
+import { buildLeaderboards, LeaderboardRow, LeaderboardWindow } from './leaderboard';
+
+const DAY = 24 * 60 * 60;
+const NOW = 100 * DAY;
+
+const ALICE = '0xaaa1';
+const BOB = '0xbbb2';
+const CAROL = '0xccc3';
+
+const EPIC_SWORD = 1003;
+const COMMON_SWORD = 1001;
+const LEGENDARIES = [2001, 2002];
+
+// One event per block, so block order follows time
+const event = (name: string, timestamp: number, args: Record<string, string>): GameEvent => ({
+  id: `${timestamp}-0`,
+  name,
+  blockNumber: timestamp,
+  logIndex: 0,
+  transactionHash: '0x',
+  timestamp,
+  args,
+});
+
+const run = (player: string, timestamp: number, gold: number, lootId = COMMON_SWORD) =>
+  event('DungeonRun', timestamp, { player, gold: String(gold), lootId: String(lootId), amount: '1' });
+
+const timeReward = (player: string, timestamp: number, gold: number) =>
+  event('TimeRewardClaimed', timestamp, { player, gold: String(gold) });
+
+const craft = (player: string, timestamp: number, resultId: number) =>
+  event('ItemCrafted', timestamp, { player, resultId: String(resultId) });
+
+const EVENTS = [
+  run(ALICE, NOW - DAY, 10, EPIC_SWORD), // first second of the daily window
+  run(ALICE, NOW - DAY - 1, 5), // just before it
+  run(BOB, NOW - 7 * DAY - 1, 100), // just before the weekly window
+  timeReward(BOB, NOW - 3600, 15),
+  craft(ALICE, NOW - 10 * DAY, 2001),
+  craft(ALICE, NOW - 2 * DAY, 2002),
+  craft(BOB, NOW - 4 * DAY, 2002),
+  craft(BOB, NOW - 3 * DAY, 2001),
+  craft(CAROL, NOW - DAY, 2001),
+  craft(CAROL, NOW - 1, 2001),
+].reverse(); // newest first, as the loaders return them
+
+// Player addresses are recorded checksummed; rows use them lowercased
+const PLAYERS = ['0xAAA1', '0xBBB2', '0xCCC3'];
+
+const boardsFor = (window: LeaderboardWindow) =>
+  buildLeaderboards(EVENTS, PLAYERS, { window, now: NOW, epicIds: [EPIC_SWORD], legendaryIds: LEGENDARIES });
+
+const summary = (rows: LeaderboardRow[]) => rows.map(row => [row.player, row.value, row.rank]);
+
+describe('buildLeaderboards', () => {
+  it('counts only events from the last day on the daily boards', () => {
+    const boards = boardsFor('daily');
+
+    expect(summary(boards.runs)).toEqual([
+      [ALICE, 1, 1],
+      [BOB, 0, 2],
+      [CAROL, 0, 2],
+    ]);
+    expect(summary(boards.goldEarned)).toEqual([
+      [BOB, 15, 1],
+      [ALICE, 10, 2],
+      [CAROL, 0, 3],
+    ]);
+    expect(summary(boards.epicDrops)[0]).toEqual([ALICE, 1, 1]);
+    expect(boards.legendaryCollectors).toEqual([]);
+  });
+
+  it('counts the last seven days on the weekly boards, sharing ranks on ties', () => {
+    const boards = boardsFor('weekly');
+
+    expect(summary(boards.runs)).toEqual([
+      [ALICE, 2, 1],
+      [BOB, 0, 2],
+      [CAROL, 0, 2],
+    ]);
+    expect(summary(boards.goldEarned)).toEqual([
+      [ALICE, 15, 1],
+      [BOB, 15, 1],
+      [CAROL, 0, 3],
+    ]);
+  });
+
+  it('counts every event on the all-time boards', () => {
+    const boards = boardsFor('all-time');
+
+    expect(summary(boards.runs)).toEqual([
+      [ALICE, 2, 1],
+      [BOB, 1, 2],
+      [CAROL, 0, 3],
+    ]);
+    expect(summary(boards.goldEarned)).toEqual([
+      [BOB, 115, 1],
+      [ALICE, 15, 2],
+      [CAROL, 0, 3],
+    ]);
+  });
+
+  it('ranks legendary collectors by when they completed the set, inside the window', () => {
+    expect(summary(boardsFor('weekly').legendaryCollectors)).toEqual([
+      [BOB, NOW - 3 * DAY, 1],
+      [ALICE, NOW - 2 * DAY, 2],
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+import { GameEvent } from './gameEvents';
+
+export type LeaderboardWindow = 'daily' | 'weekly' | 'all-time';
+export type LeaderboardKind = 'runs' | 'epicDrops' | 'goldEarned' | 'legendaryCollectors';
+
+export const LEADERBOARD_EVENTS = ['DungeonRun', 'TimeRewardClaimed', 'ItemCrafted'];
+
+const WINDOW_SECONDS: Record<LeaderboardWindow, number | null> = {
+  daily: 24 * 60 * 60,
+  weekly: 7 * 24 * 60 * 60,
+  'all-time': null,
+};
+
+export interface LeaderboardRow {
+  player: string; // lowercased
+  value: number;  // count, gold, or completion timestamp for legendaryCollectors
+  rank: number;
+}
+
+export type Leaderboards = Record<LeaderboardKind, LeaderboardRow[]>;
+
+interface LeaderboardOptions {
+  window: LeaderboardWindow;
+  now: number;            // seconds
+  epicIds: number[];      // item IDs that count as epic drops
+  legendaryIds: number[]; // the full legendary set to collect
+}
+
+// Start of a window in seconds (0 for all-time)
+export const windowStart = (window: LeaderboardWindow, now: number) => {
+  const seconds = WINDOW_SECONDS[window];
+  return seconds === null ? 0 : now - seconds;
+};
+
+// Competition ranking: equal values share a rank ("1, 2, 2, 4")
+const rank = (totals: Map<string, number>, ascending = false): LeaderboardRow[] => {
+  const rows = Array.from(totals.entries())
+    .map(([player, value]) => ({ player, value, rank: 0 }))
+    .sort((a, b) => (ascending ? a.value - b.value : b.value - a.value) || a.player.localeCompare(b.player));
+
+  rows.forEach((row, index) => {
+    row.rank = index > 0 && rows[index - 1].value === row.value ? rows[index - 1].rank : index + 1;
+  });
+  return rows;
+};
+
+/**
+ * Aggregate leaderboards from DungeonRun, TimeRewardClaimed and ItemCrafted events.
+ * Every registered player gets a row (zero if idle) on the counting boards.
+ * legendaryCollectors ranks players by when they first held a crafted copy of every
+ * legendary, counting completions that happened inside the window.
+ */
+export const buildLeaderboards = (
+  events: GameEvent[],
+  players: string[],
+  { window, now, epicIds, legendaryIds }: LeaderboardOptions
+): Leaderboards => {
+  const since = windowStart(window, now);
+  const runs = new Map<string, number>();
+  const epicDrops = new Map<string, number>();
+  const goldEarned = new Map<string, number>();
+  players.forEach(player => {
+    const address = player.toLowerCase();
+    runs.set(address, 0);
+    epicDrops.set(address, 0);
+    goldEarned.set(address, 0);
+  });
+
+  const add = (totals: Map<string, number>, player: string, amount: number) =>
+    totals.set(player, (totals.get(player) || 0) + amount);
+
+  const crafted = new Map<string, Set<number>>();
+  const completedAt = new Map<string, number>();
+
+  // Oldest first, so legendary completion times come out right
+  const chronological = [...events].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+  for (const event of chronological) {
+    const player = String(event.args.player).toLowerCase();
+    const inWindow = event.timestamp >= since;
+
+    if (event.name === 'DungeonRun' && inWindow) {
+      add(runs, player, 1);
+      add(goldEarned, player, Number(event.args.gold));
+      if (epicIds.includes(Number(event.args.lootId))) {
+        add(epicDrops, player, Number(event.args.amount));
+      }
+    } else if (event.name === 'TimeRewardClaimed' && inWindow) {
+      add(goldEarned, player, Number(event.args.gold));
+    } else if (event.name === 'ItemCrafted' && legendaryIds.includes(Number(event.args.resultId))) {
+      const set = crafted.get(player) ?? new Set<number>();
+      set.add(Number(event.args.resultId));
+      crafted.set(player, set);
+      if (set.size === legendaryIds.length && !completedAt.has(player)) {
+        completedAt.set(player, event.timestamp);
+      }
+    }
+  }
+
+  const completions = new Map(Array.from(completedAt.entries()).filter(([, timestamp]) => timestamp >= since));
+
+  return {
+    runs: rank(runs),
+    epicDrops: rank(epicDrops),
+    goldEarned: rank(goldEarned),
+    legendaryCollectors: rank(completions, true),
+  };
+};
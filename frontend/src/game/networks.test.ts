@@ -0,0 +1,69 @@
+import { getGameNetwork, isGameDeployed, switchNetwork } from './networks';
+import { createFakeEthereum } from '../testUtils/fakeEthereum';
+
+// A Sepolia deployment to switch to (the committed registry has none yet)
+jest.mock('../deployments/sepolia.json', () => ({
+  network: 'sepolia',
+  chainId: 11155111,
+  dungeonToken: '0x5FbDB2315678afecb367f032d93F642f64180aa3',
+  tradeEscrow: '0x0000000000000000000000000000000000000000',
+  marketplace: '0x0000000000000000000000000000000000000000',
+}));
+
+const SEPOLIA = 11155111;
+const HARDHAT = 31337;
+
+const localNetwork = () => getGameNetwork(HARDHAT)!;
+
+describe('deployments registry', () => {
+  it('picks the recorded addresses for the connected chain', () => {
+    const sepolia = getGameNetwork(SEPOLIA);
+
+    expect(sepolia?.name).toBe('Sepolia Testnet');
+    expect(sepolia && isGameDeployed(sepolia)).toBe(true);
+    expect(getGameNetwork(HARDHAT)?.name).toBe('Hardhat Local');
+    expect(getGameNetwork(1)).toBeNull();
+  });
+});
+
+describe('switchNetwork', () => {
+  it('switches to a chain the wallet knows', async () => {
+    const ethereum = createFakeEthereum({ handlers: { wallet_switchEthereumChain: () => null } });
+
+    await switchNetwork(ethereum, localNetwork());
+
+    expect(ethereum.request).toHaveBeenCalledTimes(1);
+    expect(ethereum.request).toHaveBeenCalledWith({ method: 'wallet_switchEthereumChain', params: [{ chainId: '0x7a69' }] });
+  });
+
+  it('adds the chain to the wallet when it is unknown', async () => {
+    const addChain = jest.fn(() => null);
+    const ethereum = createFakeEthereum({
+      handlers: {
+        wallet_switchEthereumChain: () => {
+          throw Object.assign(new Error('Unrecognized chain ID'), { code: 4902 });
+        },
+        wallet_addEthereumChain: addChain,
+      },
+    });
+
+    await switchNetwork(ethereum, localNetwork());
+
+    expect(addChain).toHaveBeenCalledWith([
+      expect.objectContaining({ chainId: '0x7a69', chainName: 'Hardhat Local', rpcUrls: ['http://127.0.0.1:8545'] }),
+    ]);
+  });
+
+  it('passes other wallet errors on', async () => {
+    const rejected = Object.assign(new Error('User rejected the request.'), { code: 4001 });
+    const ethereum = createFakeEthereum({
+      handlers: {
+        wallet_switchEthereumChain: () => {
+          throw rejected;
+        },
+      },
+    });
+
+    await expect(switchNetwork(ethereum, localNetwork())).rejects.toBe(rejected);
+  });
+});
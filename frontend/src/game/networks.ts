@@ -0,0 +1,86 @@
+import type { Eip1193Provider } from 'ethers';
+import localhostDeployment from '../deployments/localhost.json';
+import sepoliaDeployment from '../deployments/sepolia.json';
+import { GameAddresses, ZERO_ADDRESS } from './dungeonGameClient';
+
+// A network the game can be played on, with the addresses deploy.ts recorded for it
+export interface GameNetwork {
+  chainId: number;
+  name: string;
+  rpcUrl: string;
+  explorerUrl: string | null;
+  currencySymbol: string;
+  addresses: GameAddresses;
+}
+
+// The fields of frontend/src/deployments/<network>.json the app reads
+interface Deployment {
+  chainId: number;
+  dungeonToken: string;
+  tradeEscrow: string;
+  marketplace: string;
+}
+
+const addressesOf = (deployment: Deployment): GameAddresses => ({
+  dungeonToken: deployment.dungeonToken,
+  tradeEscrow: deployment.tradeEscrow,
+  marketplace: deployment.marketplace,
+});
+
+export const SUPPORTED_NETWORKS: GameNetwork[] = [
+  {
+    chainId: localhostDeployment.chainId,
+    name: 'Hardhat Local',
+    rpcUrl: 'http://127.0.0.1:8545',
+    explorerUrl: null,
+    currencySymbol: 'ETH',
+    addresses: addressesOf(localhostDeployment),
+  },
+  {
+    chainId: sepoliaDeployment.chainId,
+    name: 'Sepolia Testnet',
+    rpcUrl: 'https://rpc.sepolia.org',
+    explorerUrl: 'https://sepolia.etherscan.io',
+    currencySymbol: 'SepoliaETH',
+    addresses: addressesOf(sepoliaDeployment),
+  },
+];
+
+export const getGameNetwork = (chainId: number): GameNetwork | null =>
+  SUPPORTED_NETWORKS.find(network => network.chainId === chainId) ?? null;
+
+// Whether deploy.ts has recorded a DungeonToken for this network
+export const isGameDeployed = (network: GameNetwork) => network.addresses.dungeonToken !== ZERO_ADDRESS;
+
+// MetaMask's error code for a chain it has not been told about yet
+const UNRECOGNIZED_CHAIN = 4902;
+
+const toHexChainId = (chainId: number) => `0x${chainId.toString(16)}`;
+
+/**
+ * Ask the wallet to switch to `network`, adding the chain to the wallet
+ * first when it does not know it (e.g. the local Hardhat node).
+ * The wallet's chainChanged event then reconnects the app.
+ */
+export const switchNetwork = async (ethereum: Eip1193Provider, network: GameNetwork) => {
+  const chainId = toHexChainId(network.chainId);
+  try {
+    await ethereum.request({ method: 'wallet_switchEthereumChain', params: [{ chainId }] });
+  } catch (error: any) {
+    const code = error?.code ?? error?.data?.originalError?.code;
+    if (code !== UNRECOGNIZED_CHAIN) throw error;
+
+    await ethereum.request({
+      method: 'wallet_addEthereumChain',
+      params: [
+        {
+          chainId,
+          chainName: network.name,
+          rpcUrls: [network.rpcUrl],
+          nativeCurrency: { name: network.currencySymbol, symbol: network.currencySymbol, decimals: 18 },
+          blockExplorerUrls: network.explorerUrl ? [network.explorerUrl] : undefined,
+        },
+      ],
+    });
+  }
+};
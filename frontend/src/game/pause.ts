@@ -0,0 +1,41 @@
+import type { DungeonGameClient } from './dungeonGameClient';
+
+// DungeonToken.GameAction values, keyed the way the UI refers to them
+export const GAME_ACTIONS = {
+  dungeonRuns: 0,
+  crafting: 1,
+  timeRewards: 2,
+  transfers: 3,
+};
+
+export type GameAction = keyof typeof GAME_ACTIONS;
+
+export type PausedActions = Record<GameAction, boolean>;
+
+export const ACTION_LABELS: Record<GameAction, string> = {
+  dungeonRuns: 'Dungeon runs',
+  crafting: 'Crafting',
+  timeRewards: 'Time rewards',
+  transfers: 'Transfers and trades',
+};
+
+export const ACTION_KEYS = Object.keys(GAME_ACTIONS) as GameAction[];
+
+export const NOTHING_PAUSED: PausedActions = { dungeonRuns: false, crafting: false, timeRewards: false, transfers: false };
+
+// The label of a GameAction value as ActionPaused reports it
+export const actionLabel = (action: bigint | number) => {
+  const key = ACTION_KEYS.find(candidate => GAME_ACTIONS[candidate] === Number(action));
+  return key ? ACTION_LABELS[key] : `Action ${action}`;
+};
+
+export const loadPausedActions = async (client: DungeonGameClient): Promise<PausedActions> => {
+  const paused = await Promise.all(ACTION_KEYS.map(action => client.token.paused(GAME_ACTIONS[action])));
+  return ACTION_KEYS.reduce((actions, action, index) => ({ ...actions, [action]: paused[index] }), NOTHING_PAUSED);
+};
+
+// The maintenance banner, or '' while nothing is paused
+export const describeMaintenance = (paused: PausedActions) => {
+  const labels = ACTION_KEYS.filter(action => paused[action]).map(action => ACTION_LABELS[action]);
+  return labels.length === 0 ? '' : `Paused for maintenance: ${labels.join(', ')}. Everything else works as usual.`;
+};
@@ -0,0 +1,40 @@
+import { id, ZeroHash } from 'ethers';
+import type { DungeonGameClient } from './dungeonGameClient';
+
+// DungeonToken's AccessControl roles, keyed the way the UI refers to them
+export const GAME_ROLES = {
+  admin: ZeroHash, // DEFAULT_ADMIN_ROLE: grants and revokes the others
+  minter: id('MINTER_ROLE'),
+  gameMaster: id('GAME_MASTER_ROLE'),
+  configAdmin: id('CONFIG_ADMIN_ROLE'),
+  pauser: id('PAUSER_ROLE'),
+};
+
+export type GameRole = keyof typeof GAME_ROLES;
+
+export type GameRoles = Record<GameRole, boolean>;
+
+export const ROLE_LABELS: Record<GameRole, string> = {
+  admin: 'Admin',
+  minter: 'Minter',
+  gameMaster: 'Game Master',
+  configAdmin: 'Config Admin',
+  pauser: 'Pauser',
+};
+
+export const ROLE_KEYS = Object.keys(GAME_ROLES) as GameRole[];
+
+export const NO_ROLES: GameRoles = { admin: false, minter: false, gameMaster: false, configAdmin: false, pauser: false };
+
+// The label of a role id as AccessControl reports it, or the id itself for an unknown role
+export const roleLabel = (roleId: string) => {
+  const role = ROLE_KEYS.find(key => GAME_ROLES[key] === roleId.toLowerCase());
+  return role ? ROLE_LABELS[role] : roleId;
+};
+
+export const hasAnyRole = (roles: GameRoles) => ROLE_KEYS.some(role => roles[role]);
+
+export const loadGameRoles = async (client: DungeonGameClient, account: string): Promise<GameRoles> => {
+  const held = await Promise.all(ROLE_KEYS.map(role => client.token.hasRole(GAME_ROLES[role], account)));
+  return ROLE_KEYS.reduce((roles, role, index) => ({ ...roles, [role]: held[index] }), NO_ROLES);
+};
@@ -0,0 +1,36 @@
+import { formatTimeRemaining, rankSeasonStandings } from './seasons';
+
+const standing = (player: string, legendariesCrafted: number, dungeonRuns: number, goldEarned: number) => ({
+  player,
+  legendariesCrafted,
+  dungeonRuns,
+  goldEarned,
+  itemsCrafted: 0,
+});
+
+describe('rankSeasonStandings', () => {
+  it('ranks by legendaries, then dungeon runs, then gold, sharing ranks on ties', () => {
+    const rows = rankSeasonStandings([
+      standing('0xc', 0, 40, 900),
+      standing('0xa', 1, 2, 50),
+      standing('0xd', 0, 40, 900),
+      standing('0xb', 0, 40, 1000),
+    ]);
+
+    expect(rows.map(row => [row.player, row.rank])).toEqual([
+      ['0xa', 1],
+      ['0xb', 2],
+      ['0xc', 3],
+      ['0xd', 3],
+    ]);
+  });
+});
+
+describe('formatTimeRemaining', () => {
+  it('shows the two largest units', () => {
+    expect(formatTimeRemaining(3 * 86400 + 4 * 3600 + 59)).toBe('3d 4h');
+    expect(formatTimeRemaining(2 * 3600 + 15 * 60)).toBe('2h 15m');
+    expect(formatTimeRemaining(45 * 60 + 30)).toBe('45m');
+    expect(formatTimeRemaining(30)).toBe('under a minute');
+  });
+});
@@ -0,0 +1,83 @@
+import type { DungeonGameClient } from './dungeonGameClient';
+
+// A season as DungeonToken.getSeason reports it (timestamps in seconds)
+export interface SeasonInfo {
+  id: number;
+  startedAt: number;
+  endsAt: number;  // planned end, 0 = open-ended
+  endedAt: number; // when the next season started, 0 while current
+}
+
+export interface SeasonStanding {
+  player: string; // lowercased
+  dungeonRuns: number;
+  goldEarned: number;
+  itemsCrafted: number;
+  legendariesCrafted: number;
+  rank: number;
+}
+
+// Players read per getSeasonStandings call
+const STANDINGS_PAGE_SIZE = 100;
+
+export const loadSeason = async (client: DungeonGameClient, seasonId: number): Promise<SeasonInfo> => {
+  const season = await client.token.getSeason(seasonId);
+  return {
+    id: seasonId,
+    startedAt: Number(season.startedAt),
+    endsAt: Number(season.endsAt),
+    endedAt: Number(season.endedAt),
+  };
+};
+
+// Competition ranking ("1, 2, 2, 4") by legendaries crafted, then dungeon runs, then gold earned
+export const rankSeasonStandings = (standings: Omit<SeasonStanding, 'rank'>[]): SeasonStanding[] => {
+  const compare = (a: Omit<SeasonStanding, 'rank'>, b: Omit<SeasonStanding, 'rank'>) =>
+    b.legendariesCrafted - a.legendariesCrafted || b.dungeonRuns - a.dungeonRuns || b.goldEarned - a.goldEarned;
+
+  const rows = standings
+    .map(row => ({ ...row, rank: 0 }))
+    .sort((a, b) => compare(a, b) || a.player.localeCompare(b.player));
+
+  rows.forEach((row, index) => {
+    row.rank = index > 0 && compare(rows[index - 1], row) === 0 ? rows[index - 1].rank : index + 1;
+  });
+  return rows;
+};
+
+/**
+ * Everyone who played in a season, with the stats the contract archived
+ * for them, ranked
+ */
+export const loadSeasonStandings = async (client: DungeonGameClient, seasonId: number): Promise<SeasonStanding[]> => {
+  const playerCount = Number(await client.token.getSeasonPlayerCount(seasonId));
+  const pages = await Promise.all(
+    Array.from({ length: Math.ceil(playerCount / STANDINGS_PAGE_SIZE) }, (_, page) =>
+      client.token.getSeasonStandings(seasonId, page * STANDINGS_PAGE_SIZE, STANDINGS_PAGE_SIZE)
+    )
+  );
+
+  return rankSeasonStandings(
+    pages.flatMap(([players, stats]) =>
+      players.map((player, index) => ({
+        player: player.toLowerCase(),
+        dungeonRuns: Number(stats[index].dungeonRuns),
+        goldEarned: Number(stats[index].goldEarned),
+        itemsCrafted: Number(stats[index].itemsCrafted),
+        legendariesCrafted: Number(stats[index].legendariesCrafted),
+      }))
+    )
+  );
+};
+
+// "3d 4h", "2h 15m", "45m" or "under a minute"
+export const formatTimeRemaining = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m`;
+  return 'under a minute';
+};
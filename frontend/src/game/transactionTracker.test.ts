@@ -0,0 +1,117 @@
+import { makeError } from 'ethers';
+import { describeOutcome, RecoveryProvider, TransactionTracker } from './transactionTracker';
+import { createFakeClient, createFakeContract } from '../testUtils/fakeContract';
+
+const ACCOUNT = '0x70997970C51812dc3A010C7d01b50e0d17dc79C8';
+const STORAGE_KEY = 'dungeon-txs:test';
+const HASH = `0x${'1'.padStart(64, '0')}`;
+const REPLACEMENT = `0x${'2'.padStart(64, '0')}`;
+
+const recoveryProvider = (overrides: Partial<{ [K in keyof RecoveryProvider]: jest.Mock }> = {}) =>
+  ({
+    getTransactionReceipt: jest.fn(async () => null),
+    getTransaction: jest.fn(async () => null),
+    getTransactionCount: jest.fn(async () => 0),
+    ...overrides,
+  } as unknown as RecoveryProvider);
+
+describe('TransactionTracker', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('persists transactions and resumes pending ones in the background', () => {
+    const tracker = new TransactionTracker(STORAGE_KEY);
+    tracker.add({ hash: HASH, label: 'craftItem', from: ACCOUNT, nonce: 4 });
+
+    const reloaded = new TransactionTracker(STORAGE_KEY);
+    expect(reloaded.transactions).toEqual([
+      expect.objectContaining({ hash: HASH, label: 'craftItem', status: 'pending', background: true }),
+    ]);
+    expect(reloaded.pendingCount).toBe(1);
+  });
+
+  it('tells listeners once when a transaction settles', () => {
+    const tracker = new TransactionTracker(STORAGE_KEY);
+    const listener = jest.fn();
+    tracker.subscribe(listener);
+
+    tracker.add({ hash: HASH, label: 'craftItem', from: ACCOUNT, nonce: 4 });
+    tracker.update(HASH, { status: 'confirmed', blockNumber: 12 });
+    tracker.update(HASH, { blockNumber: 13 });
+
+    const settled = listener.mock.calls.map(([, tx]) => tx).filter(Boolean);
+    expect(settled).toEqual([expect.objectContaining({ hash: HASH, status: 'confirmed', blockNumber: 12 })]);
+  });
+
+  it('settles recovered transactions from their receipt', async () => {
+    new TransactionTracker(STORAGE_KEY).add({ hash: HASH, label: 'craftItem', from: ACCOUNT, nonce: 4 });
+    const tracker = new TransactionTracker(STORAGE_KEY);
+
+    await tracker.recover(recoveryProvider({ getTransactionReceipt: jest.fn(async () => ({ status: 0, blockNumber: 20 })) }));
+
+    expect(tracker.transactions[0]).toEqual(expect.objectContaining({ status: 'failed', blockNumber: 20 }));
+    expect(describeOutcome(tracker.transactions[0])).toEqual({ message: 'Craft item failed', type: 'error' });
+  });
+
+  it('marks unknown transactions whose nonce was used as dropped', async () => {
+    new TransactionTracker(STORAGE_KEY).add({ hash: HASH, label: 'craftItem', from: ACCOUNT, nonce: 4 });
+    const tracker = new TransactionTracker(STORAGE_KEY);
+
+    await tracker.recover(recoveryProvider({ getTransactionCount: jest.fn(async () => 4) }));
+    expect(tracker.transactions[0].status).toBe('pending');
+
+    await tracker.recover(recoveryProvider({ getTransactionCount: jest.fn(async () => 5) }));
+    expect(tracker.transactions[0].status).toBe('dropped');
+  });
+
+  it('leaves the outcome of awaited transactions to the component', () => {
+    const base = { hash: HASH, label: 'craftItem', from: ACCOUNT, nonce: 4, submittedAt: 0 };
+
+    expect(describeOutcome({ ...base, status: 'confirmed' })).toBeNull();
+    expect(describeOutcome({ ...base, status: 'confirmed', replacedBy: REPLACEMENT })).toEqual({
+      message: 'Craft item was sped up and confirmed',
+      type: 'info',
+    });
+    expect(describeOutcome({ ...base, status: 'replaced' })?.type).toBe('warning');
+  });
+});
+
+describe('DungeonGameClient.write tracking', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('records sent transactions until they are mined', async () => {
+    const tracker = new TransactionTracker(STORAGE_KEY);
+    const token = createFakeContract({ send: { craftItem: () => ({}) } });
+    const client = createFakeClient(token, { account: ACCOUNT, tracker });
+
+    await client.write(({ token }) => token.craftItem, 0);
+
+    expect(tracker.transactions).toEqual([
+      expect.objectContaining({ label: 'craftItem', status: 'confirmed', blockNumber: 100 }),
+    ]);
+  });
+
+  it('records transactions cancelled from the wallet as replaced', async () => {
+    const tracker = new TransactionTracker(STORAGE_KEY);
+    const client = createFakeClient(createFakeContract(), { account: ACCOUNT, tracker });
+    const cancelled = makeError('transaction was replaced', 'TRANSACTION_REPLACED', {
+      cancelled: true,
+      reason: 'cancelled',
+      replacement: { hash: REPLACEMENT },
+      hash: HASH,
+      receipt: { status: 1, blockNumber: 101 },
+    } as any);
+    const send = Object.assign(
+      jest.fn(async () => ({ hash: HASH, from: ACCOUNT, nonce: 4, wait: () => Promise.reject(cancelled) })),
+      { fragment: { name: 'craftItem' } }
+    );
+
+    await expect(client.write(() => send as any, 0)).rejects.toBe(cancelled);
+    expect(tracker.transactions[0]).toEqual(
+      expect.objectContaining({ label: 'craftItem', status: 'replaced', replacedBy: REPLACEMENT })
+    );
+  });
+});
@@ -0,0 +1,147 @@
+import type { GameProvider } from './dungeonGameClient';
+
+export type TransactionStatus = 'pending' | 'confirmed' | 'failed' | 'replaced' | 'dropped';
+
+// A transaction sent by the player, as shown in the transactions drawer
+export interface TrackedTransaction {
+  hash: string;
+  label: string; // contract method, e.g. "craftItem"
+  from: string;
+  nonce: number;
+  status: TransactionStatus;
+  submittedAt: number; // ms
+  blockNumber?: number; // block it (or its speed-up replacement) was mined in
+  replacedBy?: string; // hash of the speed-up or cancel transaction
+  error?: string;
+  background?: boolean; // not awaited by the page: pending across a reload, or its wait failed
+}
+
+// Only the most recent transactions are kept
+export const MAX_TRACKED_TRANSACTIONS = 20;
+
+type Listener = (transactions: TrackedTransaction[], settled: TrackedTransaction | null) => void;
+
+// The provider calls needed to find out what happened to a transaction after a reload
+export type RecoveryProvider = Pick<GameProvider, 'getTransactionReceipt' | 'getTransaction' | 'getTransactionCount'>;
+
+/**
+ * Transactions sent from this browser, persisted in localStorage so that
+ * anything still pending survives a page reload and can be followed up.
+ * Listeners are told about every change and, separately, about each
+ * transaction that leaves the pending state.
+ */
+export class TransactionTracker {
+  private readonly storageKey: string;
+  private items: TrackedTransaction[];
+  private listeners = new Set<Listener>();
+
+  constructor(storageKey: string) {
+    this.storageKey = storageKey;
+    this.items = this.load().map(tx => (tx.status === 'pending' ? { ...tx, background: true } : tx));
+  }
+
+  get transactions(): TrackedTransaction[] {
+    return this.items;
+  }
+
+  get pendingCount(): number {
+    return this.items.filter(tx => tx.status === 'pending').length;
+  }
+
+  subscribe(listener: Listener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  add(tx: Omit<TrackedTransaction, 'status' | 'submittedAt'>) {
+    this.items = [{ ...tx, status: 'pending' as const, submittedAt: Date.now() }, ...this.items]
+      .slice(0, MAX_TRACKED_TRANSACTIONS);
+    this.save(null);
+  }
+
+  update(hash: string, changes: Partial<TrackedTransaction>) {
+    const previous = this.items.find(tx => tx.hash === hash);
+    if (!previous) return;
+
+    const updated = { ...previous, ...changes };
+    this.items = this.items.map(tx => (tx.hash === hash ? updated : tx));
+    this.save(previous.status === 'pending' && updated.status !== 'pending' ? updated : null);
+  }
+
+  clearSettled() {
+    this.items = this.items.filter(tx => tx.status === 'pending');
+    this.save(null);
+  }
+
+  /**
+   * Settle pending transactions nobody is waiting for (e.g. left by an earlier
+   * page load): mined ones by their receipt, and ones the node no longer knows
+   * whose nonce has since been used (replaced from the wallet or dropped) as dropped
+   */
+  async recover(provider: RecoveryProvider) {
+    const recovering = this.items.filter(tx => tx.status === 'pending' && tx.background);
+
+    for (const tx of recovering) {
+      const receipt = await provider.getTransactionReceipt(tx.hash);
+      if (receipt) {
+        this.update(tx.hash, {
+          status: receipt.status === 1 ? 'confirmed' : 'failed',
+          blockNumber: receipt.blockNumber,
+        });
+        continue;
+      }
+
+      if (await provider.getTransaction(tx.hash)) continue;
+      const nonce = await provider.getTransactionCount(tx.from, 'latest');
+      if (nonce > tx.nonce) {
+        this.update(tx.hash, { status: 'dropped' });
+      }
+    }
+  }
+
+  private load(): TrackedTransaction[] {
+    try {
+      const stored = localStorage.getItem(this.storageKey);
+      return stored ? JSON.parse(stored) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private save(settled: TrackedTransaction | null) {
+    localStorage.setItem(this.storageKey, JSON.stringify(this.items));
+    this.listeners.forEach(listener => listener(this.items, settled));
+  }
+}
+
+// "craftItem" -> "Craft item"
+export const describeTransaction = (label: string) => {
+  const words = label.replace(/([A-Z])/g, ' $1').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+/**
+ * Notification for a settled transaction, or null when the component that
+ * sent it already reports the outcome (anything it was still awaiting and
+ * that was not swapped out from the wallet)
+ */
+export const describeOutcome = (
+  tx: TrackedTransaction
+): { message: string; type: 'success' | 'error' | 'warning' | 'info' } | null => {
+  const name = describeTransaction(tx.label);
+  switch (tx.status) {
+    case 'confirmed':
+      if (tx.replacedBy) return { message: `${name} was sped up and confirmed`, type: 'info' };
+      return tx.background ? { message: `${name} confirmed`, type: 'success' } : null;
+    case 'failed':
+      return tx.background ? { message: `${name} failed`, type: 'error' } : null;
+    case 'replaced':
+      return { message: `${name} was cancelled or replaced in your wallet`, type: 'warning' };
+    case 'dropped':
+      return { message: `${name} was dropped by the network`, type: 'warning' };
+    default:
+      return null;
+  }
+};
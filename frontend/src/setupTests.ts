@@ -3,3 +3,11 @@
 // expect(element).toHaveTextContent(/react/i)
 // learn more: https://github.com/testing-library/jest-dom
 import '@testing-library/jest-dom';
+
+// jsdom lacks TextEncoder/TextDecoder and crypto.getRandomValues, which
+// web3's hashing and random seed utilities need
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+
+Object.assign(global, { TextEncoder, TextDecoder });
+Object.defineProperty(global, 'crypto', { value: webcrypto });
@@ -0,0 +1,194 @@
+import React from 'react';
+import { render } from '@testing-library/react';
+import { EventLog, Interface, InterfaceAbi, Log, LogParams, makeError, ZeroHash } from 'ethers';
+import DungeonTokenABI from '../abis/DungeonToken.json';
+import MarketplaceABI from '../abis/Marketplace.json';
+import TradeEscrowABI from '../abis/TradeEscrow.json';
+import type { DungeonToken, Marketplace, TradeEscrow } from '../types';
+import { DungeonGameClient, GameAddresses, GameProvider, ZERO_ADDRESS } from '../game/dungeonGameClient';
+import { GameClientProvider } from '../game/gameClientContext';
+import type { TransactionTracker } from '../game/transactionTracker';
+
+// Handlers receive the method's arguments; values (or promises) are returned as-is
+type Handler = (...args: any[]) => any;
+
+export interface FakeContractHandlers {
+  call?: { [method: string]: Handler };
+  send?: { [method: string]: Handler };
+  events?: { [event: string]: any[] };
+}
+
+export interface SentTransaction {
+  method: string;
+  args: any[];
+}
+
+export interface FakeContract {
+  queryFilter: jest.Mock;
+  sent: SentTransaction[];
+  handlers: FakeContractHandlers;
+}
+
+/**
+ * Stand-in for a TypeChain contract. Every method is callable like an ethers
+ * contract method: `call` handlers answer reads, `send` handlers answer writes
+ * (recorded in `sent` and returned as a transaction whose `wait()` resolves to
+ * a receipt), and missing handlers reject like a method the ABI lacks.
+ * Gas estimates always succeed, `connect` returns the same fake and
+ * `queryFilter` returns the `events` of the filtered event name. `interface`
+ * is the real one for `abi` (DungeonToken by default), so custom errors decode.
+ */
+export const createFakeContract = (
+  handlers: FakeContractHandlers = {},
+  abi: InterfaceAbi = DungeonTokenABI.abi
+): FakeContract => {
+  const sent: SentTransaction[] = [];
+  const contractInterface = new Interface(abi);
+
+  const invoke = async (method: string, args: any[]) => {
+    const read = handlers.call?.[method];
+    if (read) return read(...args);
+
+    const write = handlers.send?.[method];
+    if (!write) {
+      throw new Error(`No fake handler for ${method}`);
+    }
+    sent.push({ method, args });
+    await write(...args);
+    return {
+      hash: `0x${sent.length.toString(16).padStart(64, '0')}`,
+      from: '',
+      nonce: sent.length - 1,
+      wait: async () => ({ blockNumber: 100, logs: [] }),
+    };
+  };
+
+  const queryFilter = jest.fn(async (filter: { name: string }) => handlers.events?.[filter.name] ?? []);
+  const filters = new Proxy({}, { get: (_, name: string) => (...args: any[]) => ({ name, args }) });
+
+  const fake: any = new Proxy(
+    { queryFilter, sent, handlers, filters, interface: contractInterface },
+    {
+      get: (target: any, property: string) => {
+        if (property in target) return target[property];
+        if (property === 'connect') return () => fake;
+        if (property === 'then') return undefined;
+
+        const method = (...args: any[]) => invoke(property, args);
+        method.estimateGas = async () => BigInt(50000);
+        method.fragment = { name: property };
+        return method;
+      },
+    }
+  );
+  return fake;
+};
+
+// Error shaped like an ethers require() revert, so components see the reason
+export const revert = (reason: string) =>
+  Promise.reject(makeError(`execution reverted: "${reason}"`, 'CALL_EXCEPTION', { reason } as any));
+
+const GAME_INTERFACES = [DungeonTokenABI.abi, TradeEscrowABI.abi, MarketplaceABI.abi].map(abi => new Interface(abi));
+
+// Error shaped like an ethers custom error revert: no reason, just the encoded error data
+export const revertWith = (name: string, ...args: any[]) => {
+  const contractInterface = GAME_INTERFACES.find(candidate => candidate.getError(name));
+  if (!contractInterface) {
+    throw new Error(`No game contract declares ${name}`);
+  }
+  const data = contractInterface.encodeErrorResult(name, args);
+  return Promise.reject(
+    makeError('execution reverted (unknown custom error)', 'CALL_EXCEPTION', { reason: null, data } as any)
+  );
+};
+
+/**
+ * `getInventory` handler answering like DungeonToken.getInventory:
+ * ids with their balances, plus craft counts indexed by recipe id
+ */
+export const fakeInventory =
+  (balances: { [id: number]: number }, craftCounts: { [recipeId: number]: number } = {}) => () => {
+    const ids = Object.keys(balances).map(Number);
+    const recipeCount = Math.max(0, ...Object.keys(craftCounts).map(id => Number(id) + 1));
+    return [
+      ids.map(id => BigInt(id)),
+      ids.map(id => BigInt(balances[id])),
+      Array.from({ length: recipeCount }, (_, recipeId) => BigInt(craftCounts[recipeId] ?? 0)),
+    ];
+  };
+
+/**
+ * A DungeonToken event as queryFilter returns it (an EventLog with decoded
+ * args), for the `events` handler. `args` are in ABI order.
+ */
+export const fakeEventLog = (name: string, args: any[], blockNumber: number, index = 0): EventLog => {
+  const contractInterface = new Interface(DungeonTokenABI.abi);
+  const fragment = contractInterface.getEvent(name)!;
+  const { data, topics } = contractInterface.encodeEventLog(fragment, args);
+  const log = new Log(
+    {
+      transactionHash: `0x${blockNumber.toString(16).padStart(64, '0')}`,
+      blockHash: ZeroHash,
+      blockNumber,
+      removed: false,
+      address: FAKE_TOKEN_ADDRESS,
+      data,
+      topics,
+      index,
+      transactionIndex: 0,
+    } as LogParams,
+    null as any
+  );
+  return new EventLog(log, contractInterface, fragment);
+};
+
+export interface FakeClientOptions {
+  account: string;
+  addresses?: Partial<GameAddresses>;
+  escrow?: FakeContract;
+  marketplace?: FakeContract;
+  blockNumber?: number;
+  gasPrice?: number; // wei
+  tracker?: TransactionTracker;
+}
+
+export const FAKE_TOKEN_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+
+/**
+ * A real DungeonGameClient wired to fake contracts and a fake provider
+ */
+export const createFakeClient = (token: FakeContract, options: FakeClientOptions): DungeonGameClient => {
+  const provider = {
+    getBlockNumber: jest.fn(async () => options.blockNumber ?? 100),
+    getBlock: jest.fn(async () => ({ timestamp: 0, baseFeePerGas: BigInt(900_000_000) })),
+    getFeeData: jest.fn(async () => ({ gasPrice: BigInt(options.gasPrice ?? 1_000_000_000) })),
+    getSigner: jest.fn(async () => ({})),
+    getTransaction: jest.fn(async () => null),
+    getTransactionReceipt: jest.fn(async () => null),
+    getTransactionCount: jest.fn(async () => 0),
+  };
+
+  return new DungeonGameClient(
+    provider as unknown as GameProvider,
+    options.account,
+    {
+      dungeonToken: FAKE_TOKEN_ADDRESS,
+      tradeEscrow: ZERO_ADDRESS,
+      marketplace: ZERO_ADDRESS,
+      ...options.addresses,
+    },
+    {
+      token: token as unknown as DungeonToken,
+      escrow: (options.escrow ?? null) as TradeEscrow | null,
+      marketplace: (options.marketplace ?? null) as Marketplace | null,
+    },
+    options.tracker ?? null
+  );
+};
+
+// Render a component inside a GameClientProvider
+export const renderWithClient = (ui: React.ReactElement, client: DungeonGameClient) =>
+  render(ui, {
+    wrapper: ({ children }: { children: React.ReactNode }) =>
+      React.createElement(GameClientProvider, { client, children }),
+  });
@@ -0,0 +1,58 @@
+type Listener = (...args: any[]) => void;
+
+export interface FakeEthereumOptions {
+  accounts?: string[];          // returned by eth_accounts (already connected)
+  requestAccounts?: () => any;  // eth_requestAccounts result or thrown error
+  chainId?: number;
+  handlers?: { [method: string]: (params?: any[]) => any };
+}
+
+export interface FakeEthereum {
+  request: jest.Mock;
+  on: jest.Mock;
+  removeListener: jest.Mock;
+  emit: (event: string, ...args: any[]) => void;
+  listenerCount: (event: string) => number;
+}
+
+/**
+ * EIP-1193 provider standing in for MetaMask's `window.ethereum`.
+ * `emit` fires accountsChanged / chainChanged / disconnect like the wallet would.
+ */
+export const createFakeEthereum = (options: FakeEthereumOptions = {}): FakeEthereum => {
+  const listeners: { [event: string]: Listener[] } = {};
+  const chainIdHex = `0x${(options.chainId ?? 11155111).toString(16)}`;
+
+  const request = jest.fn(async ({ method, params }: { method: string; params?: any[] }) => {
+    if (options.handlers?.[method]) return options.handlers[method](params);
+
+    switch (method) {
+      case 'eth_accounts':
+        return options.accounts ?? [];
+      case 'eth_requestAccounts':
+        return options.requestAccounts ? options.requestAccounts() : options.accounts ?? [];
+      case 'eth_chainId':
+        return chainIdHex;
+      case 'eth_getBalance':
+        return '0x0';
+      default:
+        throw new Error(`Unsupported method ${method}`);
+    }
+  });
+
+  return {
+    request,
+    on: jest.fn((event: string, listener: Listener) => {
+      listeners[event] = [...(listeners[event] ?? []), listener];
+    }),
+    removeListener: jest.fn((event: string, listener: Listener) => {
+      listeners[event] = (listeners[event] ?? []).filter(existing => existing !== listener);
+    }),
+    emit: (event, ...args) => (listeners[event] ?? []).forEach(listener => listener(...args)),
+    listenerCount: event => (listeners[event] ?? []).length,
+  };
+};
+
+export const installFakeEthereum = (ethereum: FakeEthereum | undefined) => {
+  window.ethereum = ethereum;
+};
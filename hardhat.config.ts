@@ -2,6 +2,8 @@ import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
 import "@typechain/hardhat";
 import * as dotenv from "dotenv";
+import "./tasks/game";
+import "./tasks/node";
 
 dotenv.config();
 
@@ -9,9 +11,12 @@ const config: HardhatUserConfig = {
   solidity: {
     version: "0.8.24",
     settings: {
+      // Optimized for size over call cost: DungeonToken sits close to the 24 KB contract size limit.
+      // Cancun (live on mainnet and Sepolia) also shrinks the bytecode with PUSH0.
+      evmVersion: "cancun",
       optimizer: {
         enabled: true,
-        runs: 200
+        runs: 1
       }
     }
   },
@@ -0,0 +1,129 @@
+import * as fs from "fs";
+import * as path from "path";
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import { network } from "hardhat";
+
+// Extra recipe / dungeon tier on top of the ones the DungeonToken constructor seeds
+export interface RecipeSeed {
+  inputIds: number[];
+  inputAmounts: number[];
+  goldCost: number;
+  outputId: number;
+  outputAmount: number;
+  maxPerPlayer: number;
+}
+
+export interface DungeonSeed {
+  name: string;
+  energyCost: number;
+  lootIds: number[];
+  lootWeights: number[];
+  goldMin: number;
+  goldMax: number;
+}
+
+// Per-network deployment settings, read from ignition/networks/<network>.json
+export interface DungeonGameConfig {
+  baseURI?: string; // hosted metadata (with the {id} placeholder); the on-chain renderer when empty
+  owner?: string; // hand every token role and the marketplace to this address (not the deployer) once configured
+  mockVrf?: boolean; // route dungeon loot through MockVRFCoordinator (local networks only)
+  recipes?: RecipeSeed[];
+  dungeons?: DungeonSeed[];
+}
+
+const LOCAL_NETWORKS = ["hardhat", "localhost"];
+
+// DungeonToken roles handed to `owner`; the admin role goes last so the deployer can still grant the others
+const TOKEN_ROLES = ["MINTER_ROLE", "GAME_MASTER_ROLE", "CONFIG_ADMIN_ROLE", "PAUSER_ROLE", "DEFAULT_ADMIN_ROLE"] as const;
+
+/**
+ * The settings for `networkName`, with METADATA_BASE_URI, GAME_OWNER and
+ * USE_MOCK_VRF=true taking precedence over the file
+ */
+export function loadDungeonGameConfig(networkName: string): DungeonGameConfig {
+  const file = path.join(__dirname, "..", "networks", `${networkName}.json`);
+  const config: DungeonGameConfig = fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, "utf8")) : {};
+
+  return {
+    ...config,
+    baseURI: process.env.METADATA_BASE_URI || config.baseURI,
+    owner: process.env.GAME_OWNER || config.owner,
+    mockVrf: LOCAL_NETWORKS.includes(networkName) && (process.env.USE_MOCK_VRF === "true" || Boolean(config.mockVrf)),
+  };
+}
+
+export function buildDungeonGameModule(config: DungeonGameConfig) {
+  return buildModule("DungeonGameModule", (m) => {
+    const dungeonToken = m.contract("DungeonToken");
+
+    // Item metadata: a hosted base URI or the on-chain renderer
+    const metadataRenderer = config.baseURI ? null : m.contract("ItemMetadataRenderer", [dungeonToken]);
+    const setup: ReturnType<typeof m.call>[] = [
+      metadataRenderer
+        ? m.call(dungeonToken, "setMetadataRenderer", [metadataRenderer])
+        : m.call(dungeonToken, "setBaseURI", [config.baseURI ?? ""]),
+    ];
+
+    (config.recipes ?? []).forEach((recipe, index) => {
+      setup.push(
+        m.call(
+          dungeonToken,
+          "addRecipe",
+          [recipe.inputIds, recipe.inputAmounts, recipe.goldCost, recipe.outputId, recipe.outputAmount, recipe.maxPerPlayer],
+          { id: `addRecipe_${index}` }
+        )
+      );
+    });
+
+    (config.dungeons ?? []).forEach((dungeon, index) => {
+      setup.push(
+        m.call(
+          dungeonToken,
+          "addDungeon",
+          [dungeon.name, dungeon.energyCost, dungeon.lootIds, dungeon.lootWeights, dungeon.goldMin, dungeon.goldMax],
+          { id: `addDungeon_${index}` }
+        )
+      );
+    });
+
+    const randomnessCoordinator = config.mockVrf ? m.contract("MockVRFCoordinator") : null;
+    if (randomnessCoordinator) {
+      setup.push(m.call(dungeonToken, "setRandomnessCoordinator", [randomnessCoordinator]));
+    }
+
+    const tradeEscrow = m.contract("TradeEscrow", [dungeonToken]);
+    const marketplace = m.contract("Marketplace", [dungeonToken]);
+
+    // The escrows hold items for players, so the token leaves them out of season settlement
+    const escrowRole = m.staticCall(dungeonToken, "ESCROW_ROLE", [], 0, { id: "read_ESCROW_ROLE" });
+    setup.push(
+      m.call(dungeonToken, "grantRole", [escrowRole, tradeEscrow], { id: "grant_ESCROW_ROLE_tradeEscrow" }),
+      m.call(dungeonToken, "grantRole", [escrowRole, marketplace], { id: "grant_ESCROW_ROLE_marketplace" })
+    );
+
+    // Roles and ownership move last, once the deployer has finished configuring:
+    // the owner is granted every role, then the deployer renounces its own
+    if (config.owner) {
+      const deployer = m.getAccount(0);
+      const grants = TOKEN_ROLES.map((name) => {
+        const role = m.staticCall(dungeonToken, name, [], 0, { id: `read_${name}` });
+        return { name, role, grant: m.call(dungeonToken, "grantRole", [role, config.owner!], { id: `grant_${name}`, after: setup }) };
+      });
+      let previous: ReturnType<typeof m.call>[] = grants.map(({ grant }) => grant);
+      for (const { name, role } of grants) {
+        previous = [m.call(dungeonToken, "renounceRole", [role, deployer], { id: `renounce_${name}`, after: previous })];
+      }
+      m.call(marketplace, "transferOwnership", [config.owner], { id: "transferMarketplaceOwnership" });
+    }
+
+    return {
+      dungeonToken,
+      tradeEscrow,
+      marketplace,
+      ...(metadataRenderer ? { metadataRenderer } : {}),
+      ...(randomnessCoordinator ? { randomnessCoordinator } : {}),
+    };
+  });
+}
+
+export default buildDungeonGameModule(loadDungeonGameConfig(network.name));
@@ -0,0 +1,33 @@
+import * as path from "path";
+import * as dotenv from "dotenv";
+
+dotenv.config();
+
+export interface IndexerConfig {
+  rpcUrl: string;
+  contractAddress: string;
+  startBlock: number;
+  port: number;
+  dataFile: string;
+  pollIntervalMs: number;
+  batchSize: number;
+}
+
+// All settings come from the environment (or .env) so the same process can
+// follow the local Hardhat node or a public testnet
+export function loadConfig(): IndexerConfig {
+  const contractAddress = process.env.DUNGEON_TOKEN_ADDRESS;
+  if (!contractAddress) {
+    throw new Error("Set DUNGEON_TOKEN_ADDRESS to the DungeonToken contract to index");
+  }
+
+  return {
+    rpcUrl: process.env.INDEXER_RPC_URL || "http://127.0.0.1:8545",
+    contractAddress,
+    startBlock: Number(process.env.INDEXER_START_BLOCK || 0),
+    port: Number(process.env.INDEXER_PORT || 4000),
+    dataFile: process.env.INDEXER_DATA_FILE || path.join(__dirname, "data", "events.json"),
+    pollIntervalMs: Number(process.env.INDEXER_POLL_INTERVAL_MS || 3000),
+    batchSize: Number(process.env.INDEXER_BATCH_SIZE || 2000),
+  };
+}
@@ -0,0 +1,34 @@
+import { loadConfig } from "./config";
+import { Indexer } from "./indexer";
+import { createServer } from "./server";
+import { EventStore } from "./store";
+
+// Event indexer: follows DungeonToken logs over JSON-RPC into a local store
+// and serves player history, loot drops and supply stats over HTTP.
+//
+//   DUNGEON_TOKEN_ADDRESS=0x... npm run indexer
+async function main() {
+  const config = loadConfig();
+  const store = new EventStore(config.dataFile);
+  const indexer = new Indexer(config, store);
+
+  await indexer.init();
+  indexer.start();
+
+  const server = createServer(store);
+  server.listen(config.port, () => {
+    console.log(`📚 Indexer API listening on http://localhost:${config.port}`);
+  });
+
+  const shutdown = () => {
+    indexer.stop();
+    server.close();
+  };
+  process.on("SIGINT", shutdown);
+  process.on("SIGTERM", shutdown);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
@@ -0,0 +1,128 @@
+import { Interface, JsonRpcProvider, Log, LogDescription, Result } from "ethers";
+import DungeonTokenArtifact from "../frontend/src/abis/DungeonToken.json";
+import { IndexerConfig } from "./config";
+import { EventStore, IndexedEvent } from "./store";
+
+const dungeonTokenInterface = new Interface(DungeonTokenArtifact.abi);
+
+// Decoded args as plain JSON: uint256 -> decimal string, arrays element-wise
+function toJsonValue(value: unknown): string | string[] {
+  if (Array.isArray(value) || value instanceof Result) {
+    return Array.from(value as ArrayLike<unknown>, item => String(item));
+  }
+  return String(value);
+}
+
+export function decodeLog(parsed: LogDescription, log: Log, timestamp: number): IndexedEvent {
+  const args: Record<string, string | string[]> = {};
+  const players = new Set<string>();
+
+  parsed.fragment.inputs.forEach((input, index) => {
+    const value = toJsonValue(parsed.args[index]);
+    args[input.name] = value;
+    // The operator of a transfer is whoever moved the tokens, not a party to it
+    if (input.type === "address" && input.name !== "operator") {
+      const address = (value as string).toLowerCase();
+      if (address !== "0x0000000000000000000000000000000000000000") players.add(address);
+    }
+  });
+
+  return {
+    id: `${log.blockNumber}-${log.index}`,
+    name: parsed.name,
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    timestamp,
+    args,
+    players: Array.from(players),
+  };
+}
+
+/**
+ * Indexer
+ * Tails the DungeonToken logs in block ranges and appends them to the store.
+ * If the chain no longer contains the last indexed block (a restarted local
+ * node or a reorg), the store is rebuilt from the start block.
+ */
+export class Indexer {
+  private readonly provider: JsonRpcProvider;
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private readonly config: IndexerConfig, private readonly store: EventStore) {
+    this.provider = new JsonRpcProvider(config.rpcUrl);
+  }
+
+  async init() {
+    const network = await this.provider.getNetwork();
+    this.store.load(Number(network.chainId), this.config.contractAddress, this.config.startBlock);
+    console.log(`Indexing ${this.config.contractAddress} on chain ${network.chainId} from block ${this.store.lastBlock + 1}`);
+  }
+
+  // Detect a chain that no longer matches what we indexed
+  private async checkContinuity(head: number) {
+    if (this.store.lastBlock < this.config.startBlock) return;
+
+    const block = this.store.lastBlock <= head ? await this.provider.getBlock(this.store.lastBlock) : null;
+    if (!block || block.hash !== this.store.lastBlockHash) {
+      console.log("Chain changed under the indexer, re-indexing from the start block");
+      this.store.reset(this.config.startBlock);
+    }
+  }
+
+  // Index everything up to the current head, one batch of blocks at a time
+  async sync() {
+    const head = await this.provider.getBlockNumber();
+    await this.checkContinuity(head);
+
+    while (this.store.lastBlock < head) {
+      const fromBlock = this.store.lastBlock + 1;
+      const toBlock = Math.min(head, fromBlock + this.config.batchSize - 1);
+
+      const logs = await this.provider.getLogs({ address: this.config.contractAddress, fromBlock, toBlock });
+      const timestamps = new Map<number, number>();
+      const events: IndexedEvent[] = [];
+
+      for (const log of logs) {
+        const parsed = dungeonTokenInterface.parseLog(log);
+        if (!parsed) continue;
+
+        if (!timestamps.has(log.blockNumber)) {
+          const block = await this.provider.getBlock(log.blockNumber);
+          timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+        }
+        events.push(decodeLog(parsed, log, timestamps.get(log.blockNumber)!));
+      }
+
+      const lastBlock = await this.provider.getBlock(toBlock);
+      this.store.append(events, toBlock, lastBlock?.hash ?? "");
+      this.store.save();
+
+      if (events.length > 0) {
+        console.log(`Indexed ${events.length} event(s) in blocks ${fromBlock}-${toBlock}`);
+      }
+    }
+  }
+
+  // Keep syncing until stopped; errors are logged and retried on the next tick
+  start() {
+    this.running = true;
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        console.error("Indexer sync failed:", error);
+      }
+      if (this.running) this.timer = setTimeout(tick, this.config.pollIntervalMs);
+    };
+    tick();
+  }
+
+  stop() {
+    this.running = false;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.provider.destroy();
+  }
+}
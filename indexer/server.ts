@@ -0,0 +1,101 @@
+import * as http from "http";
+import { EventStore, EventQuery } from "./store";
+
+const MAX_LIMIT = 1000;
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+function parseLimit(value: string | null, fallback: number) {
+  const limit = value === null ? fallback : Number(value);
+  if (!Number.isInteger(limit) || limit <= 0) throw new HttpError(400, "Invalid limit");
+  return Math.min(limit, MAX_LIMIT);
+}
+
+function parseAddress(value: string | null | undefined) {
+  if (!value || !ADDRESS_PATTERN.test(value)) throw new HttpError(400, "Invalid address");
+  return value;
+}
+
+// Shared ?names=&since=&before=&limit= parameters
+function parseEventQuery(params: URLSearchParams): EventQuery {
+  const since = params.get("since");
+  if (since !== null && !Number.isFinite(Number(since))) throw new HttpError(400, "Invalid since");
+
+  return {
+    names: params.get("names")?.split(",").filter(Boolean),
+    since: since === null ? undefined : Number(since),
+    before: params.get("before") ?? undefined,
+    limit: parseLimit(params.get("limit"), 100),
+  };
+}
+
+/**
+ * Read-only JSON API over the event store
+ *
+ * GET /health                          indexing progress
+ * GET /events                          all events (?names=&since=&before=&limit=)
+ * GET /players/:address/history        events involving a player (same filters)
+ * GET /players/:address/balances       token balances derived from transfers
+ * GET /loot                            DungeonRun drops (?player=&dungeonId=&limit=)
+ * GET /stats/supply                    minted / burned / circulating per token
+ */
+export function createServer(store: EventStore) {
+  const route = (url: URL): unknown => {
+    const parts = url.pathname.split("/").filter(Boolean);
+    const params = url.searchParams;
+
+    if (url.pathname === "/health") {
+      return { chainId: store.chainId, lastBlock: store.lastBlock, eventCount: store.eventCount };
+    }
+    if (url.pathname === "/events") {
+      return store.queryEvents(parseEventQuery(params));
+    }
+    if (parts[0] === "players" && parts.length === 3) {
+      const player = parseAddress(parts[1]);
+      if (parts[2] === "history") return store.queryEvents({ ...parseEventQuery(params), player });
+      if (parts[2] === "balances") return store.getBalances(player);
+    }
+    if (url.pathname === "/loot") {
+      const player = params.get("player");
+      const dungeonId = params.get("dungeonId");
+      const runs = store.queryEvents({
+        names: ["DungeonRun"],
+        player: player === null ? undefined : parseAddress(player),
+        limit: dungeonId === null ? parseLimit(params.get("limit"), 100) : MAX_LIMIT,
+      });
+      return dungeonId === null
+        ? runs
+        : runs.filter(run => run.args.dungeonId === dungeonId).slice(0, parseLimit(params.get("limit"), 100));
+    }
+    if (url.pathname === "/stats/supply") {
+      return store.getSupply();
+    }
+    throw new HttpError(404, "Not found");
+  };
+
+  return http.createServer((request, response) => {
+    response.setHeader("Content-Type", "application/json");
+    response.setHeader("Access-Control-Allow-Origin", "*");
+
+    if (request.method !== "GET") {
+      response.writeHead(405);
+      response.end(JSON.stringify({ error: "Method not allowed" }));
+      return;
+    }
+
+    try {
+      const body = route(new URL(request.url ?? "/", "http://localhost"));
+      response.writeHead(200);
+      response.end(JSON.stringify(body));
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      response.writeHead(status);
+      response.end(JSON.stringify({ error: error instanceof Error ? error.message : "Internal error" }));
+    }
+  });
+}
@@ -0,0 +1,240 @@
+import * as fs from "fs";
+import * as path from "path";
+import { id } from "ethers";
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+const ESCROW_ROLE = id("ESCROW_ROLE");
+
+// A decoded contract event. Numbers are kept as decimal strings so the store
+// round-trips through JSON without losing uint256 precision.
+export interface IndexedEvent {
+  id: string; // `${blockNumber}-${logIndex}`
+  name: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  timestamp: number; // block timestamp (seconds)
+  args: Record<string, string | string[]>;
+  players: string[]; // lowercased addresses the event concerns
+}
+
+export interface SupplyStats {
+  minted: string;
+  burned: string;
+  circulating: string;
+}
+
+interface StoreState {
+  chainId: number;
+  contractAddress: string;
+  lastBlock: number;
+  lastBlockHash: string;
+  events: IndexedEvent[];
+  balances: Record<string, Record<string, string>>; // player -> tokenId -> amount
+  supply: Record<string, { minted: string; burned: string }>; // tokenId -> totals
+  season: number; // latest SeasonStarted (0 before the first one indexed)
+  playerSeasons: Record<string, number>; // player -> season of their last transfer
+  veteranItems: Record<string, string>; // tokenId -> what it becomes at season end ("0" = expires)
+  escrows: string[]; // holders of ESCROW_ROLE, which the contract never settles
+}
+
+export interface EventQuery {
+  player?: string;
+  names?: string[];
+  since?: number; // timestamp (seconds), inclusive
+  before?: string; // event id, exclusive (for paging backwards)
+  limit?: number;
+}
+
+/**
+ * EventStore
+ * Local read-model persisted as a single JSON file: the raw event log plus
+ * balances and supply derived from TransferSingle/TransferBatch, so the API
+ * can answer without touching the chain. Balances follow the contract's season
+ * soft reset (see getBalances).
+ */
+export class EventStore {
+  private state: StoreState;
+
+  constructor(private readonly file: string) {
+    this.state = EventStore.emptyState(0, "", -1);
+  }
+
+  private static emptyState(chainId: number, contractAddress: string, lastBlock: number): StoreState {
+    return {
+      chainId,
+      contractAddress,
+      lastBlock,
+      lastBlockHash: "",
+      events: [],
+      balances: {},
+      supply: {},
+      season: 0,
+      playerSeasons: {},
+      veteranItems: {},
+      escrows: [],
+    };
+  }
+
+  // Load the persisted state, starting over when it belongs to another chain or contract
+  load(chainId: number, contractAddress: string, startBlock: number) {
+    const address = contractAddress.toLowerCase();
+    if (fs.existsSync(this.file)) {
+      const saved: StoreState = JSON.parse(fs.readFileSync(this.file, "utf8"));
+      if (saved.chainId === chainId && saved.contractAddress === address) {
+        // Files written before seasons were indexed lack the season fields
+        this.state = { ...EventStore.emptyState(chainId, address, startBlock - 1), ...saved };
+        return;
+      }
+    }
+    this.state = EventStore.emptyState(chainId, address, startBlock - 1);
+  }
+
+  // Drop everything indexed so far (e.g. after the local node restarted)
+  reset(startBlock: number) {
+    this.state = EventStore.emptyState(this.state.chainId, this.state.contractAddress, startBlock - 1);
+  }
+
+  save() {
+    fs.mkdirSync(path.dirname(this.file), { recursive: true });
+    const tmp = `${this.file}.tmp`;
+    fs.writeFileSync(tmp, JSON.stringify(this.state));
+    fs.renameSync(tmp, this.file);
+  }
+
+  get lastBlock() {
+    return this.state.lastBlock;
+  }
+
+  get lastBlockHash() {
+    return this.state.lastBlockHash;
+  }
+
+  get chainId() {
+    return this.state.chainId;
+  }
+
+  // Append a batch of events (in chain order) and mark the range as indexed
+  append(events: IndexedEvent[], lastBlock: number, lastBlockHash: string) {
+    for (const event of events) {
+      this.state.events.push(event);
+      this.applySeasons(event);
+      this.applyTransfers(event);
+    }
+    this.state.lastBlock = lastBlock;
+    this.state.lastBlockHash = lastBlockHash;
+  }
+
+  private applySeasons(event: IndexedEvent) {
+    if (event.name === "SeasonStarted") {
+      this.state.season = Number(event.args.seasonId);
+    } else if (event.name === "VeteranItemUpdated") {
+      const itemId = event.args.itemId as string;
+      const veteranId = event.args.veteranId as string;
+      // Veteran items always carry over, as in DungeonToken.setVeteranItem
+      if (veteranId !== "0") this.state.veteranItems[veteranId] = veteranId;
+      this.state.veteranItems[itemId] = veteranId;
+    } else if ((event.name === "RoleGranted" || event.name === "RoleRevoked") && event.args.role === ESCROW_ROLE) {
+      const account = (event.args.account as string).toLowerCase();
+      this.state.escrows = this.state.escrows.filter(escrow => escrow !== account);
+      if (event.name === "RoleGranted") this.state.escrows.push(account);
+    }
+  }
+
+  private applyTransfers(event: IndexedEvent) {
+    let ids: string[];
+    let values: string[];
+    if (event.name === "TransferSingle") {
+      ids = [event.args.id as string];
+      values = [event.args.value as string];
+    } else if (event.name === "TransferBatch") {
+      ids = event.args.ids as string[];
+      values = event.args.values as string[];
+    } else {
+      return;
+    }
+
+    const from = (event.args.from as string).toLowerCase();
+    const to = (event.args.to as string).toLowerCase();
+    ids.forEach((id, index) => {
+      const value = BigInt(values[index]);
+      const supply = (this.state.supply[id] ??= { minted: "0", burned: "0" });
+      if (from === ZERO_ADDRESS) {
+        supply.minted = (BigInt(supply.minted) + value).toString();
+      } else {
+        this.addBalance(from, id, -value);
+      }
+      if (to === ZERO_ADDRESS) {
+        supply.burned = (BigInt(supply.burned) + value).toString();
+      } else {
+        this.addBalance(to, id, value);
+      }
+    });
+  }
+
+  private addBalance(player: string, id: string, delta: bigint) {
+    // The contract settles every holder but the escrows into the current season
+    // before any of their balances move
+    if (!this.state.escrows.includes(player)) this.state.playerSeasons[player] = this.state.season;
+    const balances = (this.state.balances[player] ??= {});
+    const next = BigInt(balances[id] ?? "0") + delta;
+    if (next === 0n) {
+      delete balances[id];
+    } else {
+      balances[id] = next.toString();
+    }
+  }
+
+  // Newest-first event search
+  queryEvents({ player, names, since, before, limit = 100 }: EventQuery = {}): IndexedEvent[] {
+    const address = player?.toLowerCase();
+    const results: IndexedEvent[] = [];
+    let index = this.state.events.length - 1;
+
+    if (before) {
+      const position = this.state.events.findIndex(event => event.id === before);
+      if (position >= 0) index = position - 1;
+    }
+
+    for (; index >= 0 && results.length < limit; index--) {
+      const event = this.state.events[index];
+      if (since !== undefined && event.timestamp < since) break;
+      if (names && !names.includes(event.name)) continue;
+      if (address && !event.players.includes(address)) continue;
+      results.push(event);
+    }
+    return results;
+  }
+
+  // A player with no transfers since the last SeasonStarted still holds their old
+  // balances on chain; report what DungeonToken.balanceOf does: expired items
+  // dropped and carried-over ones added to their veteran item
+  getBalances(player: string): Record<string, string> {
+    const address = player.toLowerCase();
+    const balances = this.state.balances[address] ?? {};
+    if ((this.state.playerSeasons[address] ?? this.state.season) === this.state.season) {
+      return balances;
+    }
+
+    const settled: Record<string, string> = {};
+    for (const [id, amount] of Object.entries(balances)) {
+      const veteranId = this.state.veteranItems[id] ?? "0";
+      if (veteranId === "0") continue;
+      settled[veteranId] = (BigInt(settled[veteranId] ?? "0") + BigInt(amount)).toString();
+    }
+    return settled;
+  }
+
+  getSupply(): Record<string, SupplyStats> {
+    return Object.fromEntries(
+      Object.entries(this.state.supply).map(([id, { minted, burned }]) => [
+        id,
+        { minted, burned, circulating: (BigInt(minted) - BigInt(burned)).toString() },
+      ])
+    );
+  }
+
+  get eventCount() {
+    return this.state.events.length;
+  }
+}
@@ -0,0 +1,372 @@
+import * as fs from "fs";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { DungeonToken } from "../frontend/src/types";
+import { readDeployment } from "../contracts/scripts/deployments";
+
+// Game administration from the CLI, e.g.
+//   npx hardhat game:mint-energy --to 0x... --amount 10 --network localhost
+// The DungeonToken address comes from the deployments registry unless --token is given.
+
+const DEFAULT_RESET_CHUNK_SIZE = 50;
+const DEFAULT_AIRDROP_CHUNK_SIZE = 20;
+
+// DungeonToken roles by the names the tasks accept
+const ROLE_NAMES = [
+  "DEFAULT_ADMIN_ROLE",
+  "MINTER_ROLE",
+  "GAME_MASTER_ROLE",
+  "CONFIG_ADMIN_ROLE",
+  "PAUSER_ROLE",
+  "ESCROW_ROLE",
+] as const;
+type RoleName = (typeof ROLE_NAMES)[number];
+
+// DungeonToken.GameAction values by the names the pause tasks accept
+const GAME_ACTIONS: Record<string, number> = { "dungeon-runs": 0, crafting: 1, "time-rewards": 2, transfers: 3 };
+
+interface TokenArgs {
+  token?: string;
+}
+
+interface AirdropRow {
+  address: string;
+  energy: bigint;
+  gold: bigint;
+}
+
+async function getToken(hre: HardhatRuntimeEnvironment, { token }: TokenArgs): Promise<DungeonToken> {
+  const address = token || readDeployment(hre.network.name)?.dungeonToken;
+  if (!address || address === hre.ethers.ZeroAddress) {
+    throw new Error(`No DungeonToken deployment recorded for ${hre.network.name}; deploy first or pass --token`);
+  }
+  return (await hre.ethers.getContractAt("DungeonToken", address)) as unknown as DungeonToken;
+}
+
+function requireAddress(hre: HardhatRuntimeEnvironment, value: string, label: string): string {
+  if (!hre.ethers.isAddress(value)) {
+    throw new Error(`${label} is not an address: ${value}`);
+  }
+  return hre.ethers.getAddress(value);
+}
+
+function chunk<T>(values: T[], size: number): T[][] {
+  if (size < 1) throw new Error("--chunk-size must be at least 1");
+  const chunks: T[][] = [];
+  for (let start = 0; start < values.length; start += size) {
+    chunks.push(values.slice(start, start + size));
+  }
+  return chunks;
+}
+
+// "minter", "MINTER", "MINTER_ROLE" and "game-master" all name a role; "admin" is DEFAULT_ADMIN_ROLE
+function requireRole(value: string): RoleName {
+  const normalized = value.trim().toUpperCase().replace(/-/g, "_").replace(/_ROLE$/, "");
+  const name = `${normalized === "ADMIN" ? "DEFAULT_ADMIN" : normalized}_ROLE`;
+  const role = ROLE_NAMES.find((candidate) => candidate === name);
+  if (!role) {
+    throw new Error(`Unknown role: ${value} (expected one of ${ROLE_NAMES.join(", ")})`);
+  }
+  return role;
+}
+
+function requireAction(value: string): number {
+  const action = GAME_ACTIONS[value.trim().toLowerCase()];
+  if (action === undefined) {
+    throw new Error(`Unknown action: ${value} (expected one of ${Object.keys(GAME_ACTIONS).join(", ")})`);
+  }
+  return action;
+}
+
+// "address,energy,gold" per line; a header row and blank lines are skipped
+export function parseAirdropCsv(hre: HardhatRuntimeEnvironment, contents: string): AirdropRow[] {
+  const rows: AirdropRow[] = [];
+  contents.split(/\r?\n/).forEach((line, index) => {
+    const [address = "", energy = "0", gold = "0"] = line.split(",").map((cell) => cell.trim());
+    if (!address || (index === 0 && address.toLowerCase() === "address")) return;
+
+    const label = `Line ${index + 1}`;
+    if (!/^\d+$/.test(energy) || !/^\d+$/.test(gold)) {
+      throw new Error(`${label}: energy and gold must be whole numbers`);
+    }
+    rows.push({ address: requireAddress(hre, address, label), energy: BigInt(energy), gold: BigInt(gold) });
+  });
+  return rows;
+}
+
+// Mint through an account holding MINTER_ROLE, or only print the estimate on --dry-run
+async function mint(
+  hre: HardhatRuntimeEnvironment,
+  args: TokenArgs & { to: string; amount: number; dryRun: boolean },
+  method: "mintEnergy" | "mintGold",
+  itemName: string
+) {
+  const token = await getToken(hre, args);
+  const to = requireAddress(hre, args.to, "--to");
+
+  if (args.dryRun) {
+    const gas = await token[method].estimateGas(to, args.amount);
+    console.log(`[dry run] ${method}(${to}, ${args.amount}) - estimated gas ${gas}`);
+    return;
+  }
+
+  const receipt = await (await token[method](to, args.amount)).wait();
+  console.log(`Minted ${args.amount} ${itemName} to ${to} (tx ${receipt?.hash})`);
+}
+
+task("game:mint-energy", "Mints Energy to a player")
+  .addParam("to", "Player address")
+  .addParam("amount", "Amount of Energy", undefined, types.int)
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .addFlag("dryRun", "Estimate gas without sending the transaction")
+  .setAction(async (args, hre) => mint(hre, args, "mintEnergy", "Energy"));
+
+task("game:mint-gold", "Mints Gold to a player")
+  .addParam("to", "Player address")
+  .addParam("amount", "Amount of Gold", undefined, types.int)
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .addFlag("dryRun", "Estimate gas without sending the transaction")
+  .setAction(async (args, hre) => mint(hre, args, "mintGold", "Gold"));
+
+task("game:reset-player", "Burns the game items of one or more players and clears their progress")
+  .addParam("players", "Comma-separated player addresses")
+  .addOptionalParam("chunkSize", "Players reset per transaction", DEFAULT_RESET_CHUNK_SIZE, types.int)
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .addFlag("dryRun", "List the transactions without sending them")
+  .setAction(async (args, hre) => {
+    const token = await getToken(hre, args);
+    const players = (args.players as string)
+      .split(",")
+      .map((player) => player.trim())
+      .filter(Boolean)
+      .map((player, index) => requireAddress(hre, player, `Player ${index + 1}`));
+
+    const batches = chunk(players, args.chunkSize);
+    for (const [index, batch] of batches.entries()) {
+      const label = `Batch ${index + 1}/${batches.length} (${batch.length} player${batch.length === 1 ? "" : "s"})`;
+      if (args.dryRun) {
+        const gas = await token.resetPlayers.estimateGas(batch);
+        console.log(`[dry run] ${label} - estimated gas ${gas}`);
+        continue;
+      }
+      const receipt = await (await token.resetPlayers(batch)).wait();
+      console.log(`${label} reset (tx ${receipt?.hash})`);
+    }
+  });
+
+task("game:reset-all", "Resets every registered player, one batch per transaction")
+  .addOptionalParam("batchSize", "Players reset per transaction", DEFAULT_RESET_CHUNK_SIZE, types.int)
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .addFlag("restart", "Start from the first player instead of resuming an unfinished pass")
+  .addFlag("dryRun", "List the transactions without sending them")
+  .setAction(async (args, hre) => {
+    if (args.batchSize < 1) throw new Error("--batch-size must be at least 1");
+    const token = await getToken(hre, args);
+    let start = args.restart ? 0 : Number(await token.resetCursor());
+    if (start > 0) {
+      console.log(`Resuming the unfinished reset pass at player ${start}`);
+    }
+
+    if (args.dryRun) {
+      const playerCount = Number(await token.getPlayerCount());
+      for (let batchStart = start; batchStart < playerCount; batchStart += args.batchSize) {
+        console.log(`[dry run] resetPlayersRange(${batchStart}, ${args.batchSize})`);
+      }
+      return;
+    }
+
+    // resetCursor is 0 again once the pass reaches the end of the (possibly grown) list
+    do {
+      const receipt = await (await token.resetPlayersRange(start, args.batchSize)).wait();
+      const playerCount = Number(await token.getPlayerCount());
+      const end = Math.min(start + args.batchSize, playerCount);
+      console.log(`Reset players ${start + 1}-${end} of ${playerCount} (tx ${receipt?.hash})`);
+      start = Number(await token.resetCursor());
+    } while (start !== 0);
+  });
+
+task("game:start-season", "Ends the current season and starts the next")
+  .addOptionalParam("days", "Season length in days (0 for open-ended)", 0, types.int)
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .addFlag("dryRun", "Estimate gas without sending the transaction")
+  .setAction(async (args, hre) => {
+    if (args.days < 0) throw new Error("--days must not be negative");
+    const token = await getToken(hre, args);
+    const duration = args.days * 24 * 60 * 60;
+
+    if (args.dryRun) {
+      const gas = await token.startSeason.estimateGas(duration);
+      console.log(`[dry run] startSeason(${duration}) - estimated gas ${gas}`);
+      return;
+    }
+
+    const receipt = await (await token.startSeason(duration)).wait();
+    const seasonId = await token.currentSeason();
+    const { endsAt } = await token.getSeason(seasonId);
+    const ends = endsAt === 0n ? "open-ended" : `ends ${new Date(Number(endsAt) * 1000).toISOString()}`;
+    console.log(`Season ${seasonId} started, ${ends} (tx ${receipt?.hash})`);
+  });
+
+task("game:set-veteran-item", "Sets what an item becomes when a season ends")
+  .addParam("item", "Item ID", undefined, types.int)
+  .addParam("veteran", "Veteran item ID (the item itself to carry it over, 0 to let it expire)", undefined, types.int)
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .setAction(async (args, hre) => {
+    const token = await getToken(hre, args);
+    const receipt = await (await token.setVeteranItem(args.item, args.veteran)).wait();
+    console.log(`Item ${args.item} now becomes ${args.veteran === 0 ? "nothing" : `item ${args.veteran}`} at season end (tx ${receipt?.hash})`);
+  });
+
+task("game:cancel-loot-request", "Closes a loot request the coordinator will not fulfil and refunds its Energy")
+  .addParam("request", "Coordinator request ID")
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .setAction(async (args, hre) => {
+    const token = await getToken(hre, args);
+    const requestId = BigInt(args.request);
+    const { player } = await token.lootRequests(requestId);
+    if (player === hre.ethers.ZeroAddress) throw new Error(`No open loot request ${requestId}`);
+
+    const receipt = await (await token.cancelLootRequest(requestId)).wait();
+    console.log(`Cancelled loot request ${requestId} of ${player} (tx ${receipt?.hash})`);
+  });
+
+task("game:roles", "Shows which roles an account holds")
+  .addParam("account", "Account address")
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .setAction(async (args, hre) => {
+    const token = await getToken(hre, args);
+    const account = requireAddress(hre, args.account, "--account");
+
+    console.log(`Roles of ${account}`);
+    let held = 0;
+    for (const name of ROLE_NAMES) {
+      if (await token.hasRole(await token[name](), account)) {
+        console.log(`  ${name}`);
+        held++;
+      }
+    }
+    if (held === 0) {
+      console.log("  (none)");
+    }
+  });
+
+task("game:grant-role", "Grants a role to an account (needs DEFAULT_ADMIN_ROLE)")
+  .addParam("role", "Role name, e.g. minter, game-master, config-admin, pauser or admin")
+  .addParam("account", "Account address")
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .setAction(async (args, hre) => {
+    const token = await getToken(hre, args);
+    const role = requireRole(args.role);
+    const account = requireAddress(hre, args.account, "--account");
+
+    const receipt = await (await token.grantRole(await token[role](), account)).wait();
+    console.log(`Granted ${role} to ${account} (tx ${receipt?.hash})`);
+  });
+
+task("game:revoke-role", "Revokes a role from an account (needs DEFAULT_ADMIN_ROLE)")
+  .addParam("role", "Role name, e.g. minter, game-master, config-admin, pauser or admin")
+  .addParam("account", "Account address")
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .setAction(async (args, hre) => {
+    const token = await getToken(hre, args);
+    const role = requireRole(args.role);
+    const account = requireAddress(hre, args.account, "--account");
+
+    const receipt = await (await token.revokeRole(await token[role](), account)).wait();
+    console.log(`Revoked ${role} from ${account} (tx ${receipt?.hash})`);
+  });
+
+// Pause or resume one game action through an account holding PAUSER_ROLE
+async function setPaused(hre: HardhatRuntimeEnvironment, args: TokenArgs & { action: string }, paused: boolean) {
+  const token = await getToken(hre, args);
+  const action = requireAction(args.action);
+  const receipt = await (await token.setPaused(action, paused)).wait();
+  console.log(`${args.action} ${paused ? "paused" : "resumed"} (tx ${receipt?.hash})`);
+}
+
+task("game:pause", "Pauses one game action for every player")
+  .addParam("action", `One of ${Object.keys(GAME_ACTIONS).join(", ")}`)
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .setAction(async (args, hre) => setPaused(hre, args, true));
+
+task("game:unpause", "Resumes a paused game action")
+  .addParam("action", `One of ${Object.keys(GAME_ACTIONS).join(", ")}`)
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .setAction(async (args, hre) => setPaused(hre, args, false));
+
+task("game:list-players", "Lists registered players")
+  .addOptionalParam("start", "First index", 0, types.int)
+  .addOptionalParam("limit", "Maximum number of players", 100, types.int)
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .setAction(async (args, hre) => {
+    const token = await getToken(hre, args);
+    const count = Number(await token.getPlayerCount());
+    const end = Math.min(count, args.start + args.limit);
+
+    console.log(`${count} player${count === 1 ? "" : "s"} registered`);
+    for (let index = args.start; index < end; index++) {
+      console.log(`  ${index}: ${await token.getPlayerAt(index)}`);
+    }
+    if (end < count) {
+      console.log(`  ... ${count - end} more (use --start ${end})`);
+    }
+  });
+
+task("game:inventory", "Shows a player's items and craft counts")
+  .addParam("player", "Player address")
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .setAction(async (args, hre) => {
+    const token = await getToken(hre, args);
+    const player = requireAddress(hre, args.player, "--player");
+    const [ids, balances, craftCounts] = await token.getInventory(player);
+
+    console.log(`Inventory of ${player}`);
+    let owned = 0;
+    for (let index = 0; index < ids.length; index++) {
+      if (balances[index] === 0n) continue;
+      const item = await token.getItem(ids[index]);
+      console.log(`  ${item.name} (#${ids[index]}): ${balances[index]}`);
+      owned++;
+    }
+    if (owned === 0) {
+      console.log("  (no items)");
+    }
+
+    craftCounts.forEach((crafted, recipeId) => {
+      if (crafted > 0n) console.log(`  Recipe ${recipeId} crafted ${crafted}x`);
+    });
+  });
+
+task("game:airdrop", "Mints Energy and Gold to the players listed in a CSV file")
+  .addParam("csv", "CSV file with address,energy,gold rows")
+  .addOptionalParam("chunkSize", "Transactions sent before waiting for them", DEFAULT_AIRDROP_CHUNK_SIZE, types.int)
+  .addOptionalParam("token", "DungeonToken address (default: deployments registry)")
+  .addFlag("dryRun", "Print the planned mints without sending them")
+  .setAction(async (args, hre) => {
+    const token = await getToken(hre, args);
+    const rows = parseAirdropCsv(hre, fs.readFileSync(args.csv, "utf8"));
+
+    const mints = rows.flatMap((row) => [
+      ...(row.energy > 0n ? [{ method: "mintEnergy" as const, to: row.address, amount: row.energy }] : []),
+      ...(row.gold > 0n ? [{ method: "mintGold" as const, to: row.address, amount: row.gold }] : []),
+    ]);
+    const totalEnergy = rows.reduce((sum, row) => sum + row.energy, 0n);
+    const totalGold = rows.reduce((sum, row) => sum + row.gold, 0n);
+    console.log(`${rows.length} players: ${totalEnergy} Energy and ${totalGold} Gold in ${mints.length} transactions`);
+
+    if (args.dryRun) {
+      mints.forEach(({ method, to, amount }) => console.log(`[dry run] ${method}(${to}, ${amount})`));
+      return;
+    }
+
+    // Send a chunk back to back, then wait for all of it before the next
+    const batches = chunk(mints, args.chunkSize);
+    for (const [index, batch] of batches.entries()) {
+      const sent = [];
+      for (const { method, to, amount } of batch) {
+        sent.push(await token[method](to, amount));
+      }
+      await Promise.all(sent.map((tx) => tx.wait()));
+      console.log(`Batch ${index + 1}/${batches.length}: ${batch.length} transactions confirmed`);
+    }
+  });
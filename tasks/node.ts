@@ -0,0 +1,11 @@
+import { subtask } from "hardhat/config";
+import { TASK_NODE_SERVER_READY } from "hardhat/builtin-tasks/task-names";
+
+// Keep `npx hardhat node` mining while idle so commit-reveal dungeon runs can be
+// revealed locally. The in-process network the tests use only mines on transactions.
+const NODE_MINING_INTERVAL_MS = 3000;
+
+subtask(TASK_NODE_SERVER_READY).setAction(async (args, hre, runSuper) => {
+  await hre.network.provider.send("evm_setIntervalMining", [NODE_MINING_INTERVAL_MS]);
+  return runSuper(args);
+});
@@ -0,0 +1,49 @@
+import { expect } from "chai";
+import { ethers, ignition } from "hardhat";
+import { buildDungeonGameModule } from "../ignition/modules/DungeonGame";
+import type { DungeonToken, Marketplace } from "../frontend/src/types";
+
+describe("DungeonGameModule", function () {
+  it("deploys the game with the on-chain metadata renderer by default", async function () {
+    const [owner] = await ethers.getSigners();
+
+    const contracts = await ignition.deploy(buildDungeonGameModule({}));
+    const token = contracts.dungeonToken as unknown as DungeonToken;
+
+    expect(await token.metadataRenderer()).to.equal(await contracts.metadataRenderer!.getAddress());
+    expect(await token.hasRole(await token.DEFAULT_ADMIN_ROLE(), owner.address)).to.equal(true);
+    for (const escrow of [contracts.tradeEscrow, contracts.marketplace]) {
+      expect(await token.hasRole(await token.ESCROW_ROLE(), await escrow.getAddress())).to.equal(true);
+    }
+  });
+
+  it("applies the network settings and hands the roles and ownership over last", async function () {
+    const [deployer, newOwner] = await ethers.getSigners();
+
+    const contracts = await ignition.deploy(
+      buildDungeonGameModule({
+        baseURI: "https://example.com/metadata/{id}.json",
+        owner: newOwner.address,
+        recipes: [{ inputIds: [1001], inputAmounts: [10], goldCost: 5, outputId: 1003, outputAmount: 1, maxPerPlayer: 0 }],
+        dungeons: [{ name: "Training Grounds", energyCost: 1, lootIds: [1001], lootWeights: [1], goldMin: 1, goldMax: 2 }],
+      })
+    );
+    const token = contracts.dungeonToken as unknown as DungeonToken;
+    const marketplace = contracts.marketplace as unknown as Marketplace;
+
+    expect(await token.uri(1001)).to.equal("https://example.com/metadata/{id}.json");
+    expect(await token.getRecipeCount()).to.equal(8n);
+    expect((await token.getDungeon(3)).name).to.equal("Training Grounds");
+    for (const role of [
+      await token.DEFAULT_ADMIN_ROLE(),
+      await token.MINTER_ROLE(),
+      await token.GAME_MASTER_ROLE(),
+      await token.CONFIG_ADMIN_ROLE(),
+      await token.PAUSER_ROLE(),
+    ]) {
+      expect(await token.hasRole(role, newOwner.address)).to.equal(true);
+      expect(await token.hasRole(role, deployer.address)).to.equal(false);
+    }
+    expect(await marketplace.owner()).to.equal(newOwner.address);
+  });
+});
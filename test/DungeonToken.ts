@@ -0,0 +1,1179 @@
+import { loadFixture, mine, setBalance, time } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { DungeonToken, MockVRFCoordinator } from "../frontend/src/types";
+
+// Token IDs
+const ENERGY = 1n;
+const GOLD = 2n;
+const COMMON_SWORD = 1001n;
+const RARE_SWORD = 1002n;
+const EPIC_SWORD = 1003n;
+const LEGENDARY_SWORDS = [2001n, 2002n, 2003n, 2004n, 2005n];
+
+// Default recipe and dungeon ids
+const COMMON_TO_RARE = 0;
+const RARE_TO_EPIC = 1;
+const FIRST_LEGENDARY_RECIPE = 2;
+const CATACOMBS = 0;
+
+// Randomness that lands on each Catacombs loot entry (weights 70 / 20 / 10)
+const CATACOMBS_ROLL: Record<string, bigint> = {
+  [COMMON_SWORD.toString()]: 0n,
+  [RARE_SWORD.toString()]: 70n,
+  [EPIC_SWORD.toString()]: 90n,
+};
+
+const commitmentFor = (player: string, seed: string) =>
+  ethers.solidityPackedKeccak256(["address", "bytes32"], [player, seed]);
+
+const seedFor = (label: string) => ethers.id(label);
+
+describe("DungeonToken", function () {
+  async function deployFixture() {
+    const [owner, alice, bob, ...others] = await ethers.getSigners();
+
+    const token = (await ethers.deployContract("DungeonToken")) as unknown as DungeonToken;
+    await token.waitForDeployment();
+
+    return { token, owner, alice, bob, others };
+  }
+
+  // Dungeon loot routed through the mock coordinator so rolls can be chosen
+  async function deployWithCoordinatorFixture() {
+    const base = await deployFixture();
+
+    const coordinator = (await ethers.deployContract("MockVRFCoordinator")) as unknown as MockVRFCoordinator;
+    await coordinator.waitForDeployment();
+    await base.token.setRandomnessCoordinator(await coordinator.getAddress());
+
+    return { ...base, coordinator };
+  }
+
+  // Commit a dungeon run, wait out the reveal delay and reveal it
+  async function runDungeon(token: DungeonToken, player: HardhatEthersSigner, dungeonId: number, seed: string) {
+    await token.connect(player).commitDungeonRun(dungeonId, commitmentFor(player.address, seed));
+    await mine(Number(await token.REVEAL_DELAY()));
+    return token.connect(player).revealDungeonRun(seed);
+  }
+
+  // Same for time rewards
+  async function claimTimeRewards(token: DungeonToken, player: HardhatEthersSigner, seed: string) {
+    await token.connect(player).commitTimeRewards(commitmentFor(player.address, seed));
+    await mine(Number(await token.REVEAL_DELAY()));
+    return token.connect(player).revealTimeRewards(seed);
+  }
+
+  // Give a player swords by running the Catacombs with a fixed coordinator roll
+  async function giveSwords(
+    token: DungeonToken,
+    coordinator: MockVRFCoordinator,
+    player: HardhatEthersSigner,
+    swordId: bigint,
+    count: number
+  ) {
+    await token.mintEnergy(player.address, count);
+    for (let i = 0; i < count; i++) {
+      const requestId = await coordinator.nextRequestId();
+      await token.connect(player).requestDungeonRun(CATACOMBS);
+      await coordinator.fulfillRequest(requestId, CATACOMBS_ROLL[swordId.toString()]);
+    }
+  }
+
+  describe("Deployment", function () {
+    it("mints the owner's initial supply and registers the owner", async function () {
+      const { token, owner } = await loadFixture(deployFixture);
+
+      expect(await token.balanceOf(owner.address, ENERGY)).to.equal(1000n);
+      expect(await token.balanceOf(owner.address, GOLD)).to.equal(10000n);
+      expect(await token.getPlayerCount()).to.equal(1n);
+      expect(await token.getPlayerAt(0)).to.equal(owner.address);
+    });
+
+    it("registers the default items, recipes and dungeons", async function () {
+      const { token } = await loadFixture(deployFixture);
+
+      expect(await token.getItemCount()).to.equal(10n);
+      expect(await token.getRecipeCount()).to.equal(7n);
+      expect(await token.getDungeonCount()).to.equal(3n);
+      expect((await token.getItem(EPIC_SWORD)).name).to.equal("Epic Sword");
+    });
+  });
+
+  describe("Starter pack", function () {
+    it("mints energy, gold and a common sword", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.connect(alice).claimStarterPack())
+        .to.emit(token, "StarterPackClaimed")
+        .withArgs(alice.address);
+
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(await token.STARTER_PACK_ENERGY());
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(await token.STARTER_PACK_GOLD());
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(1n);
+      expect(await token.hasClaimedStarterPack(alice.address)).to.equal(true);
+      expect(await token.isPlayer(alice.address)).to.equal(true);
+    });
+
+    it("can only be claimed once per address", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+
+      await token.connect(alice).claimStarterPack();
+      await expect(token.connect(alice).claimStarterPack()).to.be.revertedWithCustomError(
+        token,
+        "StarterPackAlreadyClaimed"
+      );
+
+      // Other players are unaffected
+      await expect(token.connect(bob).claimStarterPack()).not.to.be.reverted;
+    });
+  });
+
+  describe("Dungeon runs", function () {
+    it("burns the tier's energy cost on commit", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      await token.mintEnergy(alice.address, 10);
+
+      for (let dungeonId = 0; dungeonId < 3; dungeonId++) {
+        const { energyCost } = await token.getDungeon(dungeonId);
+        const energyBefore = await token.balanceOf(alice.address, ENERGY);
+        const seed = seedFor(`energy-${dungeonId}`);
+
+        await token.connect(alice).commitDungeonRun(dungeonId, commitmentFor(alice.address, seed));
+        expect(await token.balanceOf(alice.address, ENERGY)).to.equal(energyBefore - energyCost);
+
+        await mine(Number(await token.REVEAL_DELAY()));
+        await token.connect(alice).revealDungeonRun(seed);
+      }
+
+      // 1 + 2 + 3
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(4n);
+    });
+
+    it("reverts with insufficient energy", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      const seed = seedFor("broke");
+
+      await expect(
+        token.connect(alice).commitDungeonRun(CATACOMBS, commitmentFor(alice.address, seed))
+      )
+        .to.be.revertedWithCustomError(token, "InsufficientBalance")
+        .withArgs(ENERGY, 0n, 1n);
+
+      // Dragon Lair costs 3
+      await token.mintEnergy(alice.address, 2);
+      await expect(
+        token.connect(alice).commitDungeonRun(2, commitmentFor(alice.address, seed))
+      )
+        .to.be.revertedWithCustomError(token, "InsufficientBalance")
+        .withArgs(ENERGY, 2n, 3n);
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(2n);
+    });
+
+    it("rejects unknown and disabled dungeons", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      await token.mintEnergy(alice.address, 10);
+      const commitment = commitmentFor(alice.address, seedFor("closed"));
+
+      await expect(token.connect(alice).commitDungeonRun(99, commitment))
+        .to.be.revertedWithCustomError(token, "UnknownDungeon")
+        .withArgs(99n);
+
+      await token.setDungeonEnabled(CATACOMBS, false);
+      await expect(token.connect(alice).commitDungeonRun(CATACOMBS, commitment))
+        .to.be.revertedWithCustomError(token, "DungeonDisabled")
+        .withArgs(CATACOMBS);
+    });
+
+    it("mints one loot item and gold within the tier's range on reveal", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      await token.mintEnergy(alice.address, 10);
+      const { lootIds, goldMin, goldMax } = await token.getDungeon(CATACOMBS);
+
+      const tx = await runDungeon(token, alice, CATACOMBS, seedFor("first run"));
+      const receipt = await tx.wait();
+      const [event] = await token.queryFilter(token.filters.DungeonRun(alice.address), receipt!.blockNumber);
+
+      expect(lootIds).to.include(event.args.lootId);
+      expect(event.args.amount).to.equal(1n);
+      expect(event.args.gold).to.be.within(goldMin, goldMax);
+      expect(await token.balanceOf(alice.address, event.args.lootId)).to.equal(1n);
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(event.args.gold);
+    });
+
+    it("enforces the commit-reveal rules", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+      await token.mintEnergy(alice.address, 10);
+      const seed = seedFor("rules");
+
+      await expect(token.connect(alice).revealDungeonRun(seed))
+        .to.be.revertedWithCustomError(token, "NoPendingRun")
+        .withArgs(alice.address, 0);
+
+      const commit = await (
+        await token.connect(alice).commitDungeonRun(CATACOMBS, commitmentFor(alice.address, seed))
+      ).wait();
+      const revealBlock = BigInt(commit!.blockNumber) + (await token.REVEAL_DELAY()) + 1n;
+      await expect(token.connect(alice).commitDungeonRun(CATACOMBS, commitmentFor(alice.address, seed)))
+        .to.be.revertedWithCustomError(token, "RunAlreadyPending")
+        .withArgs(0);
+      await expect(token.connect(alice).revealDungeonRun(seed))
+        .to.be.revertedWithCustomError(token, "RevealTooEarly")
+        .withArgs(revealBlock);
+
+      await mine(Number(await token.REVEAL_DELAY()));
+      await expect(token.connect(alice).revealDungeonRun(seedFor("other"))).to.be.revertedWithCustomError(
+        token,
+        "InvalidSeed"
+      );
+      await expect(token.connect(bob).revealDungeonRun(seed))
+        .to.be.revertedWithCustomError(token, "NoPendingRun")
+        .withArgs(bob.address, 0);
+      await expect(token.connect(alice).revealDungeonRun(seed)).to.emit(token, "DungeonRun");
+    });
+
+    it("lets anyone expire a run once the reveal window has passed", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+      await token.mintEnergy(alice.address, 10);
+      const seed = seedFor("forgotten");
+
+      const commit = await (
+        await token.connect(alice).commitDungeonRun(CATACOMBS, commitmentFor(alice.address, seed))
+      ).wait();
+      const lastRevealBlock = BigInt(commit!.blockNumber) + (await token.REVEAL_DELAY()) + (await token.REVEAL_WINDOW());
+      await expect(token.connect(bob).expireRun(alice.address, 0))
+        .to.be.revertedWithCustomError(token, "RunNotExpired")
+        .withArgs(lastRevealBlock);
+
+      await mine(Number((await token.REVEAL_DELAY()) + (await token.REVEAL_WINDOW())));
+      await expect(token.connect(alice).revealDungeonRun(seed))
+        .to.be.revertedWithCustomError(token, "RevealWindowClosed")
+        .withArgs(lastRevealBlock);
+      await expect(token.connect(bob).expireRun(alice.address, 0))
+        .to.emit(token, "RunExpired")
+        .withArgs(alice.address, 0);
+
+      // The energy stays spent
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(9n);
+    });
+
+    it("only drops items from the loot table across many seeded runs", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      const runs = 30;
+      await token.mintEnergy(alice.address, runs);
+      const { lootIds, goldMin, goldMax } = await token.getDungeon(CATACOMBS);
+
+      for (let i = 0; i < runs; i++) {
+        await runDungeon(token, alice, CATACOMBS, seedFor(`run-${i}`));
+      }
+
+      const events = await token.queryFilter(token.filters.DungeonRun(alice.address));
+      expect(events).to.have.lengthOf(runs);
+
+      let swords = 0n;
+      let gold = 0n;
+      for (const event of events) {
+        expect(lootIds).to.include(event.args.lootId);
+        expect(event.args.gold).to.be.within(goldMin, goldMax);
+        gold += event.args.gold;
+      }
+      for (const lootId of lootIds) {
+        swords += await token.balanceOf(alice.address, lootId);
+      }
+
+      expect(swords).to.equal(BigInt(runs));
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(gold);
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(0n);
+    });
+
+    it("distributes loot exactly by weight over every roll", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      const { lootIds, lootWeights } = await token.getDungeon(CATACOMBS);
+      const totalWeight = lootWeights.reduce((sum, weight) => sum + weight, 0n);
+      await token.mintEnergy(alice.address, totalWeight);
+
+      // One run per possible roll value
+      for (let roll = 0n; roll < totalWeight; roll++) {
+        const requestId = await coordinator.nextRequestId();
+        await token.connect(alice).requestDungeonRun(CATACOMBS);
+        await coordinator.fulfillRequest(requestId, roll);
+      }
+
+      for (let i = 0; i < lootIds.length; i++) {
+        expect(await token.balanceOf(alice.address, lootIds[i])).to.equal(lootWeights[i]);
+      }
+    });
+  });
+
+  describe("Randomness coordinator", function () {
+    it("switches dungeon runs from commit-reveal to requests", async function () {
+      const { token, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await token.mintEnergy(alice.address, 10);
+
+      await expect(
+        token.connect(alice).commitDungeonRun(CATACOMBS, commitmentFor(alice.address, seedFor("x")))
+      ).to.be.revertedWithCustomError(token, "RandomnessCoordinatorActive");
+      await expect(token.connect(alice).requestDungeonRun(CATACOMBS)).to.emit(token, "LootRequested");
+      expect(await token.pendingLootRequests(alice.address)).to.equal(1n);
+    });
+
+    it("fulfils requests in any order and only from the coordinator", async function () {
+      const { token, coordinator, alice, bob } = await loadFixture(deployWithCoordinatorFixture);
+      await token.mintEnergy(alice.address, 2);
+
+      await token.connect(alice).requestDungeonRun(CATACOMBS);
+      await token.connect(alice).requestDungeonRun(CATACOMBS);
+      await expect(token.connect(bob).fulfillRandomness(1, 0))
+        .to.be.revertedWithCustomError(token, "NotRandomnessCoordinator")
+        .withArgs(bob.address);
+
+      await coordinator.fulfillRequest(2, CATACOMBS_ROLL[EPIC_SWORD.toString()]);
+      await coordinator.fulfillRequest(1, CATACOMBS_ROLL[COMMON_SWORD.toString()]);
+
+      expect(await token.balanceOf(alice.address, EPIC_SWORD)).to.equal(1n);
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(1n);
+      expect(await token.pendingLootRequests(alice.address)).to.equal(0n);
+    });
+
+    it("keeps a request open when its callback fails and fulfils it on retry", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      const epicRoll = CATACOMBS_ROLL[EPIC_SWORD.toString()];
+      // Cap Epic Swords at the one Alice already has, so the next drop can't be minted
+      await giveSwords(token, coordinator, alice, EPIC_SWORD, 1);
+      const epic = await token.getItem(EPIC_SWORD);
+      await token.setItem(EPIC_SWORD, epic.name, epic.rarity, epic.attackPower, false, 1);
+
+      await token.mintEnergy(alice.address, 1);
+      const requestId = await coordinator.nextRequestId();
+      await token.connect(alice).requestDungeonRun(CATACOMBS);
+      await expect(coordinator.fulfillRequest(requestId, epicRoll))
+        .to.emit(coordinator, "RandomnessFulfilled")
+        .withArgs(requestId, epicRoll, false);
+
+      expect((await token.lootRequests(requestId)).player).to.equal(alice.address);
+      expect(await token.pendingLootRequests(alice.address)).to.equal(1n);
+      expect(await coordinator.requestConsumer(requestId)).to.equal(await token.getAddress());
+
+      await token.setItem(EPIC_SWORD, epic.name, epic.rarity, epic.attackPower, false, 0);
+      await expect(coordinator.fulfillRequest(requestId, epicRoll))
+        .to.emit(coordinator, "RandomnessFulfilled")
+        .withArgs(requestId, epicRoll, true);
+
+      expect(await token.balanceOf(alice.address, EPIC_SWORD)).to.equal(2n);
+      expect((await token.lootRequests(requestId)).player).to.equal(ethers.ZeroAddress);
+      expect(await token.pendingLootRequests(alice.address)).to.equal(0n);
+      await expect(coordinator.fulfillRequest(requestId, epicRoll))
+        .to.be.revertedWithCustomError(coordinator, "UnknownRequest")
+        .withArgs(requestId);
+    });
+
+    it("only switches coordinator once every loot request is closed", async function () {
+      const { token, coordinator, alice, bob } = await loadFixture(deployWithCoordinatorFixture);
+      await token.mintEnergy(alice.address, 1);
+      const requestId = await coordinator.nextRequestId();
+      await token.connect(alice).requestDungeonRun(CATACOMBS);
+
+      await expect(token.setRandomnessCoordinator(ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(token, "LootRequestsOpen")
+        .withArgs(1n);
+      await expect(token.connect(bob).cancelLootRequest(requestId))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(bob.address, await token.CONFIG_ADMIN_ROLE());
+
+      await expect(token.cancelLootRequest(requestId))
+        .to.emit(token, "LootRequestCancelled")
+        .withArgs(alice.address, requestId);
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(1n);
+      expect(await token.pendingLootRequests(alice.address)).to.equal(0n);
+      expect(await token.openLootRequests()).to.equal(0n);
+      await expect(token.cancelLootRequest(requestId))
+        .to.be.revertedWithCustomError(token, "UnknownLootRequest")
+        .withArgs(requestId);
+
+      await expect(token.setRandomnessCoordinator(ethers.ZeroAddress))
+        .to.emit(token, "RandomnessCoordinatorUpdated")
+        .withArgs(ethers.ZeroAddress);
+    });
+
+    it("voids the open loot requests of a player who is reset", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await token.mintEnergy(alice.address, 2);
+      const requestId = await coordinator.nextRequestId();
+      await token.connect(alice).requestDungeonRun(CATACOMBS);
+      await token.connect(alice).requestDungeonRun(CATACOMBS);
+
+      await token.resetPlayer(alice.address);
+      expect(await token.pendingLootRequests(alice.address)).to.equal(0n);
+      expect(await token.openLootRequests()).to.equal(2n);
+
+      // One closes through the coordinator, the other by cancelling; neither pays out
+      await coordinator.fulfillRequest(requestId, CATACOMBS_ROLL[EPIC_SWORD.toString()]);
+      await token.cancelLootRequest(requestId + 1n);
+      expect(await token.balanceOf(alice.address, EPIC_SWORD)).to.equal(0n);
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(0n);
+      expect(await token.pendingLootRequests(alice.address)).to.equal(0n);
+      expect(await token.openLootRequests()).to.equal(0n);
+    });
+
+    it("reverts requests while no coordinator is set", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      await token.mintEnergy(alice.address, 1);
+
+      await expect(token.connect(alice).requestDungeonRun(CATACOMBS)).to.be.revertedWithCustomError(
+        token,
+        "NoRandomnessCoordinator"
+      );
+    });
+  });
+
+  describe("Time rewards", function () {
+    it("mints 1-2 energy and 5-10 gold", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(claimTimeRewards(token, alice, seedFor("tick"))).to.emit(token, "TimeRewardClaimed");
+
+      expect(await token.balanceOf(alice.address, ENERGY)).to.be.within(1n, 2n);
+      expect(await token.balanceOf(alice.address, GOLD)).to.be.within(5n, 10n);
+    });
+
+    it("enforces TIME_REWARD_COOLDOWN to the second", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      const cooldown = await token.TIME_REWARD_COOLDOWN();
+
+      await claimTimeRewards(token, alice, seedFor("first"));
+      const lastClaim = await token.lastTimeRewardClaim(alice.address);
+      const commitment = commitmentFor(alice.address, seedFor("second"));
+
+      await time.setNextBlockTimestamp(lastClaim + cooldown - 1n);
+      await expect(token.connect(alice).commitTimeRewards(commitment))
+        .to.be.revertedWithCustomError(token, "CooldownActive")
+        .withArgs(lastClaim + cooldown);
+
+      await time.setNextBlockTimestamp(lastClaim + cooldown);
+      await expect(token.connect(alice).commitTimeRewards(commitment)).not.to.be.reverted;
+      expect(await token.lastTimeRewardClaim(alice.address)).to.equal(lastClaim + cooldown);
+    });
+
+    it("is available again after time.increase past the cooldown", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await claimTimeRewards(token, alice, seedFor("morning"));
+      await expect(
+        token.connect(alice).commitTimeRewards(commitmentFor(alice.address, seedFor("too soon")))
+      ).to.be.revertedWithCustomError(token, "CooldownActive");
+
+      await time.increase(await token.TIME_REWARD_COOLDOWN());
+      await expect(claimTimeRewards(token, alice, seedFor("evening"))).to.emit(token, "TimeRewardClaimed");
+    });
+  });
+
+  describe("Crafting", function () {
+    it("crafts a Rare Sword from 3 Common Swords", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, COMMON_SWORD, 3);
+
+      await expect(token.connect(alice).craftItem(COMMON_TO_RARE))
+        .to.emit(token, "ItemCrafted")
+        .withArgs(alice.address, RARE_SWORD, 1n);
+
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(0n);
+      expect(await token.balanceOf(alice.address, RARE_SWORD)).to.equal(1n);
+    });
+
+    it("reverts Common to Rare without 3 Common Swords", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, COMMON_SWORD, 2);
+
+      await expect(token.connect(alice).craftItem(COMMON_TO_RARE))
+        .to.be.revertedWithCustomError(token, "InsufficientBalance")
+        .withArgs(COMMON_SWORD, 2n, 3n);
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(2n);
+    });
+
+    it("crafts an Epic Sword from 2 Rare Swords", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, RARE_SWORD, 2);
+
+      await expect(token.connect(alice).craftItem(RARE_TO_EPIC))
+        .to.emit(token, "ItemCrafted")
+        .withArgs(alice.address, EPIC_SWORD, 1n);
+
+      expect(await token.balanceOf(alice.address, RARE_SWORD)).to.equal(0n);
+      expect(await token.balanceOf(alice.address, EPIC_SWORD)).to.equal(1n);
+    });
+
+    it("reverts Rare to Epic without 2 Rare Swords", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, RARE_SWORD, 1);
+
+      await expect(token.connect(alice).craftItem(RARE_TO_EPIC))
+        .to.be.revertedWithCustomError(token, "InsufficientBalance")
+        .withArgs(RARE_SWORD, 1n, 2n);
+    });
+
+    LEGENDARY_SWORDS.forEach((legendaryId, index) => {
+      const recipeId = FIRST_LEGENDARY_RECIPE + index;
+
+      it(`crafts Legendary Sword #${index + 1} from 5 Epic Swords and 1000 Gold`, async function () {
+        const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+        await giveSwords(token, coordinator, alice, EPIC_SWORD, 5);
+        await token.mintGold(alice.address, 1000);
+        const goldBefore = await token.balanceOf(alice.address, GOLD);
+
+        await expect(token.connect(alice).craftItem(recipeId))
+          .to.emit(token, "ItemCrafted")
+          .withArgs(alice.address, legendaryId, 1n);
+
+        expect(await token.balanceOf(alice.address, EPIC_SWORD)).to.equal(0n);
+        expect(await token.balanceOf(alice.address, GOLD)).to.equal(goldBefore - 1000n);
+        expect(await token.balanceOf(alice.address, legendaryId)).to.equal(1n);
+      });
+    });
+
+    it("reverts a legendary craft without 5 Epic Swords", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, EPIC_SWORD, 4);
+      await token.mintGold(alice.address, 1000);
+
+      await expect(token.connect(alice).craftItem(FIRST_LEGENDARY_RECIPE))
+        .to.be.revertedWithCustomError(token, "InsufficientBalance")
+        .withArgs(EPIC_SWORD, 4n, 5n);
+    });
+
+    it("reverts a legendary craft without 1000 Gold", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, EPIC_SWORD, 5);
+      const gold = await token.balanceOf(alice.address, GOLD);
+      await token.mintGold(alice.address, 999n - gold);
+
+      await expect(token.connect(alice).craftItem(FIRST_LEGENDARY_RECIPE))
+        .to.be.revertedWithCustomError(token, "InsufficientBalance")
+        .withArgs(GOLD, 999n, 1000n);
+      expect(await token.balanceOf(alice.address, EPIC_SWORD)).to.equal(5n);
+    });
+
+    it("allows each legendary variant only once per player", async function () {
+      const { token, coordinator, alice, bob } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, EPIC_SWORD, 10);
+      await token.mintGold(alice.address, 2000);
+
+      await token.connect(alice).craftItem(FIRST_LEGENDARY_RECIPE);
+      await expect(token.connect(alice).craftItem(FIRST_LEGENDARY_RECIPE))
+        .to.be.revertedWithCustomError(token, "CraftLimitReached")
+        .withArgs(FIRST_LEGENDARY_RECIPE, 1n);
+      expect(await token.craftCount(alice.address, FIRST_LEGENDARY_RECIPE)).to.equal(1n);
+
+      // A different variant still works, and the limit is per player
+      await expect(token.connect(alice).craftItem(FIRST_LEGENDARY_RECIPE + 1)).not.to.be.reverted;
+      await giveSwords(token, coordinator, bob, EPIC_SWORD, 5);
+      await token.mintGold(bob.address, 1000);
+      await expect(token.connect(bob).craftItem(FIRST_LEGENDARY_RECIPE)).not.to.be.reverted;
+    });
+
+    it("reports the full inventory and craft counts in one getInventory call", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, EPIC_SWORD, 5);
+      await token.mintGold(alice.address, 1000);
+      await token.connect(alice).craftItem(FIRST_LEGENDARY_RECIPE + 2);
+
+      const [ids, balances, craftCounts] = await token.getInventory(alice.address);
+      expect(ids).to.deep.equal([ENERGY, GOLD, COMMON_SWORD, RARE_SWORD, EPIC_SWORD, ...LEGENDARY_SWORDS]);
+      expect(balances).to.deep.equal(await token.balanceOfBatch(ids.map(() => alice.address), [...ids]));
+      expect(balances[ids.indexOf(EPIC_SWORD)]).to.equal(0n);
+      expect(balances[ids.indexOf(LEGENDARY_SWORDS[2])]).to.equal(1n);
+      expect(craftCounts).to.deep.equal([0n, 0n, 0n, 0n, 1n, 0n, 0n]);
+    });
+
+    it("rejects unknown and disabled recipes", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, COMMON_SWORD, 3);
+
+      await expect(token.connect(alice).craftItem(99)).to.be.revertedWithCustomError(token, "UnknownRecipe").withArgs(99n);
+
+      await token.setRecipeEnabled(COMMON_TO_RARE, false);
+      await expect(token.connect(alice).craftItem(COMMON_TO_RARE))
+        .to.be.revertedWithCustomError(token, "RecipeDisabled")
+        .withArgs(COMMON_TO_RARE);
+    });
+  });
+
+  describe("Item rules", function () {
+    // Redefine an item with a new soulbound flag and supply cap, keeping the rest
+    async function setItemRules(token: DungeonToken, itemId: bigint, soulbound: boolean, maxSupply: bigint) {
+      const item = await token.getItem(itemId);
+      await token.setItem(itemId, item.name, item.rarity, item.attackPower, soulbound, maxSupply);
+    }
+
+    it("keeps soulbound items with their holder but still mints and burns them", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+      await setItemRules(token, COMMON_SWORD, true, 0n);
+
+      await token.connect(alice).claimStarterPack();
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(1n);
+
+      await expect(token.connect(alice).safeTransferFrom(alice.address, bob.address, COMMON_SWORD, 1, "0x"))
+        .to.be.revertedWithCustomError(token, "ItemSoulbound")
+        .withArgs(COMMON_SWORD);
+
+      await token.connect(alice).burn(alice.address, COMMON_SWORD, 1);
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(0n);
+    });
+
+    it("caps admin mints at the item's max supply", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      const supply = await token["totalSupply(uint256)"](GOLD);
+      await setItemRules(token, GOLD, false, supply + 5n);
+
+      await token.mintGold(alice.address, 5);
+      await expect(token.mintGold(alice.address, 1))
+        .to.be.revertedWithCustomError(token, "MaxSupplyExceeded")
+        .withArgs(GOLD, supply + 5n);
+      await expect(setItemRules(token, GOLD, false, supply))
+        .to.be.revertedWithCustomError(token, "MaxSupplyBelowCurrentSupply")
+        .withArgs(GOLD, supply, supply + 5n);
+    });
+
+    it("caps dungeon loot at the item's max supply", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, EPIC_SWORD, 1);
+      await setItemRules(token, EPIC_SWORD, false, 1n);
+      await token.mintEnergy(alice.address, 1);
+      const requestId = await coordinator.nextRequestId();
+      await token.connect(alice).requestDungeonRun(CATACOMBS);
+
+      // Call the callback as the coordinator to see why it fails
+      const coordinatorAddress = await coordinator.getAddress();
+      await setBalance(coordinatorAddress, ethers.parseEther("1"));
+      const coordinatorSigner = await ethers.getImpersonatedSigner(coordinatorAddress);
+      await expect(
+        token.connect(coordinatorSigner).fulfillRandomness(requestId, CATACOMBS_ROLL[EPIC_SWORD.toString()])
+      )
+        .to.be.revertedWithCustomError(token, "MaxSupplyExceeded")
+        .withArgs(EPIC_SWORD, 1n);
+    });
+
+    it("caps crafting at the output's max supply", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, COMMON_SWORD, 3);
+      await giveSwords(token, coordinator, alice, RARE_SWORD, 1);
+      await setItemRules(token, RARE_SWORD, false, 1n);
+
+      await expect(token.connect(alice).craftItem(COMMON_TO_RARE))
+        .to.be.revertedWithCustomError(token, "MaxSupplyExceeded")
+        .withArgs(RARE_SWORD, 1n);
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(3n);
+    });
+  });
+
+  describe("Metadata", function () {
+    const BASE_URI = "https://example.com/metadata/{id}.json";
+
+    it("serves the base URI and announces it for every item", async function () {
+      const { token } = await loadFixture(deployFixture);
+
+      const tx = await token.setBaseURI(BASE_URI);
+      await expect(tx).to.emit(token, "URI").withArgs(BASE_URI, ENERGY);
+      await expect(tx).to.emit(token, "URI").withArgs(BASE_URI, EPIC_SWORD);
+      const receipt = await tx.wait();
+      const announced = receipt!.logs.filter(log => token.interface.parseLog(log)?.name === "URI");
+      expect(announced.length).to.equal(Number(await token.getItemCount()));
+
+      expect(await token.uri(EPIC_SWORD)).to.equal(BASE_URI);
+    });
+
+    it("serves on-chain JSON from the metadata renderer until it is removed", async function () {
+      const { token } = await loadFixture(deployFixture);
+      await token.setBaseURI(BASE_URI);
+      const renderer = await ethers.deployContract("ItemMetadataRenderer", [await token.getAddress()]);
+      const rendererAddress = await renderer.getAddress();
+
+      await expect(token.setMetadataRenderer(rendererAddress))
+        .to.emit(token, "MetadataRendererUpdated")
+        .withArgs(rendererAddress);
+
+      const dataUri = await token.uri(EPIC_SWORD);
+      expect(dataUri).to.equal(await renderer.uri(EPIC_SWORD));
+      const prefix = "data:application/json;base64,";
+      expect(dataUri.startsWith(prefix)).to.equal(true);
+      const metadata = JSON.parse(Buffer.from(dataUri.slice(prefix.length), "base64").toString("utf8"));
+      expect(metadata.name).to.equal("Epic Sword");
+      expect(metadata.description).to.equal("Epic item from Dungeon Game.");
+      expect(metadata.attributes).to.deep.include({ trait_type: "Rarity", value: "Epic" });
+
+      await token.setMetadataRenderer(ethers.ZeroAddress);
+      expect(await token.uri(EPIC_SWORD)).to.equal(BASE_URI);
+    });
+
+    it("rejects metadata changes from accounts without the config admin role", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      const configAdmin = await token.CONFIG_ADMIN_ROLE();
+
+      await expect(token.connect(alice).setBaseURI(BASE_URI))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, configAdmin);
+      await expect(token.connect(alice).setMetadataRenderer(alice.address))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, configAdmin);
+    });
+  });
+
+  describe("Seasons", function () {
+    const VETERAN_SWORD = 3001n;
+
+    it("starts with an open-ended first season and archives it when the next starts", async function () {
+      const { token } = await loadFixture(deployFixture);
+      expect(await token.currentSeason()).to.equal(1n);
+      expect((await token.getSeason(1)).endsAt).to.equal(0n);
+
+      const tx = await token.startSeason(7 * 24 * 60 * 60);
+      const startedAt = BigInt(await time.latest());
+      await expect(tx)
+        .to.emit(token, "SeasonStarted")
+        .withArgs(2n, startedAt, startedAt + 7n * 24n * 60n * 60n);
+
+      expect(await token.currentSeason()).to.equal(2n);
+      expect((await token.getSeason(1)).endedAt).to.equal(startedAt);
+      const season = await token.getSeason(2);
+      expect(season.startedAt).to.equal(startedAt);
+      expect(season.endedAt).to.equal(0n);
+
+      await expect(token.getSeason(0)).to.be.revertedWithCustomError(token, "UnknownSeason").withArgs(0n);
+      await expect(token.getSeason(3)).to.be.revertedWithCustomError(token, "UnknownSeason").withArgs(3n);
+    });
+
+    it("soft-resets balances and starter packs, settling players when they next play", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      await token.connect(alice).claimStarterPack();
+
+      await token.startSeason(0);
+
+      // Nothing is burned yet, but balances already read as the new season's
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(0n);
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(0n);
+      expect(await token["totalSupply(uint256)"](COMMON_SWORD)).to.equal(1n);
+      expect(await token.hasClaimedStarterPack(alice.address)).to.equal(false);
+
+      await token.connect(alice).claimStarterPack();
+      expect(await token.playerSeason(alice.address)).to.equal(2n);
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(100n);
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(1n);
+      expect(await token["totalSupply(uint256)"](COMMON_SWORD)).to.equal(1n);
+    });
+
+    it("settles items parked on a wallet that never played when they move again", async function () {
+      const { token, alice, others } = await loadFixture(deployFixture);
+      const [wallet] = others;
+      await token.setVeteranItem(GOLD, GOLD);
+      await token.connect(alice).claimStarterPack();
+      await token
+        .connect(alice)
+        .safeBatchTransferFrom(alice.address, wallet.address, [GOLD, COMMON_SWORD], [100, 1], "0x");
+      expect(await token.isPlayer(wallet.address)).to.equal(false);
+      expect(await token.playerSeason(wallet.address)).to.equal(1n);
+
+      await token.startSeason(0);
+      expect(await token.balanceOf(wallet.address, COMMON_SWORD)).to.equal(0n);
+
+      // Moving the parked items back settles the wallet first: the sword expired, the Gold carried over
+      await expect(token.connect(wallet).safeTransferFrom(wallet.address, alice.address, COMMON_SWORD, 1, "0x"))
+        .to.be.revertedWithCustomError(token, "ERC1155InsufficientBalance")
+        .withArgs(wallet.address, 0n, 1n, COMMON_SWORD);
+      await token.connect(wallet).safeTransferFrom(wallet.address, alice.address, GOLD, 100, "0x");
+
+      expect(await token.playerSeason(wallet.address)).to.equal(2n);
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(100n);
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(0n);
+      expect(await token["totalSupply(uint256)"](COMMON_SWORD)).to.equal(0n);
+    });
+
+    it("carries items over as veteran tokens and resets legendary craft limits", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await token.setItem(VETERAN_SWORD, "Veteran Sword", 4, 100, true, 0);
+      await token.setVeteranItem(LEGENDARY_SWORDS[0], VETERAN_SWORD);
+      await token.setVeteranItem(EPIC_SWORD, EPIC_SWORD);
+      await giveSwords(token, coordinator, alice, EPIC_SWORD, 7);
+      await token.mintGold(alice.address, 1000);
+      await token.connect(alice).craftItem(FIRST_LEGENDARY_RECIPE);
+
+      await token.startSeason(0);
+
+      const expected = [
+        [LEGENDARY_SWORDS[0], 0n],
+        [VETERAN_SWORD, 1n],
+        [EPIC_SWORD, 2n],
+        [GOLD, 0n],
+      ] as const;
+      for (const [itemId, balance] of expected) {
+        expect(await token.balanceOf(alice.address, itemId)).to.equal(balance);
+      }
+      expect(await token.craftCount(alice.address, FIRST_LEGENDARY_RECIPE)).to.equal(0n);
+
+      // Settling on the next transfer leaves the same balances
+      await token.mintGold(alice.address, 1000);
+      for (const [itemId, balance] of expected.slice(0, 3)) {
+        expect(await token.balanceOf(alice.address, itemId)).to.equal(balance);
+      }
+      expect(await token["totalSupply(uint256)"](LEGENDARY_SWORDS[0])).to.equal(0n);
+      expect(await token.veteranItemOf(VETERAN_SWORD)).to.equal(VETERAN_SWORD);
+
+      // The legendary can be crafted again this season
+      await giveSwords(token, coordinator, alice, EPIC_SWORD, 3);
+      await expect(token.connect(alice).craftItem(FIRST_LEGENDARY_RECIPE)).not.to.be.reverted;
+    });
+
+    it("archives each season's players and stats", async function () {
+      const { token, coordinator, owner, alice, bob } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, EPIC_SWORD, 5);
+      await token.mintGold(alice.address, 1000);
+      await token.connect(alice).craftItem(FIRST_LEGENDARY_RECIPE);
+      // The 1000 minted Gold went into the craft, so what is left came from the runs
+      const goldFromRuns = await token.balanceOf(alice.address, GOLD);
+      await token.connect(bob).claimStarterPack();
+
+      await token.startSeason(0);
+      await token.connect(bob).claimStarterPack();
+
+      expect(await token.getSeasonPlayerCount(1)).to.equal(3n);
+      const [players, stats] = await token.getSeasonStandings(1, 1, 10);
+      expect(players).to.deep.equal([alice.address, bob.address]);
+      expect(stats[0].dungeonRuns).to.equal(5n);
+      expect(stats[0].goldEarned).to.equal(goldFromRuns);
+      expect(stats[0].itemsCrafted).to.equal(1n);
+      expect(stats[0].legendariesCrafted).to.equal(1n);
+      expect(stats[1].dungeonRuns).to.equal(0n);
+
+      // Season 2 only lists who has played in it so far
+      const [current] = await token.getSeasonStandings(2, 0, 10);
+      expect(current).to.deep.equal([bob.address]);
+      const [pastTheEnd] = await token.getSeasonStandings(1, 5, 10);
+      expect(pastTheEnd).to.deep.equal([]);
+      expect(await token.playerSeason(owner.address)).to.equal(1n);
+    });
+
+    it("rejects season administration from other accounts and unknown veteran items", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.connect(alice).startSeason(0))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.GAME_MASTER_ROLE());
+      await expect(token.connect(alice).setVeteranItem(EPIC_SWORD, EPIC_SWORD))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.CONFIG_ADMIN_ROLE());
+      await expect(token.setVeteranItem(EPIC_SWORD, VETERAN_SWORD))
+        .to.be.revertedWithCustomError(token, "UnknownItem")
+        .withArgs(VETERAN_SWORD);
+    });
+  });
+
+  describe("Roles", function () {
+    it("gives the deployer every role", async function () {
+      const { token, owner } = await loadFixture(deployFixture);
+
+      for (const role of [
+        await token.DEFAULT_ADMIN_ROLE(),
+        await token.MINTER_ROLE(),
+        await token.GAME_MASTER_ROLE(),
+        await token.CONFIG_ADMIN_ROLE(),
+        await token.PAUSER_ROLE(),
+      ]) {
+        expect(await token.hasRole(role, owner.address)).to.equal(true);
+      }
+    });
+
+    it("unlocks only the functions of the roles an account holds", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+      await token.grantRole(await token.MINTER_ROLE(), alice.address);
+      await token.grantRole(await token.CONFIG_ADMIN_ROLE(), bob.address);
+
+      await expect(token.connect(alice).mintGold(bob.address, 10)).not.to.be.reverted;
+      await expect(token.connect(alice).resetPlayer(bob.address))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.GAME_MASTER_ROLE());
+      await expect(token.connect(alice).setRecipeEnabled(COMMON_TO_RARE, false))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.CONFIG_ADMIN_ROLE());
+
+      await expect(token.connect(bob).setRecipeEnabled(COMMON_TO_RARE, false)).not.to.be.reverted;
+      await expect(token.connect(bob).mintGold(bob.address, 10))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(bob.address, await token.MINTER_ROLE());
+    });
+
+    it("lets only the admin grant and revoke roles", async function () {
+      const { token, owner, alice, bob } = await loadFixture(deployFixture);
+      const minter = await token.MINTER_ROLE();
+
+      await expect(token.connect(alice).grantRole(minter, bob.address))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.DEFAULT_ADMIN_ROLE());
+
+      await expect(token.grantRole(minter, alice.address))
+        .to.emit(token, "RoleGranted")
+        .withArgs(minter, alice.address, owner.address);
+      await token.revokeRole(minter, alice.address);
+      expect(await token.hasRole(minter, alice.address)).to.equal(false);
+      await expect(token.connect(alice).mintEnergy(alice.address, 1)).to.be.revertedWithCustomError(
+        token,
+        "AccessControlUnauthorizedAccount"
+      );
+    });
+  });
+
+  describe("Emergency pause", function () {
+    // GameAction enum order
+    const DUNGEON_RUNS = 0;
+    const CRAFTING = 1;
+    const TIME_REWARDS = 2;
+    const TRANSFERS = 3;
+
+    it("pauses new dungeon runs on their own but lets runs committed before the pause be revealed", async function () {
+      const { token, owner, alice } = await loadFixture(deployFixture);
+      await token.connect(alice).claimStarterPack();
+      const seed = seedFor("paused run");
+      await token.connect(alice).commitDungeonRun(CATACOMBS, commitmentFor(alice.address, seed));
+
+      await expect(token.setPaused(DUNGEON_RUNS, true)).to.emit(token, "Paused").withArgs(DUNGEON_RUNS, owner.address);
+      expect(await token.paused(DUNGEON_RUNS)).to.equal(true);
+      await mine(Number(await token.REVEAL_DELAY()));
+
+      await expect(token.connect(alice).revealDungeonRun(seed)).to.emit(token, "DungeonRun");
+      await expect(token.connect(alice).commitDungeonRun(CATACOMBS, commitmentFor(alice.address, seed)))
+        .to.be.revertedWithCustomError(token, "ActionPaused")
+        .withArgs(DUNGEON_RUNS);
+      await expect(claimTimeRewards(token, alice, seedFor("still open"))).not.to.be.reverted;
+
+      await expect(token.setPaused(DUNGEON_RUNS, false)).to.emit(token, "Unpaused").withArgs(DUNGEON_RUNS, owner.address);
+      await expect(runDungeon(token, alice, CATACOMBS, seedFor("after resume"))).to.emit(token, "DungeonRun");
+    });
+
+    it("holds coordinator loot while dungeon runs are paused and delivers it on retry", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await token.connect(alice).claimStarterPack();
+      await token.connect(alice).requestDungeonRun(CATACOMBS);
+      const requestId = (await coordinator.nextRequestId()) - 1n;
+
+      await token.setPaused(DUNGEON_RUNS, true);
+      await expect(coordinator.fulfillRequest(requestId, CATACOMBS_ROLL[EPIC_SWORD.toString()]))
+        .to.emit(coordinator, "RandomnessFulfilled")
+        .withArgs(requestId, CATACOMBS_ROLL[EPIC_SWORD.toString()], false);
+      expect(await token.balanceOf(alice.address, EPIC_SWORD)).to.equal(0n);
+      expect(await token.pendingLootRequests(alice.address)).to.equal(1n);
+
+      await token.setPaused(DUNGEON_RUNS, false);
+      await coordinator.fulfillRequest(requestId, CATACOMBS_ROLL[EPIC_SWORD.toString()]);
+      expect(await token.balanceOf(alice.address, EPIC_SWORD)).to.equal(1n);
+      expect(await token.pendingLootRequests(alice.address)).to.equal(0n);
+    });
+
+    it("pauses coordinator dungeon requests, crafting and time rewards", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await giveSwords(token, coordinator, alice, COMMON_SWORD, 3);
+
+      await token.setPaused(DUNGEON_RUNS, true);
+      await expect(token.connect(alice).requestDungeonRun(CATACOMBS))
+        .to.be.revertedWithCustomError(token, "ActionPaused")
+        .withArgs(DUNGEON_RUNS);
+
+      await token.setPaused(CRAFTING, true);
+      await expect(token.connect(alice).craftItem(COMMON_TO_RARE))
+        .to.be.revertedWithCustomError(token, "ActionPaused")
+        .withArgs(CRAFTING);
+
+      await token.setPaused(TIME_REWARDS, true);
+      await expect(token.connect(alice).commitTimeRewards(commitmentFor(alice.address, seedFor("rewards"))))
+        .to.be.revertedWithCustomError(token, "ActionPaused")
+        .withArgs(TIME_REWARDS);
+    });
+
+    it("pauses transfers between accounts but not minting or burning", async function () {
+      const { token, owner, alice } = await loadFixture(deployFixture);
+      await token.setPaused(TRANSFERS, true);
+
+      await expect(token.safeTransferFrom(owner.address, alice.address, GOLD, 1, "0x"))
+        .to.be.revertedWithCustomError(token, "ActionPaused")
+        .withArgs(TRANSFERS);
+      await expect(token.mintGold(alice.address, 10)).not.to.be.reverted;
+      await expect(token.connect(alice).burn(alice.address, GOLD, 5)).not.to.be.reverted;
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(5n);
+    });
+
+    it("lets only pausers pause", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.connect(alice).setPaused(TRANSFERS, true))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.PAUSER_ROLE());
+
+      await token.grantRole(await token.PAUSER_ROLE(), alice.address);
+      await token.connect(alice).setPaused(TRANSFERS, true);
+      expect(await token.paused(TRANSFERS)).to.equal(true);
+    });
+  });
+
+  describe("Admin functions", function () {
+    it("rejects minting from accounts without the minter role", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      const minter = await token.MINTER_ROLE();
+
+      await expect(token.connect(alice).mintEnergy(alice.address, 100))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, minter);
+      await expect(token.connect(alice).mintGold(alice.address, 100))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, minter);
+    });
+
+    it("rejects resets from accounts without the game master role", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+      const gameMaster = await token.GAME_MASTER_ROLE();
+
+      await expect(token.connect(alice).resetPlayer(bob.address))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, gameMaster);
+      await expect(token.connect(alice).resetPlayers([bob.address]))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, gameMaster);
+    });
+
+    it("mints energy and gold and registers the recipient", async function () {
+      const { token, bob } = await loadFixture(deployFixture);
+
+      await token.mintEnergy(bob.address, 5);
+      await token.mintGold(bob.address, 50);
+
+      expect(await token.balanceOf(bob.address, ENERGY)).to.equal(5n);
+      expect(await token.balanceOf(bob.address, GOLD)).to.equal(50n);
+      expect(await token.isPlayer(bob.address)).to.equal(true);
+      expect(await token.getPlayerCount()).to.equal(2n);
+    });
+
+    it("resets a player's balances, starter pack, cooldown and craft counts", async function () {
+      const { token, coordinator, alice } = await loadFixture(deployWithCoordinatorFixture);
+      await token.connect(alice).claimStarterPack();
+      await claimTimeRewards(token, alice, seedFor("before reset"));
+      await giveSwords(token, coordinator, alice, EPIC_SWORD, 5);
+      await token.mintGold(alice.address, 1000);
+      await token.connect(alice).craftItem(FIRST_LEGENDARY_RECIPE);
+
+      await expect(token.resetPlayer(alice.address)).to.emit(token, "PlayerReset").withArgs(alice.address);
+
+      const itemCount = Number(await token.getItemCount());
+      for (let i = 0; i < itemCount; i++) {
+        expect(await token.balanceOf(alice.address, await token.getItemIdAt(i))).to.equal(0n);
+      }
+      expect(await token.hasClaimedStarterPack(alice.address)).to.equal(false);
+      expect(await token.lastTimeRewardClaim(alice.address)).to.equal(0n);
+      expect(await token.craftCount(alice.address, FIRST_LEGENDARY_RECIPE)).to.equal(0n);
+
+      // The player can start over
+      await expect(token.connect(alice).claimStarterPack()).not.to.be.reverted;
+    });
+
+    it("resets a list of players and leaves everyone else alone", async function () {
+      const { token, owner, alice, bob } = await loadFixture(deployFixture);
+      await token.connect(alice).claimStarterPack();
+      await token.connect(bob).claimStarterPack();
+
+      await token.resetPlayers([alice.address, bob.address]);
+
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(0n);
+      expect(await token.balanceOf(bob.address, GOLD)).to.equal(0n);
+      expect(await token.balanceOf(owner.address, GOLD)).to.equal(10000n);
+    });
+
+    it("resets every player on a large playerList in bounded ranges", async function () {
+      const { token } = await loadFixture(deployFixture);
+      const playerCount = 120;
+      const players = Array.from({ length: playerCount }, () => ethers.Wallet.createRandom().address);
+
+      for (const player of players) {
+        await token.mintEnergy(player, 10);
+        await token.mintGold(player, 100);
+      }
+      expect(await token.getPlayerCount()).to.equal(BigInt(playerCount + 1));
+
+      const fromBlock = await ethers.provider.getBlockNumber();
+      let start = 0n;
+      do {
+        await token.resetPlayersRange(start, 50);
+        start = await token.resetCursor();
+      } while (start !== 0n);
+      const resets = await token.queryFilter(token.filters.PlayerReset(), fromBlock + 1);
+      expect(resets).to.have.lengthOf(playerCount + 1);
+
+      for (const player of players) {
+        expect(await token.balanceOf(player, ENERGY)).to.equal(0n);
+        expect(await token.balanceOf(player, GOLD)).to.equal(0n);
+      }
+      expect(await token["totalSupply(uint256)"](ENERGY)).to.equal(0n);
+      expect(await token["totalSupply(uint256)"](GOLD)).to.equal(0n);
+
+      // Players stay registered
+      expect(await token.getPlayerCount()).to.equal(BigInt(playerCount + 1));
+    });
+
+    it("resets players range by range and records where the pass got to", async function () {
+      const { token, owner } = await loadFixture(deployFixture);
+      const players = Array.from({ length: 5 }, () => ethers.Wallet.createRandom().address);
+      for (const player of players) {
+        await token.mintGold(player, 100);
+      }
+      // playerList: owner, then the five players
+
+      await expect(token.resetPlayersRange(0, 4))
+        .to.emit(token, "PlayersRangeReset")
+        .withArgs(0, 4, 6);
+      expect(await token.resetCursor()).to.equal(4n);
+      expect(await token.balanceOf(owner.address, GOLD)).to.equal(0n);
+      expect(await token.balanceOf(players[2], GOLD)).to.equal(0n);
+      expect(await token.balanceOf(players[3], GOLD)).to.equal(100n);
+
+      // The last range is clamped to the list and ends the pass
+      await expect(token.resetPlayersRange(4, 4))
+        .to.emit(token, "PlayersRangeReset")
+        .withArgs(4, 6, 6);
+      expect(await token.resetCursor()).to.equal(0n);
+      for (const player of players) {
+        expect(await token.balanceOf(player, GOLD)).to.equal(0n);
+      }
+    });
+
+    it("only moves the cursor for the range it points at and clamps huge counts", async function () {
+      const { token } = await loadFixture(deployFixture);
+      const players = Array.from({ length: 5 }, () => ethers.Wallet.createRandom().address);
+      for (const player of players) {
+        await token.mintGold(player, 100);
+      }
+      await token.resetPlayersRange(0, 2);
+
+      // A range elsewhere in the list leaves the pass where it was
+      await token.resetPlayersRange(4, 1);
+      expect(await token.resetCursor()).to.equal(2n);
+      expect(await token.balanceOf(players[3], GOLD)).to.equal(0n);
+
+      // start + count would overflow without the clamp
+      await expect(token.resetPlayersRange(2, ethers.MaxUint256))
+        .to.emit(token, "PlayersRangeReset")
+        .withArgs(2, 6, 6);
+      expect(await token.resetCursor()).to.equal(0n);
+
+      await expect(token.resetPlayersRange(9, 1))
+        .to.emit(token, "PlayersRangeReset")
+        .withArgs(9, 9, 6);
+      expect(await token.resetCursor()).to.equal(0n);
+
+      // A range from the first player starts a new pass
+      await token.resetPlayersRange(0, 3);
+      expect(await token.resetCursor()).to.equal(3n);
+    });
+
+    it("rejects range resets from other accounts", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.connect(alice).resetPlayersRange(0, 10))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.GAME_MASTER_ROLE());
+    });
+  });
+});
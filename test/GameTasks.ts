@@ -0,0 +1,153 @@
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import type { DungeonToken } from "../frontend/src/types";
+
+const ENERGY = 1n;
+const GOLD = 2n;
+
+// Run a task without its console output
+async function runQuietly(name: string, args: Record<string, unknown>) {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await hre.run(name, args);
+  } finally {
+    console.log = log;
+  }
+}
+
+function writeCsv(contents: string) {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "airdrop-")), "airdrop.csv");
+  fs.writeFileSync(file, contents);
+  return file;
+}
+
+describe("game tasks", function () {
+  async function deployFixture() {
+    const [owner, alice, bob, carol] = await ethers.getSigners();
+    const token = (await ethers.deployContract("DungeonToken")) as unknown as DungeonToken;
+    await token.waitForDeployment();
+    return { token, tokenAddress: await token.getAddress(), owner, alice, bob, carol };
+  }
+
+  it("airdrops Energy and Gold from a CSV file in chunks", async function () {
+    const { token, tokenAddress, alice, bob } = await loadFixture(deployFixture);
+    const csv = writeCsv(`address,energy,gold\n${alice.address},5,100\n\n${bob.address},0,7\n`);
+
+    await runQuietly("game:airdrop", { csv, chunkSize: 2, token: tokenAddress });
+
+    expect(await token.balanceOf(alice.address, ENERGY)).to.equal(5n);
+    expect(await token.balanceOf(alice.address, GOLD)).to.equal(100n);
+    expect(await token.balanceOf(bob.address, ENERGY)).to.equal(0n);
+    expect(await token.balanceOf(bob.address, GOLD)).to.equal(7n);
+  });
+
+  it("sends nothing on a dry run", async function () {
+    const { token, tokenAddress, alice } = await loadFixture(deployFixture);
+    const csv = writeCsv(`${alice.address},5,100\n`);
+
+    await runQuietly("game:airdrop", { csv, dryRun: true, token: tokenAddress });
+    await runQuietly("game:mint-energy", { to: alice.address, amount: 3, dryRun: true, token: tokenAddress });
+
+    expect(await token.balanceOf(alice.address, ENERGY)).to.equal(0n);
+    expect(await token.balanceOf(alice.address, GOLD)).to.equal(0n);
+  });
+
+  it("rejects malformed CSV rows before sending anything", async function () {
+    const { token, tokenAddress, alice } = await loadFixture(deployFixture);
+    const csv = writeCsv(`${alice.address},5,100\nnot-an-address,1,1\n`);
+
+    await expect(runQuietly("game:airdrop", { csv, token: tokenAddress })).to.be.rejectedWith(
+      "Line 2 is not an address: not-an-address"
+    );
+    expect(await token.balanceOf(alice.address, ENERGY)).to.equal(0n);
+  });
+
+  it("resets players in chunks", async function () {
+    const { token, tokenAddress, alice, bob, carol } = await loadFixture(deployFixture);
+    for (const player of [alice, bob, carol]) {
+      await runQuietly("game:mint-gold", { to: player.address, amount: 50, token: tokenAddress });
+    }
+    expect(await token.getPlayerCount()).to.equal(4n);
+
+    await runQuietly("game:reset-player", {
+      players: `${alice.address}, ${bob.address},${carol.address}`,
+      chunkSize: 2,
+      token: tokenAddress,
+    });
+
+    for (const player of [alice, bob, carol]) {
+      expect(await token.balanceOf(player.address, GOLD)).to.equal(0n);
+    }
+  });
+
+  it("resets every player in batches, resuming an unfinished pass", async function () {
+    const { token, tokenAddress, alice, bob, carol } = await loadFixture(deployFixture);
+    for (const player of [alice, bob, carol]) {
+      await token.mintGold(player.address, 50);
+    }
+    await token.resetPlayersRange(0, 2);
+
+    await runQuietly("game:reset-all", { batchSize: 1, token: tokenAddress });
+
+    expect(await token.resetCursor()).to.equal(0n);
+    for (const player of [alice, bob, carol]) {
+      expect(await token.balanceOf(player.address, GOLD)).to.equal(0n);
+    }
+  });
+
+  it("starts seasons and sets veteran items", async function () {
+    const { token, tokenAddress, alice } = await loadFixture(deployFixture);
+    await token.mintGold(alice.address, 50);
+
+    await runQuietly("game:set-veteran-item", { item: 2, veteran: 2, token: tokenAddress });
+    await runQuietly("game:start-season", { days: 7, token: tokenAddress });
+
+    expect(await token.currentSeason()).to.equal(2n);
+    const season = await token.getSeason(2);
+    expect(season.endsAt - season.startedAt).to.equal(7n * 24n * 60n * 60n);
+    expect(await token.veteranItemOf(GOLD)).to.equal(GOLD);
+    expect(await token.veteranItemOf(ENERGY)).to.equal(0n);
+    expect(await token.balanceOf(alice.address, GOLD)).to.equal(50n);
+  });
+
+  it("grants and revokes roles by name", async function () {
+    const { token, tokenAddress, alice } = await loadFixture(deployFixture);
+
+    await runQuietly("game:grant-role", { role: "game-master", account: alice.address, token: tokenAddress });
+    expect(await token.hasRole(await token.GAME_MASTER_ROLE(), alice.address)).to.equal(true);
+
+    await runQuietly("game:revoke-role", { role: "GAME_MASTER_ROLE", account: alice.address, token: tokenAddress });
+    expect(await token.hasRole(await token.GAME_MASTER_ROLE(), alice.address)).to.equal(false);
+
+    await expect(
+      runQuietly("game:grant-role", { role: "owner", account: alice.address, token: tokenAddress })
+    ).to.be.rejectedWith("Unknown role: owner");
+  });
+
+  it("pauses and resumes game actions by name", async function () {
+    const { token, tokenAddress } = await loadFixture(deployFixture);
+
+    await runQuietly("game:pause", { action: "time-rewards", token: tokenAddress });
+    expect(await token.paused(2)).to.equal(true);
+
+    await runQuietly("game:unpause", { action: "time-rewards", token: tokenAddress });
+    expect(await token.paused(2)).to.equal(false);
+
+    await expect(runQuietly("game:pause", { action: "minting", token: tokenAddress })).to.be.rejectedWith(
+      "Unknown action: minting"
+    );
+  });
+
+  it("needs --token on a network without a recorded deployment", async function () {
+    const { alice } = await loadFixture(deployFixture);
+
+    await expect(runQuietly("game:inventory", { player: alice.address })).to.be.rejectedWith(
+      "No DungeonToken deployment recorded for hardhat"
+    );
+  });
+});
@@ -0,0 +1,200 @@
+import * as os from "os";
+import * as path from "path";
+import type { AddressInfo } from "net";
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { DungeonToken, TradeEscrow } from "../frontend/src/types";
+import { decodeLog } from "../indexer/indexer";
+import { createServer } from "../indexer/server";
+import { EventStore, IndexedEvent } from "../indexer/store";
+
+// Token IDs
+const ENERGY = 1n;
+const GOLD = 2n;
+const COMMON_SWORD = 1001n;
+const VETERAN_SWORD = 3001n;
+
+const ZERO_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+// Never saved, so nothing is written there
+const newStore = () => new EventStore(path.join(os.tmpdir(), "dungeon-indexer-test.json"));
+
+// Index every DungeonToken log so far into a fresh store, as Indexer.sync does
+async function indexToken(token: DungeonToken) {
+  const store = newStore();
+  store.load(31337, await token.getAddress(), 0);
+
+  const head = await ethers.provider.getBlockNumber();
+  const logs = await ethers.provider.getLogs({ address: await token.getAddress(), fromBlock: 0, toBlock: head });
+  const events: IndexedEvent[] = [];
+  for (const log of logs) {
+    const parsed = token.interface.parseLog(log);
+    if (!parsed) continue;
+    const block = await ethers.provider.getBlock(log.blockNumber);
+    events.push(decodeLog(parsed, log, block!.timestamp));
+  }
+  store.append(events, head, (await ethers.provider.getBlock(head))!.hash!);
+  return store;
+}
+
+// The store's balances for a player must equal DungeonToken.balanceOf for every item
+async function expectProjectionMatches(token: DungeonToken, store: EventStore, player: string) {
+  const balances = store.getBalances(player);
+  const itemCount = await token.getItemCount();
+  for (let index = 0n; index < itemCount; index++) {
+    const id = await token.getItemIdAt(index);
+    expect(BigInt(balances[id.toString()] ?? "0"), `item ${id}`).to.equal(await token.balanceOf(player, id));
+  }
+}
+
+// A synthetic event for the paging tests, one per block
+const event = (blockNumber: number, name: string, timestamp: number, players: string[] = []): IndexedEvent => ({
+  id: `${blockNumber}-0`,
+  name,
+  blockNumber,
+  logIndex: 0,
+  transactionHash: "0x",
+  timestamp,
+  args: {},
+  players,
+});
+
+describe("Indexer", function () {
+  // Alice claims a starter pack and sends Bob 2 Energy; common swords become
+  // veteran swords and Gold carries over into the next season
+  async function deployFixture() {
+    const [owner, alice, bob, wallet] = await ethers.getSigners();
+
+    const token = (await ethers.deployContract("DungeonToken")) as unknown as DungeonToken;
+    await token.waitForDeployment();
+
+    await token.connect(alice).claimStarterPack();
+    await token.mintGold(bob.address, 50);
+    await token.connect(alice).safeTransferFrom(alice.address, bob.address, ENERGY, 2, "0x");
+    await token.setItem(VETERAN_SWORD, "Veteran Sword", 4, 100, true, 0);
+    await token.setVeteranItem(COMMON_SWORD, VETERAN_SWORD);
+    await token.setVeteranItem(GOLD, GOLD);
+
+    return { token, owner, alice, bob, wallet };
+  }
+
+  describe("EventStore", function () {
+    it("derives balances and supply from transfers", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+
+      const store = await indexToken(token);
+
+      expect(store.getBalances(alice.address)).to.deep.equal({ "1": "8", "2": "100", "1001": "1" });
+      expect(store.getBalances(bob.address)).to.deep.equal({ "1": "2", "2": "50" });
+      expect(store.getSupply()[ENERGY.toString()]).to.deep.equal({ minted: "1010", burned: "0", circulating: "1010" });
+      for (const player of [alice.address, bob.address]) {
+        await expectProjectionMatches(token, store, player);
+      }
+    });
+
+    it("projects unsettled players into a new season like balanceOf", async function () {
+      const { token, owner, alice, bob } = await loadFixture(deployFixture);
+      await token.startSeason(0);
+
+      const store = await indexToken(token);
+
+      // Nobody has been settled yet: Energy expired, the sword became a veteran sword
+      expect(store.getBalances(alice.address)).to.deep.equal({ "2": "100", "3001": "1" });
+      for (const player of [owner.address, alice.address, bob.address]) {
+        await expectProjectionMatches(token, store, player);
+      }
+    });
+
+    it("follows the settlement transfers once players play in the new season", async function () {
+      const { token, alice, bob } = await loadFixture(deployFixture);
+      await token.startSeason(0);
+      await token.connect(alice).safeTransferFrom(alice.address, bob.address, GOLD, 10, "0x");
+
+      const store = await indexToken(token);
+
+      expect(store.getBalances(alice.address)).to.deep.equal({ "2": "90", "3001": "1" });
+      expect(store.getBalances(bob.address)).to.deep.equal({ "2": "60" });
+      for (const player of [alice.address, bob.address]) {
+        await expectProjectionMatches(token, store, player);
+      }
+      expect(store.getSupply()[COMMON_SWORD.toString()].circulating).to.equal("0");
+    });
+
+    it("settles wallets that never played like the contract and leaves escrows alone", async function () {
+      const { token, alice, bob, wallet } = await loadFixture(deployFixture);
+      const escrow = (await ethers.deployContract("TradeEscrow", [await token.getAddress()])) as unknown as TradeEscrow;
+      const escrowAddress = await escrow.getAddress();
+      await token.grantRole(await token.ESCROW_ROLE(), escrowAddress);
+      await token.connect(alice).setApprovalForAll(escrowAddress, true);
+      await escrow.connect(alice).createOffer(bob.address, { ids: [COMMON_SWORD], amounts: [1n] }, { ids: [], amounts: [] });
+      await token.connect(alice).safeTransferFrom(alice.address, wallet.address, GOLD, 40, "0x");
+      await token.startSeason(0);
+
+      const store = await indexToken(token);
+
+      expect(store.getBalances(wallet.address)).to.deep.equal({ "2": "40" });
+      expect(store.getBalances(escrowAddress)).to.deep.equal({ "1001": "1" });
+      for (const holder of [wallet.address, escrowAddress]) {
+        await expectProjectionMatches(token, store, holder);
+      }
+    });
+
+    it("pages events newest first and filters them by name, player and time", function () {
+      const store = newStore();
+      store.load(1, ZERO_ADDRESS, 0);
+      store.append(
+        [
+          event(1, "DungeonRun", 100, ["0xaa"]),
+          event(2, "ItemCrafted", 200, ["0xbb"]),
+          event(3, "DungeonRun", 300, ["0xbb"]),
+          event(4, "DungeonRun", 400, ["0xaa"]),
+          event(5, "TimeRewardClaimed", 500, ["0xaa"]),
+        ],
+        5,
+        "0x05"
+      );
+      const ids = (events: IndexedEvent[]) => events.map(indexed => indexed.id);
+
+      const firstPage = store.queryEvents({ limit: 2 });
+      expect(ids(firstPage)).to.deep.equal(["5-0", "4-0"]);
+      expect(ids(store.queryEvents({ limit: 2, before: firstPage[1].id }))).to.deep.equal(["3-0", "2-0"]);
+      expect(ids(store.queryEvents({ limit: 2, before: "2-0" }))).to.deep.equal(["1-0"]);
+
+      expect(ids(store.queryEvents({ names: ["DungeonRun"], player: "0xAA" }))).to.deep.equal(["4-0", "1-0"]);
+      expect(ids(store.queryEvents({ since: 300 }))).to.deep.equal(["5-0", "4-0", "3-0"]);
+      expect(store.eventCount).to.equal(5);
+      expect(store.lastBlock).to.equal(5);
+    });
+  });
+
+  describe("Server", function () {
+    it("answers balance and event requests from the store and rejects bad ones", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+      await token.startSeason(0);
+      const store = await indexToken(token);
+
+      const server = createServer(store).listen(0);
+      await new Promise(resolve => server.once("listening", resolve));
+      const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      try {
+        const balances = await fetch(`${baseUrl}/players/${alice.address}/balances`);
+        expect(balances.status).to.equal(200);
+        expect(await balances.json()).to.deep.equal({ "2": "100", "3001": "1" });
+
+        const seasons = await fetch(`${baseUrl}/events?names=SeasonStarted&limit=1`);
+        const [latest] = await seasons.json();
+        expect(latest.name).to.equal("SeasonStarted");
+        expect(latest.args.seasonId).to.equal("2");
+
+        const invalid = await fetch(`${baseUrl}/players/nobody/balances`);
+        expect(invalid.status).to.equal(400);
+        expect(await invalid.json()).to.deep.equal({ error: "Invalid address" });
+        expect((await fetch(`${baseUrl}/nowhere`)).status).to.equal(404);
+        expect((await fetch(`${baseUrl}/events`, { method: "POST" })).status).to.equal(405);
+      } finally {
+        await new Promise(resolve => server.close(resolve));
+      }
+    });
+  });
+});
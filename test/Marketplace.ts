@@ -0,0 +1,196 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { DungeonToken, Marketplace } from "../frontend/src/types";
+
+// Token IDs
+const ENERGY = 1n;
+const GOLD = 2n;
+const VETERAN_ENERGY = 3001n;
+
+describe("Marketplace", function () {
+  // Alice lists 10 Energy at 20 Gold each; Bob has Gold to buy with
+  async function deployFixture() {
+    const [owner, alice, bob, treasury] = await ethers.getSigners();
+
+    const token = (await ethers.deployContract("DungeonToken")) as unknown as DungeonToken;
+    await token.waitForDeployment();
+    const market = (await ethers.deployContract("Marketplace", [await token.getAddress()])) as unknown as Marketplace;
+    await market.waitForDeployment();
+    const marketAddress = await market.getAddress();
+    await token.grantRole(await token.ESCROW_ROLE(), marketAddress);
+
+    await token.mintEnergy(alice.address, 10);
+    await token.mintGold(bob.address, 1000);
+    for (const player of [alice, bob]) {
+      await token.connect(player).setApprovalForAll(marketAddress, true);
+    }
+    await market.connect(alice).createListing(ENERGY, 10, 20);
+
+    return { token, market, marketAddress, owner, alice, bob, treasury, listingId: 0n };
+  }
+
+  describe("Listing", function () {
+    it("escrows the listed items", async function () {
+      const { token, market, marketAddress, alice, listingId } = await loadFixture(deployFixture);
+
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(0n);
+      expect(await token.balanceOf(marketAddress, ENERGY)).to.equal(10n);
+      expect(await market.getListingCount()).to.equal(1n);
+
+      const listing = await market.getListing(listingId);
+      expect(listing.seller).to.equal(alice.address);
+      expect(listing.remaining).to.equal(10n);
+      expect(listing.pricePerUnit).to.equal(20n);
+      expect(listing.active).to.equal(true);
+    });
+
+    it("rejects listing Gold", async function () {
+      const { market, bob } = await loadFixture(deployFixture);
+
+      await expect(market.connect(bob).createListing(GOLD, 1, 1)).to.be.revertedWithCustomError(market, "CannotListGold");
+    });
+
+    it("returns the unsold items when the seller cancels", async function () {
+      const { token, market, alice, bob, listingId } = await loadFixture(deployFixture);
+      await market.connect(bob).buy(listingId, 4);
+
+      await expect(market.connect(alice).cancelListing(listingId))
+        .to.emit(market, "ListingCancelled")
+        .withArgs(listingId);
+
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(6n);
+      expect((await market.getListing(listingId)).active).to.equal(false);
+    });
+
+    it("only lets the seller cancel an active listing", async function () {
+      const { market, alice, bob, listingId } = await loadFixture(deployFixture);
+
+      await expect(market.connect(bob).cancelListing(listingId))
+        .to.be.revertedWithCustomError(market, "NotListingSeller")
+        .withArgs(listingId);
+
+      await market.connect(alice).cancelListing(listingId);
+      await expect(market.connect(alice).cancelListing(listingId))
+        .to.be.revertedWithCustomError(market, "ListingNotActive")
+        .withArgs(listingId);
+    });
+  });
+
+  describe("Buying", function () {
+    it("sells part of a listing and closes it once sold out", async function () {
+      const { token, market, alice, bob, listingId } = await loadFixture(deployFixture);
+
+      await expect(market.connect(bob).buy(listingId, 4))
+        .to.emit(market, "ItemSold")
+        .withArgs(listingId, bob.address, 4n, 80n, 0n);
+
+      expect(await token.balanceOf(bob.address, ENERGY)).to.equal(4n);
+      expect(await token.balanceOf(bob.address, GOLD)).to.equal(920n);
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(80n);
+      expect((await market.getListing(listingId)).remaining).to.equal(6n);
+
+      await expect(market.connect(bob).buy(listingId, 7))
+        .to.be.revertedWithCustomError(market, "InvalidAmount")
+        .withArgs(7n);
+      await market.connect(bob).buy(listingId, 6);
+
+      expect((await market.getListing(listingId)).active).to.equal(false);
+      await expect(market.connect(bob).buy(listingId, 1))
+        .to.be.revertedWithCustomError(market, "ListingNotActive")
+        .withArgs(listingId);
+    });
+
+    it("rejects buying your own listing", async function () {
+      const { market, alice, listingId } = await loadFixture(deployFixture);
+
+      await expect(market.connect(alice).buy(listingId, 1))
+        .to.be.revertedWithCustomError(market, "CannotBuyOwnListing")
+        .withArgs(listingId);
+    });
+  });
+
+  describe("Seasons", function () {
+    it("stops sales of a listing from an earlier season and burns it on cancel if it expired", async function () {
+      const { token, market, marketAddress, alice, bob, listingId } = await loadFixture(deployFixture);
+      await token.startSeason(0);
+
+      await expect(market.connect(bob).buy(listingId, 1))
+        .to.be.revertedWithCustomError(market, "ListingFromPastSeason")
+        .withArgs(listingId, 1n);
+
+      await market.connect(alice).cancelListing(listingId);
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(0n);
+      expect(await token.balanceOf(marketAddress, ENERGY)).to.equal(0n);
+    });
+
+    it("returns a listing from an earlier season on cancel if its item carries over", async function () {
+      const { token, market, alice, listingId } = await loadFixture(deployFixture);
+      await token.setVeteranItem(ENERGY, ENERGY);
+      await token.startSeason(0);
+
+      await market.connect(alice).cancelListing(listingId);
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(10n);
+    });
+
+    it("returns a listing from an earlier season as its veteran item on cancel", async function () {
+      const { token, market, marketAddress, alice, listingId } = await loadFixture(deployFixture);
+      await token.setItem(VETERAN_ENERGY, "Veteran Energy", 4, 0, true, 0);
+      await token.setVeteranItem(ENERGY, VETERAN_ENERGY);
+      await token.startSeason(0);
+
+      await market.connect(alice).cancelListing(listingId);
+      expect(await token.balanceOf(alice.address, VETERAN_ENERGY)).to.equal(10n);
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(0n);
+      expect(await token.balanceOf(marketAddress, ENERGY)).to.equal(0n);
+    });
+
+    it("only lets escrow contracts settle escrowed items", async function () {
+      const { token, alice } = await loadFixture(deployFixture);
+
+      await expect(token.connect(alice).settleEscrowed(alice.address, [ENERGY], [1n]))
+        .to.be.revertedWithCustomError(token, "AccessControlUnauthorizedAccount")
+        .withArgs(alice.address, await token.ESCROW_ROLE());
+    });
+  });
+
+  describe("Fees", function () {
+    it("sends the fee to the treasury", async function () {
+      const { token, market, alice, bob, treasury, listingId } = await loadFixture(deployFixture);
+      await expect(market.setFee(500, treasury.address))
+        .to.emit(market, "FeeUpdated")
+        .withArgs(500n, treasury.address);
+
+      await expect(market.connect(bob).buy(listingId, 5))
+        .to.emit(market, "ItemSold")
+        .withArgs(listingId, bob.address, 5n, 100n, 5n);
+
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(95n);
+      expect(await token.balanceOf(treasury.address, GOLD)).to.equal(5n);
+      expect(await token.balanceOf(bob.address, GOLD)).to.equal(900n);
+    });
+
+    it("burns the fee when no treasury is set", async function () {
+      const { token, market, marketAddress, alice, bob, listingId } = await loadFixture(deployFixture);
+      await market.setFee(1000, ethers.ZeroAddress);
+      const supply = await token["totalSupply(uint256)"](GOLD);
+
+      await market.connect(bob).buy(listingId, 5);
+
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(90n);
+      expect(await token.balanceOf(marketAddress, GOLD)).to.equal(0n);
+      expect(await token["totalSupply(uint256)"](GOLD)).to.equal(supply - 10n);
+    });
+
+    it("caps the fee and keeps setFee to the owner", async function () {
+      const { market, alice } = await loadFixture(deployFixture);
+
+      await expect(market.setFee(1001, ethers.ZeroAddress))
+        .to.be.revertedWithCustomError(market, "FeeTooHigh")
+        .withArgs(1001n, 1000n);
+      await expect(market.connect(alice).setFee(100, alice.address))
+        .to.be.revertedWithCustomError(market, "OwnableUnauthorizedAccount")
+        .withArgs(alice.address);
+    });
+  });
+});
@@ -0,0 +1,226 @@
+import { loadFixture } from "@nomicfoundation/hardhat-network-helpers";
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import type { DungeonToken, TradeEscrow } from "../frontend/src/types";
+
+// Token IDs
+const ENERGY = 1n;
+const GOLD = 2n;
+const COMMON_SWORD = 1001n;
+const VETERAN_SWORD = 3001n;
+
+// Mirrors TradeEscrow.OfferStatus
+const OPEN = 0n;
+const ACCEPTED = 1n;
+const DECLINED = 2n;
+const CANCELLED = 3n;
+const COUNTERED = 4n;
+
+const bundle = (ids: bigint[] = [], amounts: bigint[] = []) => ({ ids, amounts });
+
+describe("TradeEscrow", function () {
+  // Alice holds a common sword and Energy, Bob holds Gold; both approved the escrow
+  async function deployFixture() {
+    const [owner, alice, bob, carol] = await ethers.getSigners();
+
+    const token = (await ethers.deployContract("DungeonToken")) as unknown as DungeonToken;
+    await token.waitForDeployment();
+    const escrow = (await ethers.deployContract("TradeEscrow", [await token.getAddress()])) as unknown as TradeEscrow;
+    await escrow.waitForDeployment();
+    const escrowAddress = await escrow.getAddress();
+    await token.grantRole(await token.ESCROW_ROLE(), escrowAddress);
+
+    await token.connect(alice).claimStarterPack();
+    await token.mintGold(bob.address, 100);
+    for (const player of [alice, bob]) {
+      await token.connect(player).setApprovalForAll(escrowAddress, true);
+    }
+
+    return { token, escrow, escrowAddress, owner, alice, bob, carol };
+  }
+
+  // Alice offers Bob her common sword and 5 Energy for 50 Gold
+  async function openOfferFixture() {
+    const base = await deployFixture();
+    const { escrow, alice, bob } = base;
+
+    await escrow.connect(alice).createOffer(bob.address, bundle([COMMON_SWORD, ENERGY], [1n, 5n]), bundle([GOLD], [50n]));
+
+    return { ...base, offerId: 1n };
+  }
+
+  describe("Creating offers", function () {
+    it("escrows the maker's bundle and lists the offer for both players", async function () {
+      const { token, escrow, escrowAddress, alice, bob } = await loadFixture(deployFixture);
+      const energy = await token.balanceOf(alice.address, ENERGY);
+
+      await expect(
+        escrow.connect(alice).createOffer(bob.address, bundle([COMMON_SWORD, ENERGY], [1n, 5n]), bundle([GOLD], [50n]))
+      )
+        .to.emit(escrow, "OfferCreated")
+        .withArgs(1n, alice.address, bob.address, 0n);
+
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(0n);
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(energy - 5n);
+      expect(await token.balanceOf(escrowAddress, COMMON_SWORD)).to.equal(1n);
+      expect(await token.balanceOf(escrowAddress, ENERGY)).to.equal(5n);
+
+      const offer = await escrow.getOffer(1);
+      expect(offer.maker).to.equal(alice.address);
+      expect(offer.taker).to.equal(bob.address);
+      expect(offer.give.ids).to.deep.equal([COMMON_SWORD, ENERGY]);
+      expect(offer.want.amounts).to.deep.equal([50n]);
+      expect(offer.status).to.equal(OPEN);
+      expect(await escrow.getOutgoingOffers(alice.address)).to.deep.equal([1n]);
+      expect(await escrow.getIncomingOffers(bob.address)).to.deep.equal([1n]);
+      expect(await escrow.nextOfferId()).to.equal(2n);
+    });
+
+    it("rejects offers to nobody, to the maker or with nothing on either side", async function () {
+      const { escrow, alice, carol } = await loadFixture(deployFixture);
+      const give = bundle([COMMON_SWORD], [1n]);
+
+      await expect(escrow.connect(alice).createOffer(ethers.ZeroAddress, give, bundle()))
+        .to.be.revertedWithCustomError(escrow, "InvalidTaker")
+        .withArgs(ethers.ZeroAddress);
+      await expect(escrow.connect(alice).createOffer(alice.address, give, bundle()))
+        .to.be.revertedWithCustomError(escrow, "InvalidTaker")
+        .withArgs(alice.address);
+      await expect(escrow.connect(alice).createOffer(carol.address, bundle(), bundle())).to.be.revertedWithCustomError(
+        escrow,
+        "EmptyOffer"
+      );
+    });
+
+    it("reverts on an unknown offer", async function () {
+      const { escrow, bob } = await loadFixture(deployFixture);
+
+      await expect(escrow.getOffer(7)).to.be.revertedWithCustomError(escrow, "UnknownOffer").withArgs(7n);
+      await expect(escrow.connect(bob).acceptOffer(7)).to.be.revertedWithCustomError(escrow, "UnknownOffer").withArgs(7n);
+    });
+  });
+
+  describe("Closing offers", function () {
+    it("swaps both bundles when the taker accepts", async function () {
+      const { token, escrow, escrowAddress, alice, bob, offerId } = await loadFixture(openOfferFixture);
+      const aliceGold = await token.balanceOf(alice.address, GOLD);
+
+      await expect(escrow.connect(bob).acceptOffer(offerId))
+        .to.emit(escrow, "OfferAccepted")
+        .withArgs(offerId, bob.address);
+
+      expect(await token.balanceOf(bob.address, COMMON_SWORD)).to.equal(1n);
+      expect(await token.balanceOf(bob.address, ENERGY)).to.equal(5n);
+      expect(await token.balanceOf(bob.address, GOLD)).to.equal(50n);
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(aliceGold + 50n);
+      expect(await token.balanceOf(escrowAddress, COMMON_SWORD)).to.equal(0n);
+      expect((await escrow.getOffer(offerId)).status).to.equal(ACCEPTED);
+    });
+
+    it("returns the bundle to the maker when the taker declines", async function () {
+      const { token, escrow, alice, bob, offerId } = await loadFixture(openOfferFixture);
+
+      await expect(escrow.connect(bob).declineOffer(offerId))
+        .to.emit(escrow, "OfferDeclined")
+        .withArgs(offerId, bob.address);
+
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(1n);
+      expect(await token.balanceOf(bob.address, GOLD)).to.equal(100n);
+      expect((await escrow.getOffer(offerId)).status).to.equal(DECLINED);
+    });
+
+    it("returns the bundle to the maker when either player cancels", async function () {
+      const { token, escrow, alice, bob, offerId } = await loadFixture(openOfferFixture);
+      const energy = await token.balanceOf(alice.address, ENERGY);
+
+      await expect(escrow.connect(bob).cancelOffer(offerId))
+        .to.emit(escrow, "OfferCancelled")
+        .withArgs(offerId, bob.address);
+
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(1n);
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(energy + 5n);
+      expect((await escrow.getOffer(offerId)).status).to.equal(CANCELLED);
+    });
+
+    it("returns the bundle and opens the reverse offer on a counter", async function () {
+      const { token, escrow, alice, bob, offerId } = await loadFixture(openOfferFixture);
+      const aliceGold = await token.balanceOf(alice.address, GOLD);
+
+      await expect(escrow.connect(bob).counterOffer(offerId, bundle([GOLD], [30n]), bundle([COMMON_SWORD], [1n])))
+        .to.emit(escrow, "OfferCountered")
+        .withArgs(offerId, 2n);
+
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(1n);
+      expect((await escrow.getOffer(offerId)).status).to.equal(COUNTERED);
+      const counter = await escrow.getOffer(2);
+      expect(counter.maker).to.equal(bob.address);
+      expect(counter.taker).to.equal(alice.address);
+      expect(counter.counterTo).to.equal(offerId);
+      expect(await token.balanceOf(bob.address, GOLD)).to.equal(70n);
+
+      await escrow.connect(alice).acceptOffer(2);
+      expect(await token.balanceOf(alice.address, GOLD)).to.equal(aliceGold + 30n);
+      expect(await token.balanceOf(bob.address, COMMON_SWORD)).to.equal(1n);
+    });
+
+    it("only lets the taker accept, decline or counter and the two players cancel", async function () {
+      const { escrow, alice, carol, offerId } = await loadFixture(openOfferFixture);
+
+      await expect(escrow.connect(alice).acceptOffer(offerId))
+        .to.be.revertedWithCustomError(escrow, "NotOfferTaker")
+        .withArgs(offerId);
+      await expect(escrow.connect(alice).declineOffer(offerId))
+        .to.be.revertedWithCustomError(escrow, "NotOfferTaker")
+        .withArgs(offerId);
+      await expect(escrow.connect(alice).counterOffer(offerId, bundle([ENERGY], [1n]), bundle()))
+        .to.be.revertedWithCustomError(escrow, "NotOfferTaker")
+        .withArgs(offerId);
+      await expect(escrow.connect(carol).cancelOffer(offerId))
+        .to.be.revertedWithCustomError(escrow, "NotOfferParty")
+        .withArgs(offerId);
+    });
+
+    it("settles an offer from an earlier season the way the season start settled its maker", async function () {
+      const { token, escrow, escrowAddress, alice, bob, offerId } = await loadFixture(openOfferFixture);
+      // Energy carries over, the common sword expires
+      await token.setVeteranItem(ENERGY, ENERGY);
+      const energy = await token.balanceOf(alice.address, ENERGY);
+      await token.startSeason(0);
+
+      await expect(escrow.connect(bob).acceptOffer(offerId))
+        .to.be.revertedWithCustomError(escrow, "OfferFromPastSeason")
+        .withArgs(offerId, 1n);
+
+      await escrow.connect(alice).cancelOffer(offerId);
+      expect(await token.balanceOf(alice.address, ENERGY)).to.equal(energy + 5n);
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(0n);
+      expect(await token.balanceOf(escrowAddress, COMMON_SWORD)).to.equal(0n);
+      expect(await token["totalSupply(uint256)"](COMMON_SWORD)).to.equal(0n);
+    });
+
+    it("returns items from an earlier season as their veteran items", async function () {
+      const { token, escrow, escrowAddress, alice, bob, offerId } = await loadFixture(openOfferFixture);
+      await token.setItem(VETERAN_SWORD, "Veteran Sword", 4, 100, true, 0);
+      await token.setVeteranItem(COMMON_SWORD, VETERAN_SWORD);
+      await token.startSeason(0);
+
+      await escrow.connect(bob).declineOffer(offerId);
+      expect(await token.balanceOf(alice.address, VETERAN_SWORD)).to.equal(1n);
+      expect(await token.balanceOf(alice.address, COMMON_SWORD)).to.equal(0n);
+      expect(await token.balanceOf(escrowAddress, COMMON_SWORD)).to.equal(0n);
+      expect(await token.balanceOf(escrowAddress, ENERGY)).to.equal(0n);
+    });
+
+    it("rejects acting on an offer that is no longer open", async function () {
+      const { escrow, alice, bob, offerId } = await loadFixture(openOfferFixture);
+      await escrow.connect(alice).cancelOffer(offerId);
+
+      await expect(escrow.connect(bob).acceptOffer(offerId))
+        .to.be.revertedWithCustomError(escrow, "OfferNotOpen")
+        .withArgs(offerId, CANCELLED);
+      await expect(escrow.connect(alice).cancelOffer(offerId))
+        .to.be.revertedWithCustomError(escrow, "OfferNotOpen")
+        .withArgs(offerId, CANCELLED);
+    });
+  });
+});